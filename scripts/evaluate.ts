@@ -0,0 +1,255 @@
+/**
+ * Evaluation Runner
+ * =================
+ *
+ * Runs the analysis pipeline over a directory of labeled chart images and
+ * scores it (see src/lib/evaluation.ts), so prompt and model changes can be
+ * compared on the same charts.
+ *
+ * ## Layout
+ * ```
+ * charts/                     # gitignored - your labeled charts
+ * ├── ground-truth.json       # { "btc-4h.png": { currentPrice, regime, zones: [{ price, type? }] } }
+ * ├── btc-4h.png
+ * └── recordings/<label>.json # recorded model responses (--record / --provider replay)
+ * test-results/eval/          # gitignored - runs and comparison reports
+ * ```
+ *
+ * ## Usage
+ * ```bash
+ * # Score the current prompt against Gemini, recording the responses
+ * GOOGLE_AI_KEY=... npm run eval -- --label baseline --record
+ *
+ * # Re-score the same responses offline (e.g. after changing validation)
+ * npm run eval -- --label baseline-replay --provider replay --recordings charts/recordings/baseline.json
+ *
+ * # Try another prompt version or model, then compare the two runs
+ * npm run eval -- --label candidate --prompt chart-analysis@2
+ * npm run eval -- --compare baseline candidate
+ * ```
+ *
+ * | Option        | Default                       |                                     |
+ * |---------------|-------------------------------|-------------------------------------|
+ * | --label       | (required to run)             | Name of the run's output file       |
+ * | --charts      | charts                        | Images + ground-truth.json          |
+ * | --provider    | gemini                        | gemini, mock or replay              |
+ * | --model       | GEMINI_MODELS.analysis        | Analysis model (gemini only)        |
+ * | --prompt      | ANALYSIS_PROMPT selection     | Template, e.g. chart-analysis@2     |
+ * | --record      | off                           | Save responses for later replay     |
+ * | --recordings  | charts/recordings/<label>.json | Recordings to write or replay       |
+ * | --tolerance   | EVAL_DEFAULTS.tolerancePct    | Zone match tolerance (0.005 = 0.5%) |
+ * | --compare a b |                               | Write a report for two saved runs   |
+ *
+ * Charts run one at a time. Images go to the model as they are on disk -
+ * crop them the way the app would (no browser chrome).
+ *
+ * The pipeline modules are marked `server-only`; `npm run eval` points that
+ * import at its no-op entry (the one Next.js picks on the server).
+ *
+ * @module scripts/evaluate
+ */
+
+import { existsSync, mkdirSync, readdirSync, readFileSync, writeFileSync } from "fs";
+import { basename, dirname, extname, join } from "path";
+import { parseArgs } from "util";
+import { analyzeChart } from "../src/lib/chart-analysis";
+import type { ChartModelProvider } from "../src/lib/model-provider";
+import { createGeminiProvider, GEMINI_MODELS } from "../src/lib/providers/gemini-provider";
+import { createMockProvider } from "../src/lib/providers/mock-provider";
+import {
+  createRecordingProvider,
+  createReplayProvider,
+  ResponseRecording,
+} from "../src/lib/providers/replay-provider";
+import { getPrompt, promptKey, selectPrompt } from "../src/lib/prompt-registry";
+import {
+  buildRun,
+  CaseScore,
+  EVAL_DEFAULTS,
+  EvalRun,
+  formatComparisonReport,
+  formatRunSummary,
+  GroundTruth,
+  parseGroundTruth,
+  scoreCase,
+} from "../src/lib/evaluation";
+
+// ============================================
+// CONFIG
+// ============================================
+
+const RESULTS_DIR = join("test-results", "eval");
+const GROUND_TRUTH_FILE = "ground-truth.json";
+const IMAGE_EXTENSIONS = [".png", ".jpg", ".jpeg", ".webp"];
+
+// ============================================
+// MAIN
+// ============================================
+
+async function main(): Promise<number> {
+  const { values, positionals } = parseArgs({
+    options: {
+      label: { type: "string" },
+      charts: { type: "string", default: "charts" },
+      provider: { type: "string", default: "gemini" },
+      model: { type: "string" },
+      prompt: { type: "string" },
+      record: { type: "boolean", default: false },
+      recordings: { type: "string" },
+      tolerance: { type: "string" },
+      compare: { type: "boolean", default: false },
+    },
+    allowPositionals: true,
+  });
+
+  if (values.compare) {
+    if (positionals.length !== 2) return fail("--compare needs two run labels: --compare baseline candidate");
+    return compareRuns(positionals[0], positionals[1]);
+  }
+
+  if (!values.label) return fail("--label is required (the run is saved as test-results/eval/<label>.json)");
+  const tolerancePct = values.tolerance === undefined ? EVAL_DEFAULTS.tolerancePct : Number(values.tolerance);
+  if (!(tolerancePct > 0 && tolerancePct < 1)) return fail("--tolerance must be a fraction between 0 and 1, e.g. 0.005");
+
+  // One template for the whole run, so every chart is scored on the same prompt
+  const prompt = values.prompt ? getPrompt(values.prompt) : selectPrompt("analysis");
+  if (!prompt || prompt.kind !== "analysis") return fail(`--prompt "${values.prompt}" is not a registered analysis prompt`);
+
+  const truths = readGroundTruth(values.charts);
+  if (!truths.ok) return fail(truths.error);
+
+  const recordingsPath = values.recordings ?? join(values.charts, "recordings", `${values.label}.json`);
+  const provider = createProvider(values.provider, values.model, recordingsPath);
+  if (!provider.ok) return fail(provider.error);
+
+  const recordings: ResponseRecording[] = [];
+  const runProvider = values.record
+    ? createRecordingProvider(provider.provider, recording => recordings.push(recording))
+    : provider.provider;
+
+  const startedAt = new Date().toISOString();
+  const cases: CaseScore[] = [];
+  for (const [id, truth] of truths.charts) {
+    const imageBase64 = readFileSync(join(values.charts, id)).toString("base64");
+    const analysis = await analyzeChart(imageBase64, undefined, { provider: runProvider, prompt });
+    const score = scoreCase(id, analysis, truth, tolerancePct);
+    cases.push(score);
+    console.log(score.success
+      ? `  ${id}: ${score.matchedZones}/${score.labeledZones} zones found, ${score.predictedZones - score.matchedZones} extra, regime ${score.regimeCorrect ? "✓" : `✗ (${score.predictedRegime})`}`
+      : `  ${id}: failed - ${score.error}`);
+  }
+
+  const run = buildRun({
+    label: values.label,
+    promptVersion: promptKey(prompt),
+    provider: provider.provider.name,
+    model: provider.provider.models.analysis,
+    tolerancePct,
+    startedAt,
+  }, cases);
+  const runPath = join(RESULTS_DIR, `${values.label}.json`);
+  writeJson(runPath, run);
+  console.log(`\n${formatRunSummary(run)}\nSaved ${runPath}`);
+
+  if (values.record) {
+    writeJson(recordingsPath, recordings);
+    console.log(`Saved ${recordings.length} recorded response(s) to ${recordingsPath}`);
+  }
+  return 0;
+}
+
+// ============================================
+// STEPS
+// ============================================
+
+/**
+ * Read ground-truth.json and pair each label with its image.
+ */
+function readGroundTruth(
+  chartsDir: string
+): { ok: true; charts: [string, GroundTruth][] } | { ok: false; error: string } {
+  const truthPath = join(chartsDir, GROUND_TRUTH_FILE);
+  if (!existsSync(truthPath)) return { ok: false, error: `No ${truthPath} - see the layout in scripts/evaluate.ts` };
+
+  let labels: unknown;
+  try {
+    labels = JSON.parse(readFileSync(truthPath, "utf8"));
+  } catch (error: unknown) {
+    return { ok: false, error: `${truthPath} is not valid JSON: ${error instanceof Error ? error.message : String(error)}` };
+  }
+  if (!labels || typeof labels !== "object" || Array.isArray(labels)) {
+    return { ok: false, error: `${truthPath} must map image file names to labels` };
+  }
+
+  const images = new Set(readdirSync(chartsDir).filter(name => IMAGE_EXTENSIONS.includes(extname(name).toLowerCase())));
+  const charts: [string, GroundTruth][] = [];
+  for (const [id, label] of Object.entries(labels)) {
+    if (!images.has(id)) return { ok: false, error: `${truthPath}: "${id}" has no image in ${chartsDir}` };
+    const parsed = parseGroundTruth(label);
+    if (!parsed.ok) return { ok: false, error: `${truthPath}: "${id}": ${parsed.error}` };
+    charts.push([id, parsed.truth]);
+  }
+  const unlabeled = [...images].filter(name => !(name in labels));
+  if (unlabeled.length > 0) console.warn(`Skipping ${unlabeled.length} unlabeled image(s): ${unlabeled.join(", ")}`);
+  if (charts.length === 0) return { ok: false, error: `${truthPath} has no labeled charts` };
+  return { ok: true, charts: charts.sort(([a], [b]) => a.localeCompare(b)) };
+}
+
+function createProvider(
+  name: string,
+  model: string | undefined,
+  recordingsPath: string
+): { ok: true; provider: ChartModelProvider } | { ok: false; error: string } {
+  if (model && name !== "gemini") return { ok: false, error: "--model only applies to --provider gemini" };
+  switch (name) {
+    case "gemini": {
+      const apiKey = process.env.GOOGLE_AI_KEY;
+      if (!apiKey) return { ok: false, error: "GOOGLE_AI_KEY is not set (or use --provider mock / replay)" };
+      return { ok: true, provider: createGeminiProvider(apiKey, { analysis: model ?? GEMINI_MODELS.analysis }) };
+    }
+    case "mock":
+      return { ok: true, provider: createMockProvider() };
+    case "replay": {
+      if (!existsSync(recordingsPath)) return { ok: false, error: `No recordings at ${recordingsPath} - record a run with --record first` };
+      const recordings = JSON.parse(readFileSync(recordingsPath, "utf8")) as ResponseRecording[];
+      return { ok: true, provider: createReplayProvider(recordings) };
+    }
+    default:
+      return { ok: false, error: `Unknown provider "${name}" (gemini, mock or replay)` };
+  }
+}
+
+function compareRuns(baselineLabel: string, candidateLabel: string): number {
+  const load = (label: string) => {
+    const path = join(RESULTS_DIR, `${label}.json`);
+    return existsSync(path) ? (JSON.parse(readFileSync(path, "utf8")) as EvalRun) : null;
+  };
+  const baseline = load(baselineLabel);
+  const candidate = load(candidateLabel);
+  if (!baseline || !candidate) {
+    return fail(`Run "${baseline ? candidateLabel : baselineLabel}" not found in ${RESULTS_DIR}`);
+  }
+
+  const reportPath = join(RESULTS_DIR, `${basename(baselineLabel)}-vs-${basename(candidateLabel)}.md`);
+  writeFileSync(reportPath, formatComparisonReport(baseline, candidate));
+  console.log(`${formatRunSummary(baseline)}\n${formatRunSummary(candidate)}\nSaved ${reportPath}`);
+  return 0;
+}
+
+// ============================================
+// HELPERS
+// ============================================
+
+function writeJson(path: string, value: unknown): void {
+  mkdirSync(dirname(path), { recursive: true });
+  writeFileSync(path, JSON.stringify(value, null, 2));
+}
+
+function fail(message: string): number {
+  console.error(`❌ ${message}`);
+  return 1;
+}
+
+main().then(code => {
+  process.exitCode = code;
+});
@@ -0,0 +1,47 @@
+/**
+ * POST /api/analyze-timeframes
+ *
+ * Runs analyzeMultiTimeframe() on the server. Body:
+ * `{ images: string[]; userQuestion?: string; profile?: AnalysisProfile }`
+ * with 2-4 screenshots of one symbol on different timeframes.
+ * Responds with the lowest timeframe's ChartAnalysis, with
+ * `multiTimeframe` holding every timeframe's regime and the merged zones.
+ * Model calls are aborted if the client disconnects.
+ */
+
+import { NextResponse } from "next/server";
+import { analyzeMultiTimeframe } from "@/lib/multi-timeframe";
+import { MULTI_TIMEFRAME_LIMITS } from "@/lib/analysis-result";
+import { parseAnalysisProfile } from "@/lib/analysis-profile";
+import { checkImage, checkText, errorResponse, readJsonBody, REQUEST_LIMITS } from "@/lib/request-limits";
+
+export const runtime = "nodejs";
+
+interface AnalyzeTimeframesRequestBody {
+  images?: unknown;
+  userQuestion?: unknown;
+  profile?: unknown;
+}
+
+export async function POST(request: Request) {
+  const result = await readJsonBody<AnalyzeTimeframesRequestBody>(request, REQUEST_LIMITS.timeframesBodyBytes);
+  if (!result.ok) return result.response;
+  const { images, userQuestion, profile } = result.body;
+
+  const { min, max } = MULTI_TIMEFRAME_LIMITS;
+  if (!Array.isArray(images) || images.length < min || images.length > max) {
+    return errorResponse(400, `images must be an array of ${min} to ${max} charts`);
+  }
+  const invalid =
+    images.map((image, i) => checkImage(image, `images[${i}]`)).find(Boolean) ||
+    checkText(userQuestion, "userQuestion");
+  if (invalid) return errorResponse(400, invalid);
+  const parsedProfile = parseAnalysisProfile(profile);
+  if (!parsedProfile.ok) return errorResponse(400, parsedProfile.error);
+
+  const analysis = await analyzeMultiTimeframe(images as string[], (userQuestion as string | undefined) || undefined, {
+    profile: parsedProfile.profile,
+    signal: request.signal,
+  });
+  return NextResponse.json(analysis);
+}
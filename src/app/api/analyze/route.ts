@@ -0,0 +1,89 @@
+/**
+ * POST /api/analyze
+ *
+ * Runs analyzeChart() on the server so the Gemini key never reaches the
+ * browser. Body: `{ imageBase64: string; userQuestion?: string; samples?: number; profile?: AnalysisProfile }`.
+ * With `samples > 1` the chart is analyzed that many times in parallel and
+ * merged by analyzeChartConsensus(). A partial `profile` is filled in from
+ * DEFAULT_ANALYSIS_PROFILE.
+ * Responds with a ChartAnalysis (check `success` for model-level failures).
+ *
+ * With `stream: true` the response is NDJSON instead: one
+ * AnalysisStreamEvent per line - `partial` events as sections validate,
+ * then a final `result`. Consensus runs only send the result.
+ *
+ * Model calls are aborted when the client disconnects (or cancels the
+ * stream), so an abandoned analysis stops spending tokens.
+ */
+
+import { NextResponse } from "next/server";
+import { analyzeChart } from "@/lib/chart-analysis";
+import type { AnalysisProgress, AnalysisStreamEvent, ChartAnalysis } from "@/lib/analysis-result";
+import { analyzeChartConsensus } from "@/lib/consensus";
+import { parseAnalysisProfile } from "@/lib/analysis-profile";
+import { checkImage, checkText, errorResponse, readJsonBody, REQUEST_LIMITS } from "@/lib/request-limits";
+
+export const runtime = "nodejs";
+
+interface AnalyzeRequestBody {
+  imageBase64?: unknown;
+  userQuestion?: unknown;
+  samples?: unknown;
+  profile?: unknown;
+  stream?: unknown;
+}
+
+export async function POST(request: Request) {
+  const result = await readJsonBody<AnalyzeRequestBody>(request, REQUEST_LIMITS.analyzeBodyBytes);
+  if (!result.ok) return result.response;
+  const { imageBase64, userQuestion, samples = 1, profile, stream } = result.body;
+
+  const invalid = checkImage(imageBase64) || checkText(userQuestion, "userQuestion");
+  if (invalid) return errorResponse(400, invalid);
+  if (!Number.isInteger(samples) || (samples as number) < 1 || (samples as number) > REQUEST_LIMITS.consensusSamples) {
+    return errorResponse(400, `samples must be an integer from 1 to ${REQUEST_LIMITS.consensusSamples}`);
+  }
+  const parsedProfile = parseAnalysisProfile(profile);
+  if (!parsedProfile.ok) return errorResponse(400, parsedProfile.error);
+
+  const question = (userQuestion as string | undefined) || undefined;
+  const run = (signal: AbortSignal, onPartial?: (progress: AnalysisProgress) => void): Promise<ChartAnalysis> =>
+    (samples as number) > 1
+      ? analyzeChartConsensus(imageBase64 as string, question, { samples: samples as number, profile: parsedProfile.profile, signal })
+      : analyzeChart(imageBase64 as string, question, { profile: parsedProfile.profile, onPartial, signal });
+
+  if (stream === true) return streamEvents(request.signal, run);
+  return NextResponse.json(await run(request.signal));
+}
+
+/**
+ * Run the analysis, writing each progress event and the result as NDJSON.
+ */
+function streamEvents(
+  requestSignal: AbortSignal,
+  run: (signal: AbortSignal, onPartial: (progress: AnalysisProgress) => void) => Promise<ChartAnalysis>
+): Response {
+  const encoder = new TextEncoder();
+  const cancelled = new AbortController();
+  const signal = AbortSignal.any([requestSignal, cancelled.signal]);
+  const body = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      // Once the reader has gone, drop events instead of writing to a closed stream
+      const send = (event: AnalysisStreamEvent) => {
+        if (!signal.aborted) controller.enqueue(encoder.encode(JSON.stringify(event) + "\n"));
+      };
+      try {
+        const analysis = await run(signal, (progress) => send({ type: "partial", ...progress }));
+        send({ type: "result", analysis });
+      } finally {
+        if (!cancelled.signal.aborted) controller.close();
+      }
+    },
+    cancel() {
+      cancelled.abort();
+    },
+  });
+  return new Response(body, {
+    headers: { "Content-Type": "application/x-ndjson; charset=utf-8", "Cache-Control": "no-cache" },
+  });
+}
@@ -0,0 +1,165 @@
+/**
+ * POST /api/annotate
+ *
+ * Runs annotateChart() on the server. Body:
+ * `{ imageBase64: string; analysis: ChartAnalysis }`. The analysis is
+ * checked field by field first; a malformed one gets a 400 naming the
+ * first bad field.
+ * Responds with `{ success: true, image: string | null, trace }` - a null
+ * image means the model returned nothing and the client should use the
+ * canvas fallback; `trace` is the run's AnalysisTrace. The model call is
+ * aborted if the client disconnects.
+ */
+
+import { NextResponse } from "next/server";
+import { annotateChart } from "@/lib/chart-analysis";
+import type { ChartAnalysis } from "@/lib/analysis-result";
+import type { AnalysisTrace } from "@/lib/analysis-trace";
+import {
+  CHANNEL_DIRECTIONS,
+  FAKEOUT_DIRECTIONS,
+  PATTERN_STATES,
+  PATTERN_TYPES,
+  PIVOT_LABELS,
+  ZONE_STRENGTHS,
+  ZONE_TYPES,
+} from "@/lib/analysis-schema";
+import { checkImage, errorResponse, readJsonBody, REQUEST_LIMITS } from "@/lib/request-limits";
+
+export const runtime = "nodejs";
+
+interface AnnotateRequestBody {
+  imageBase64?: unknown;
+  analysis?: unknown;
+}
+
+export async function POST(request: Request) {
+  const result = await readJsonBody<AnnotateRequestBody>(request, REQUEST_LIMITS.annotateBodyBytes);
+  if (!result.ok) return result.response;
+  const { imageBase64, analysis } = result.body;
+
+  const invalid = checkImage(imageBase64);
+  if (invalid) return errorResponse(400, invalid);
+  const problem = checkAnalysis(analysis);
+  if (problem) return errorResponse(400, problem);
+
+  let trace: AnalysisTrace | undefined;
+  const image = await annotateChart(imageBase64 as string, analysis as ChartAnalysis, {
+    signal: request.signal,
+    onTrace: (recorded) => { trace = recorded; },
+  });
+  return NextResponse.json({ success: true, image, trace });
+}
+
+// ============================================
+// ANALYSIS CHECK
+// ============================================
+
+/**
+ * Structural check of everything annotateChart() reads: zones, range box,
+ * pivots, fakeouts, trendlines, channels, patterns and current price.
+ * The client sends back an analysis it got from us, but nothing stops a
+ * hand-written body, and a malformed item would otherwise throw mid-prompt.
+ *
+ * @returns The first problem found, or null if the analysis is drawable
+ */
+function checkAnalysis(value: unknown): string | null {
+  if (!isObject(value)) return "analysis must be a ChartAnalysis object";
+  if (!isNumber(value.currentPrice)) return "analysis.currentPrice must be a number";
+
+  return checkList(value.keyZones, "analysis.keyZones", true, (zone, path) =>
+    checkFields(zone, path, { price: isNumber, type: isOneOf(ZONE_TYPES), strength: isOneOf(ZONE_STRENGTHS), label: isString }) ??
+    checkOptional(zone, path, { priceLow: isNumber, priceHigh: isNumber }) ??
+    checkList(zone.touches, `${path}.touches`, false, (touch, touchPath) => checkFields(touch, touchPath, { x: isNumber }))
+  ) ??
+    checkItem(value.rangeBox, "analysis.rangeBox", (box, path) =>
+      checkFields(box, path, { low: isNumber, high: isNumber, confidence: isNumber })) ??
+    checkItem(value.pivots, "analysis.pivots", (pivots, path) =>
+      checkFields(pivots, path, { confidence: isNumber }) ??
+      checkList(pivots.points, `${path}.points`, true, (point, pointPath) =>
+        checkFields(point, pointPath, { price: isNumber, label: isOneOf(PIVOT_LABELS) }) ??
+        checkOptional(point, pointPath, { x: isNumber }))) ??
+    checkList(value.fakeouts, "analysis.fakeouts", false, (fakeout, path) =>
+      checkFields(fakeout, path, { level: isNumber, direction: isOneOf(FAKEOUT_DIRECTIONS), confidence: isNumber }) ??
+      checkOptional(fakeout, path, { x: isNumber })) ??
+    checkList(value.trendlines, "analysis.trendlines", false, checkTrendline) ??
+    checkList(value.channels, "analysis.channels", false, (channel, path) =>
+      checkFields(channel, path, { direction: isOneOf(CHANNEL_DIRECTIONS), status: isString, confidence: isNumber }) ??
+      checkItem(channel.upper, `${path}.upper`, checkTrendline, true) ??
+      checkItem(channel.lower, `${path}.lower`, checkTrendline, true)) ??
+    checkList(value.patterns, "analysis.patterns", false, (pattern, path) =>
+      checkFields(pattern, path, {
+        type: isOneOf(PATTERN_TYPES),
+        state: isOneOf(PATTERN_STATES),
+        confidence: isNumber,
+        breakoutLevel: isNumber,
+      }) ??
+      checkList(pattern.points, `${path}.points`, true, (point, pointPath) =>
+        checkFields(point, pointPath, { x: isNumber, price: isNumber }) ??
+        checkOptional(point, pointPath, { label: isString })));
+}
+
+type Check = (item: Record<string, unknown>, path: string) => string | null;
+
+function checkTrendline(line: Record<string, unknown>, path: string): string | null {
+  return checkFields(line, path, { type: isOneOf(ZONE_TYPES), label: isString, status: isString, confidence: isNumber }) ??
+    (Array.isArray(line.anchors) && line.anchors.length >= 2 ? null : `${path}.anchors must have at least two points`) ??
+    checkList(line.anchors, `${path}.anchors`, true, (anchor, anchorPath) =>
+      checkFields(anchor, anchorPath, { x: isNumber, price: isNumber }));
+}
+
+/** Check an array and each of its items (absent is fine unless `required`) */
+function checkList(value: unknown, path: string, required: boolean, check: Check): string | null {
+  if (value === undefined && !required) return null;
+  if (!Array.isArray(value)) return `${path} must be an array`;
+  for (const [i, item] of value.entries()) {
+    const problem = checkItem(item, `${path}[${i}]`, check, true);
+    if (problem) return problem;
+  }
+  return null;
+}
+
+/** Check a nested object (absent is fine unless `required`) */
+function checkItem(value: unknown, path: string, check: Check, required = false): string | null {
+  if (value === undefined && !required) return null;
+  if (!isObject(value)) return `${path} must be an object`;
+  return check(value, path);
+}
+
+function checkFields(
+  item: Record<string, unknown>,
+  path: string,
+  fields: Record<string, (value: unknown) => boolean>
+): string | null {
+  for (const [field, valid] of Object.entries(fields)) {
+    if (!valid(item[field])) return `${path}.${field} is missing or invalid`;
+  }
+  return null;
+}
+
+function checkOptional(
+  item: Record<string, unknown>,
+  path: string,
+  fields: Record<string, (value: unknown) => boolean>
+): string | null {
+  for (const [field, valid] of Object.entries(fields)) {
+    if (item[field] !== undefined && !valid(item[field])) return `${path}.${field} is invalid`;
+  }
+  return null;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isNumber(value: unknown): boolean {
+  return typeof value === "number" && Number.isFinite(value);
+}
+
+function isString(value: unknown): boolean {
+  return typeof value === "string";
+}
+
+function isOneOf(allowed: readonly string[]): (value: unknown) => boolean {
+  return value => typeof value === "string" && allowed.includes(value);
+}
@@ -0,0 +1,68 @@
+/**
+ * POST /api/chat
+ *
+ * Runs chatWithHistory() on the server. Body:
+ * `{ messages: ChatMessage[]; systemContext?: string }`.
+ * Responds with a GeminiResponse. The model call is aborted if the client
+ * disconnects.
+ */
+
+import { NextResponse } from "next/server";
+import { chatWithHistory, ChatMessage } from "@/lib/gemini";
+import { checkImage, checkText, errorResponse, readJsonBody, REQUEST_LIMITS } from "@/lib/request-limits";
+
+export const runtime = "nodejs";
+
+interface ChatRequestBody {
+  messages?: unknown;
+  systemContext?: unknown;
+}
+
+export async function POST(request: Request) {
+  const result = await readJsonBody<ChatRequestBody>(request, REQUEST_LIMITS.chatBodyBytes);
+  if (!result.ok) return result.response;
+  const { messages, systemContext } = result.body;
+
+  const invalid = checkMessages(messages) || checkText(systemContext, "systemContext", REQUEST_LIMITS.systemContextChars);
+  if (invalid) return errorResponse(400, invalid);
+
+  const response = await chatWithHistory(messages as ChatMessage[], (systemContext as string | undefined) || undefined, {
+    signal: request.signal,
+  });
+  return NextResponse.json(response);
+}
+
+/**
+ * Validate the chat history: bounded length, known roles, bounded
+ * text, and a cap on how many images ride along.
+ *
+ * @returns An error message, or null if the history is acceptable
+ */
+function checkMessages(messages: unknown): string | null {
+  if (!Array.isArray(messages) || messages.length === 0) {
+    return "messages must be a non-empty array";
+  }
+  if (messages.length > REQUEST_LIMITS.chatMessages) {
+    return `Too many messages (max ${REQUEST_LIMITS.chatMessages})`;
+  }
+
+  let imageCount = 0;
+  for (const [i, message] of messages.entries()) {
+    if (!message || typeof message !== "object") return `messages[${i}] must be an object`;
+    const { role, content, image } = message as Record<string, unknown>;
+    if (role !== "user" && role !== "model") return `messages[${i}].role must be "user" or "model"`;
+    if (typeof content !== "string") return `messages[${i}].content must be a string`;
+    const textError = checkText(content, `messages[${i}].content`);
+    if (textError) return textError;
+    if (image !== undefined && image !== null) {
+      const imageError = checkImage(image, `messages[${i}].image`);
+      if (imageError) return imageError;
+      imageCount++;
+    }
+  }
+
+  if (imageCount > REQUEST_LIMITS.chatImages) {
+    return `Too many images in chat history (max ${REQUEST_LIMITS.chatImages})`;
+  }
+  return null;
+}
@@ -23,12 +23,15 @@
  * 3. **Range Boxes** - Blue rectangles for ranging markets
  * 4. **Pivot Markers** - Circle markers for HH/HL/LH/LL
  * 5. **Fakeout Markers** - Triangle warnings for failed breakouts
- * 6. **Current Price Line** - Dashed yellow line
+ * 6. **Trendlines** - Sloped support/resistance lines (dashed while only a two-point candidate)
+ * 7. **Channels** - Two sloped purple lines with a light fill between them
+ * 8. **Chart Patterns** - Outline through the key points plus a dashed breakout line
+ * 9. **Current Price Line** - Dashed yellow line
  * 
  * ## Usage
  * 
  * ```tsx
- * import { generateAnnotationPlan } from "@/lib/chart-analysis";
+ * import { generateAnnotationPlan } from "@/lib/analysis-result";
  * import ChartOverlayRenderer from "@/components/ChartOverlayRenderer";
  * 
  * // Generate plan from analysis
@@ -45,6 +48,17 @@
  * />
  * ```
  * 
+ * ## Price Placement
+ * 
+ * When the analysis carries a Y-axis calibration (`analysis.yAxis`, fitted
+ * from the price labels the model read), every price is placed at its true
+ * pixel row. Without one, the renderer falls back to stretching the
+ * analysis' own price range across an estimated plot area.
+ * 
+ * Pivots, fakeouts and zone touches carry a horizontal position (read by
+ * the model alongside the time axis) and are drawn on their candle. Marks
+ * without one fall back to fixed offsets from the plot edges.
+ * 
  * ## Customization
  * 
  * To customize colors, modify the COLORS object below.
@@ -56,7 +70,9 @@
 "use client";
 
 import React, { useRef, useEffect, useCallback, useState } from "react";
-import { AnnotationPlan, AnnotationMark, ChartAnalysis } from "@/lib/chart-analysis";
+import { AnnotationPlan, AnnotationMark, ChartAnalysis, LineSegment } from "@/lib/analysis-result";
+import { priceToY } from "@/lib/chart-calibration";
+import { imageDataUrl } from "@/lib/image-intake";
 
 // ============================================
 // PROPS INTERFACE
@@ -67,7 +83,7 @@ interface ChartOverlayRendererProps {
   imageBase64: string;
   /** Annotation plan from generateAnnotationPlan() */
   plan: AnnotationPlan;
-  /** Full analysis (used for price range calculation) */
+  /** Full analysis (Y-axis calibration, or price range for the fallback) */
   analysis: ChartAnalysis;
   /** Optional callback when rendering completes */
   onRenderComplete?: (dataUrl: string) => void;
@@ -112,6 +128,15 @@ const COLORS = {
     // Fakeout warnings
     fakeout: "rgba(251, 191, 36, 0.8)",      // Triangle markers (amber-400)
     
+    // Channels
+    channel: "rgba(168, 85, 247, 0.8)",      // Boundary lines (purple-500)
+    channelFill: "rgba(168, 85, 247, 0.1)",  // Fill between the boundaries
+    
+    // Chart pattern outlines, by the direction the pattern resolves
+    patternBullish: "rgba(45, 212, 191, 0.9)", // teal-400
+    patternBearish: "rgba(251, 146, 60, 0.9)", // orange-400
+    patternNeutral: "rgba(250, 204, 21, 0.9)", // yellow-400
+    
     // Text labels
     label: "rgba(255, 255, 255, 0.95)",      // Text color
     labelBg: "rgba(0, 0, 0, 0.7)",           // Label background
@@ -127,6 +152,11 @@ const COLORS = {
     pivotHigh: "rgba(22, 163, 74, 0.9)",
     pivotLow: "rgba(220, 38, 38, 0.9)",
     fakeout: "rgba(245, 158, 11, 0.8)",
+    channel: "rgba(147, 51, 234, 0.8)",
+    channelFill: "rgba(147, 51, 234, 0.08)",
+    patternBullish: "rgba(13, 148, 136, 0.9)",
+    patternBearish: "rgba(234, 88, 12, 0.9)",
+    patternNeutral: "rgba(202, 138, 4, 0.9)",
     label: "rgba(0, 0, 0, 0.9)",
     labelBg: "rgba(255, 255, 255, 0.85)",
   },
@@ -162,9 +192,9 @@ export function ChartOverlayRenderer({
   // ============================================
   
   /**
-   * Calculate the price range to map Y coordinates.
+   * Calculate the price range to map Y coordinates (uncalibrated fallback).
    * 
-   * We need to know the min/max prices to convert
+   * Without a Y-axis calibration we need the min/max prices to convert
    * dollar values to pixel positions on the canvas.
    * 
    * This collects all prices from:
@@ -172,6 +202,8 @@ export function ChartOverlayRenderer({
    * - Key zones
    * - Range box bounds
    * - Pivot points
+   * - Trendline and channel anchors
+   * - Chart pattern points and breakout levels
    * 
    * Then adds 15% padding on each side.
    */
@@ -199,6 +231,19 @@ export function ChartOverlayRenderer({
       });
     }
     
+    // Include trendline and channel anchors
+    const lines = [
+      ...(analysis.trendlines ?? []),
+      ...(analysis.channels ?? []).flatMap(c => [c.upper, c.lower]),
+    ];
+    lines.forEach(line => line.anchors.forEach(a => prices.push(a.price)));
+    
+    // Include chart pattern points and breakout levels
+    analysis.patterns?.forEach(pattern => {
+      prices.push(pattern.breakoutLevel);
+      pattern.points.forEach(p => prices.push(p.price));
+    });
+    
     // Default range if no prices found
     if (prices.length === 0) return { min: 0, max: 100 };
     
@@ -228,7 +273,7 @@ export function ChartOverlayRenderer({
 
     // Load the original chart image
     const img = new Image();
-    img.src = `data:image/png;base64,${imageBase64}`;
+    img.src = imageDataUrl(imageBase64);
     
     await new Promise<void>((resolve, reject) => {
       img.onload = () => resolve();
@@ -250,6 +295,10 @@ export function ChartOverlayRenderer({
     /**
      * Estimate the actual chart plotting area within the image.
      * 
+     * Horizontal bounds are always estimated. Vertical bounds only matter
+     * for the uncalibrated fallback - with `analysis.yAxis` prices map
+     * straight to pixel rows.
+     * 
      * Most chart screenshots have:
      * - Left margin (~8%) for Y-axis labels
      * - Right margin (~8%) for price axis
@@ -294,7 +343,7 @@ export function ChartOverlayRenderer({
       const dataUrl = canvas.toDataURL("image/png");
       onRenderComplete(dataUrl);
     }
-  }, [imageBase64, plan, getPriceRange, onRenderComplete]);
+  }, [imageBase64, plan, analysis, getPriceRange, onRenderComplete]);
 
   // ============================================
   // MARK DRAWING FUNCTION
@@ -312,6 +361,9 @@ export function ChartOverlayRenderer({
    * - **range_box**: Rectangle with dashed border
    * - **pivot**: Circle marker with label
    * - **fakeout**: Warning triangle with label
+   * - **trendline**: Sloped line with anchor dots and label
+   * - **channel**: Two sloped lines with a fill between them
+   * - **pattern**: Outline through key points + dashed breakout line
    * 
    * @param ctx - Canvas 2D rendering context
    * @param mark - The annotation mark to draw
@@ -326,17 +378,34 @@ export function ChartOverlayRenderer({
   ) => {
     const priceRange = getPriceRange();
     const chartHeight = chartArea.bottom - chartArea.top;
+    const calibration = analysis.yAxis;
     
     /**
      * Convert a price to a Y coordinate on the canvas.
      * 
-     * Canvas Y increases downward, but prices increase upward,
+     * Calibrated: the fitted axis gives a 0-1 row, scaled to the canvas.
+     * Fallback: canvas Y increases downward but prices increase upward,
      * so we subtract from bottom.
      */
     const toY = (price: number) => {
+      if (calibration) return priceToY(calibration, price) * ctx.canvas.height;
       const normalized = (price - priceRange.min) / (priceRange.max - priceRange.min);
       return chartArea.bottom - (normalized * chartHeight);
     };
+    
+    /**
+     * Pixel ends of a sloped line, trimmed to the chart area horizontally
+     * (the plan extends lines to the right edge of the image).
+     */
+    const toPixels = ([from, to]: LineSegment) => {
+      const width = ctx.canvas.width;
+      const slope = (to.price - from.price) / (to.x - from.x || 1);
+      const clampX = (x: number) => Math.min(Math.max(x, chartArea.left / width), chartArea.right / width);
+      return [from.x, to.x].map(clampX).map(x => ({
+        x: x * width,
+        y: toY(from.price + slope * (x - from.x)),
+      }));
+    };
 
     switch (mark.type) {
       // ========== ZONE (Support/Resistance Band) ==========
@@ -361,6 +430,14 @@ export function ChartOverlayRenderer({
         ctx.moveTo(chartArea.left, centerY);
         ctx.lineTo(chartArea.right, centerY);
         ctx.stroke();
+        
+        // Dot each candle that touched the zone
+        ctx.fillStyle = lineColor;
+        for (const touchX of mark.touches || []) {
+          ctx.beginPath();
+          ctx.arc(touchX * ctx.canvas.width, centerY, 3, 0, Math.PI * 2);
+          ctx.fill();
+        }
         break;
       }
       
@@ -445,8 +522,8 @@ export function ChartOverlayRenderer({
         const isHigherPivot = mark.role === "pivot_hh" || mark.role === "pivot_hl";
         const pivotColor = isHigherPivot ? colors.pivotHigh : colors.pivotLow;
         
-        // Position marker near right side
-        const markerX = chartArea.right - 60;
+        // Position marker on the pivot candle, or near right side if unknown
+        const markerX = mark.x !== undefined ? mark.x * ctx.canvas.width : chartArea.right - 60;
         
         // Draw filled circle marker
         ctx.fillStyle = pivotColor;
@@ -470,8 +547,8 @@ export function ChartOverlayRenderer({
         const y = toY(mark.price || 0);
         const isAbove = mark.role === "fakeout_above";
         
-        // Position near left side of chart
-        const markerX = chartArea.left + 40;
+        // Position on the fakeout candle, or near left side if unknown
+        const markerX = mark.x !== undefined ? mark.x * ctx.canvas.width : chartArea.left + 40;
         
         // Draw warning triangle
         ctx.fillStyle = colors.fakeout;
@@ -492,6 +569,128 @@ export function ChartOverlayRenderer({
         ctx.fillText(text, markerX + 13, y + 3);
         break;
       }
+      
+      // ========== TRENDLINE (Sloped Support/Resistance) ==========
+      case "trendline": {
+        if (!mark.line) break;
+        const [start, end] = toPixels(mark.line);
+        const lineColor = mark.role === "support" ? colors.support : colors.resistance;
+        
+        // Candidates (two anchors only) are dashed
+        ctx.strokeStyle = lineColor;
+        ctx.lineWidth = 1.5;
+        ctx.setLineDash(mark.style === "dashed" ? [6, 4] : []);
+        ctx.beginPath();
+        ctx.moveTo(start.x, start.y);
+        ctx.lineTo(end.x, end.y);
+        ctx.stroke();
+        ctx.setLineDash([]);
+        
+        // Dot each anchor on the line
+        const [from, to] = mark.line;
+        const slope = (to.price - from.price) / (to.x - from.x || 1);
+        ctx.fillStyle = lineColor;
+        for (const anchorX of mark.touches || []) {
+          ctx.beginPath();
+          ctx.arc(anchorX * ctx.canvas.width, toY(from.price + slope * (anchorX - from.x)), 3, 0, Math.PI * 2);
+          ctx.fill();
+        }
+        
+        // Label above the right end
+        ctx.font = "bold 10px -apple-system, BlinkMacSystemFont, sans-serif";
+        const text = mark.text || "";
+        const textWidth = ctx.measureText(text).width;
+        ctx.fillStyle = colors.labelBg;
+        ctx.fillRect(end.x - textWidth - 24, end.y - 20, textWidth + 8, 14);
+        ctx.fillStyle = lineColor;
+        ctx.fillText(text, end.x - textWidth - 20, end.y - 9);
+        break;
+      }
+      
+      // ========== CHANNEL (Two Sloped Boundaries) ==========
+      case "channel": {
+        if (!mark.line || !mark.lowerLine) break;
+        const [upperStart, upperEnd] = toPixels(mark.line);
+        const [lowerStart, lowerEnd] = toPixels(mark.lowerLine);
+        
+        // Light fill between the boundaries
+        ctx.fillStyle = colors.channelFill;
+        ctx.beginPath();
+        ctx.moveTo(upperStart.x, upperStart.y);
+        ctx.lineTo(upperEnd.x, upperEnd.y);
+        ctx.lineTo(lowerEnd.x, lowerEnd.y);
+        ctx.lineTo(lowerStart.x, lowerStart.y);
+        ctx.closePath();
+        ctx.fill();
+        
+        // Boundary lines
+        ctx.strokeStyle = colors.channel;
+        ctx.lineWidth = 1.5;
+        ctx.setLineDash(mark.style === "dashed" ? [6, 4] : []);
+        for (const [start, end] of [[upperStart, upperEnd], [lowerStart, lowerEnd]]) {
+          ctx.beginPath();
+          ctx.moveTo(start.x, start.y);
+          ctx.lineTo(end.x, end.y);
+          ctx.stroke();
+        }
+        ctx.setLineDash([]);
+        
+        // Label above the upper boundary's start
+        ctx.font = "bold 10px -apple-system, BlinkMacSystemFont, sans-serif";
+        ctx.fillStyle = colors.channel;
+        ctx.fillText((mark.text || "CHANNEL").toUpperCase(), upperStart.x + 8, upperStart.y - 8);
+        break;
+      }
+      
+      // ========== PATTERN (Classical Chart Pattern Outline) ==========
+      case "pattern": {
+        if (!mark.points || mark.points.length < 2) break;
+        const patternColor = mark.role === "pattern_bullish" ? colors.patternBullish :
+                            mark.role === "pattern_bearish" ? colors.patternBearish :
+                            colors.patternNeutral;
+        const points = mark.points.map(p => ({ x: p.x * ctx.canvas.width, y: toY(p.price) }));
+        ctx.globalAlpha = mark.opacity ?? 0.9;
+        
+        // Outline through the key points (dashed while still forming)
+        ctx.strokeStyle = patternColor;
+        ctx.lineWidth = 2;
+        ctx.setLineDash(mark.style === "dashed" ? [6, 4] : []);
+        ctx.beginPath();
+        points.forEach((p, i) => (i === 0 ? ctx.moveTo(p.x, p.y) : ctx.lineTo(p.x, p.y)));
+        ctx.stroke();
+        
+        // Breakout level from the first point to the right edge of the chart
+        if (mark.price) {
+          const breakoutY = toY(mark.price);
+          ctx.lineWidth = 1;
+          ctx.setLineDash([3, 3]);
+          ctx.beginPath();
+          ctx.moveTo(points[0].x, breakoutY);
+          ctx.lineTo(chartArea.right, breakoutY);
+          ctx.stroke();
+        }
+        ctx.setLineDash([]);
+        
+        // Key point markers
+        ctx.fillStyle = patternColor;
+        for (const p of points) {
+          ctx.beginPath();
+          ctx.arc(p.x, p.y, 3, 0, Math.PI * 2);
+          ctx.fill();
+        }
+        
+        // Label above the highest point
+        const top = points.reduce((a, b) => (b.y < a.y ? b : a));
+        ctx.font = "bold 10px -apple-system, BlinkMacSystemFont, sans-serif";
+        const text = (mark.text || "").toUpperCase();
+        const textWidth = ctx.measureText(text).width;
+        ctx.fillStyle = colors.labelBg;
+        ctx.fillRect(top.x - textWidth / 2 - 4, top.y - 24, textWidth + 8, 14);
+        ctx.fillStyle = patternColor;
+        ctx.fillText(text, top.x - textWidth / 2, top.y - 13);
+        ctx.globalAlpha = 1;
+        break;
+      }
     }
   };
 
@@ -1,6 +1,6 @@
 "use client";
 
-import { useState, useCallback, useRef, useEffect } from "react";
+import { useState, useCallback, useRef, useEffect, useMemo } from "react";
 import { 
   ArrowUp, 
   X, 
@@ -11,14 +11,28 @@ import {
   BarChart3,
   Sparkles,
   ChevronRight,
+  Plus,
   Settings,
   HelpCircle,
+  Layers,
+  FileSpreadsheet,
 } from "lucide-react";
 import { ChartAnalystCard } from "./modals/ChartAnalystCard";
-import { analyzeChart, annotateChart, ChartAnalysis } from "@/lib/chart-analysis";
-import { fileToBase64 } from "@/lib/gemini";
+import { AnalysisSettingsModal } from "./modals/AnalysisSettingsModal";
+import { analysisFromPartial, ANALYSIS_SECTIONS, MULTI_TIMEFRAME_LIMITS } from "@/lib/analysis-result";
+import type { AnalysisProgress, AnalysisSection, ChartAnalysis } from "@/lib/analysis-result";
+import type { AnalysisTrace } from "@/lib/analysis-trace";
+import { requestAnalysis, requestAnnotation, requestTimeframeAnalysis, fileToBase64 } from "@/lib/api-client";
+import { Candle, readOhlcvFile } from "@/lib/ohlcv";
+import { applyOhlcvVerification } from "@/lib/zone-verification";
+import { applyStructuralCheck } from "@/lib/level-engine";
+import { bandZones, estimateVolatility } from "@/lib/zone-bands";
+import { imageDataUrl, prepareChartImage } from "@/lib/image-intake";
+import { findPreviousAnalysis } from "@/lib/analysis-diff";
+import { AnalysisProfile, DEFAULT_ANALYSIS_PROFILE, parseAnalysisProfile } from "@/lib/analysis-profile";
+import { DEFAULT_SIZING_SETTINGS, parseSizingSettings, SizingSettings } from "@/lib/position-sizing";
 import { ToastContainer, ToastMessage } from "@/components/Toast";
-import { useOnboarding, useAnalysisHistory, SavedAnalysis } from "@/lib/use-persisted-state";
+import { useOnboarding, useAnalysisHistory, usePersistedState, SavedAnalysis } from "@/lib/use-persisted-state";
 
 // ============================================
 // TYPES
@@ -27,7 +41,16 @@ import { useOnboarding, useAnalysisHistory, SavedAnalysis } from "@/lib/use-pers
 type ViewState = 
   | { type: "home" }
   | { type: "analyzing"; prompt: string }
-  | { type: "result"; analysis: ChartAnalysis; originalChart: string; annotatedChart: string | null; annotationStatus: "loading" | "ready" | "failed"; prompt: string };
+  | { type: "result"; analysis: ChartAnalysis; originalChart: string; annotatedChart: string | null; annotationStatus: "loading" | "ready" | "failed"; prompt: string; pendingSections?: AnalysisSection[] };
+
+/** Samples per analysis when consensus mode is on */
+const CONSENSUS_SAMPLES = 3;
+
+/** Candle data attached to the next analysis */
+interface AttachedOhlcv {
+  fileName: string;
+  candles: Candle[];
+}
 
 // ============================================
 // SUB-COMPONENTS
@@ -53,7 +76,7 @@ function RecentAnalysisCard({
         <div className="w-10 h-10 rounded-lg bg-[#2d2e2f] flex items-center justify-center flex-shrink-0 overflow-hidden">
           {saved.chartThumbnail ? (
             <img 
-              src={`data:image/png;base64,${saved.chartThumbnail}`} 
+              src={imageDataUrl(saved.chartThumbnail)} 
               alt="" 
               className="w-full h-full object-cover"
             />
@@ -114,13 +137,33 @@ function getTimeSince(dateString: string): string {
 export function RouterPage() {
   const [viewState, setViewState] = useState<ViewState>({ type: "home" });
   const [input, setInput] = useState("");
-  const [pastedImage, setPastedImage] = useState<string | null>(null);
+  // Screenshots for the next analysis; more than one = multi-timeframe
+  const [pastedImages, setPastedImages] = useState<string[]>([]);
+  const [attachedData, setAttachedData] = useState<AttachedOhlcv | null>(null);
   const [toasts, setToasts] = useState<ToastMessage[]>([]);
   const [showOnboarding, dismissOnboarding] = useOnboarding();
-  const { history, saveAnalysis, removeAnalysis } = useAnalysisHistory();
+  const { history, saveAnalysis, removeAnalysis, getForSymbol } = useAnalysisHistory();
+  const [consensusMode, setConsensusMode] = usePersistedState("chart_analyst_consensus", false);
+  const [storedProfile, setStoredProfile] = usePersistedState<AnalysisProfile>("chart_analyst_profile", DEFAULT_ANALYSIS_PROFILE);
+  const [storedSizing, setStoredSizing] = usePersistedState<SizingSettings>("chart_analyst_sizing", DEFAULT_SIZING_SETTINGS);
+  const [showSettings, setShowSettings] = useState(false);
+  
+  // Stored profiles may predate a setting or hold out-of-range values
+  const analysisProfile = useMemo(() => {
+    const parsed = parseAnalysisProfile(storedProfile);
+    return parsed.ok ? parsed.profile : DEFAULT_ANALYSIS_PROFILE;
+  }, [storedProfile]);
+  const sizingSettings = useMemo(() => {
+    const parsed = parseSizingSettings(storedSizing);
+    return parsed.ok ? parsed.settings : DEFAULT_SIZING_SETTINGS;
+  }, [storedSizing]);
   
   const textareaRef = useRef<HTMLTextAreaElement>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const dataInputRef = useRef<HTMLInputElement>(null);
+  // Controller for the analysis in flight; anything that finishes after it
+  // has been replaced (new chart, cancel, back) is dropped
+  const activeRunRef = useRef<AbortController | null>(null);
 
   // Auto-resize textarea
   useEffect(() => {
@@ -130,16 +173,30 @@ export function RouterPage() {
     }
   }, [input]);
 
-  // ESC to go back
+  // Abort whatever is still running when the page unmounts
+  useEffect(() => () => activeRunRef.current?.abort(), []);
+
+  const cancelActiveRun = useCallback(() => {
+    activeRunRef.current?.abort();
+    activeRunRef.current = null;
+  }, []);
+
+  // Leaving a result (or the loading screen) cancels its pending requests
+  const goHome = useCallback(() => {
+    cancelActiveRun();
+    setViewState({ type: "home" });
+  }, [cancelActiveRun]);
+
+  // ESC to go back (or cancel a running analysis)
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
-      if (e.key === "Escape" && viewState.type === "result") {
-        setViewState({ type: "home" });
+      if (e.key === "Escape" && (viewState.type === "result" || viewState.type === "analyzing")) {
+        goHome();
       }
     };
     window.addEventListener("keydown", handleKeyDown);
     return () => window.removeEventListener("keydown", handleKeyDown);
-  }, [viewState.type]);
+  }, [viewState.type, goHome]);
 
   const addToast = useCallback((type: "success" | "error", title: string, message?: string) => {
     const id = `toast-${Date.now()}`;
@@ -150,6 +207,13 @@ export function RouterPage() {
     setToasts((prev) => prev.filter((t) => t.id !== id));
   }, []);
 
+  // Each pasted/uploaded screenshot is added as another timeframe (up to the limit)
+  const addImage = useCallback((file: File) => {
+    fileToBase64(file).then((base64) => {
+      setPastedImages((prev) => (prev.length < MULTI_TIMEFRAME_LIMITS.max ? [...prev, base64] : prev));
+    });
+  }, []);
+
   // Handle image paste
   const handlePaste = useCallback((e: React.ClipboardEvent) => {
     const items = e.clipboardData?.items;
@@ -159,42 +223,116 @@ export function RouterPage() {
       if (item.type.startsWith("image/")) {
         e.preventDefault();
         const file = item.getAsFile();
-        if (file) {
-          fileToBase64(file).then((base64) => {
-            setPastedImage(base64);
-          });
-        }
+        if (file) addImage(file);
         break;
       }
     }
-  }, []);
+  }, [addImage]);
 
   // Handle file upload
   const handleFileUpload = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files ?? []);
+    e.target.value = "";
+    files.filter((file) => file.type.startsWith("image/")).forEach(addImage);
+  }, [addImage]);
+
+  // Handle OHLCV upload (CSV/JSON) - parsed locally, never uploaded
+  const handleDataUpload = useCallback(async (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
-    if (file && file.type.startsWith("image/")) {
-      fileToBase64(file).then((base64) => {
-        setPastedImage(base64);
-      });
+    e.target.value = "";
+    if (!file) return;
+
+    const result = await readOhlcvFile(file);
+    if (!result.ok) {
+      addToast("error", "Couldn't read candle data", result.error);
+      return;
     }
-  }, []);
+    setAttachedData({ fileName: file.name, candles: result.candles });
+    if (result.skippedRows > 0) {
+      addToast("success", `${result.candles.length} candles loaded`, `${result.skippedRows} unreadable rows skipped`);
+    }
+  }, [addToast]);
 
   // Analyze chart
-  const analyzeChartImage = useCallback(async (imageBase64: string, prompt: string) => {
+  const analyzeChartImage = useCallback(async (rawImages: string[], prompt: string, data: AttachedOhlcv | null) => {
+    cancelActiveRun();
+    const controller = new AbortController();
+    activeRunRef.current = controller;
+    const isCurrent = () => activeRunRef.current === controller;
+
     setViewState({ type: "analyzing", prompt });
     setInput("");
-    setPastedImage(null);
+    setPastedImages([]);
+    setAttachedData(null);
 
     try {
-      // Step 1: Get structured analysis
-      const analysis = await analyzeChart(imageBase64, prompt || undefined);
+      // Step 0: Detect the real format, trim borders/chrome and downscale (local)
+      const intakes = await Promise.all(rawImages.map((image) => prepareChartImage(image)));
+      if (!isCurrent()) return;
+      const failed = intakes.find((intake) => !intake.ok);
+      if (failed && !failed.ok) {
+        addToast("error", "Couldn't read image", failed.error);
+        setViewState({ type: "home" });
+        return;
+      }
+      const prepared = intakes.flatMap((intake) => (intake.ok ? [intake] : []));
+
+      // Render each section as it streams in; the card stays in streaming
+      // mode (no chat/save) until the final result replaces it
+      const received = new Set<AnalysisSection>();
+      const showPartial = (progress: AnalysisProgress) => {
+        if (!isCurrent()) return;
+        received.add(progress.section);
+        setViewState((prev) => {
+          const waiting = prev.type === "analyzing" || (prev.type === "result" && prev.pendingSections !== undefined);
+          if (!waiting) return prev;
+          return {
+            type: "result",
+            analysis: analysisFromPartial(progress.analysis),
+            originalChart: prepared[0].image.base64,
+            annotatedChart: null,
+            annotationStatus: "loading",
+            prompt,
+            pendingSections: ANALYSIS_SECTIONS.filter((section) => !received.has(section)),
+          };
+        });
+      };
+
+      // Step 1: Get structured analysis (several screenshots = one per timeframe, not streamed)
+      const imageAnalysis = prepared.length > 1
+        ? await requestTimeframeAnalysis(prepared.map((intake) => intake.image.base64), prompt || undefined, {
+            profile: analysisProfile,
+            signal: controller.signal,
+          })
+        : await requestAnalysis(prepared[0].image.base64, prompt || undefined, {
+            samples: consensusMode ? CONSENSUS_SAMPLES : 1,
+            profile: analysisProfile,
+            onPartial: showPartial,
+            signal: controller.signal,
+          });
+      if (!isCurrent()) return;
       
-      if (!analysis.success) {
-        addToast("error", "Analysis failed", analysis.error);
+      if (!imageAnalysis.success) {
+        addToast("error", "Analysis failed", imageAnalysis.error);
         setViewState({ type: "home" });
         return;
       }
 
+      // The card, overlay and annotation use the primary (lowest) timeframe's chart
+      const primaryIndex = imageAnalysis.multiTimeframe?.timeframes.find((read) => read.primary)?.imageIndex ?? 0;
+      const imageBase64 = prepared[primaryIndex].image.base64;
+
+      // Verify zones and cross-check structure against attached candles (local, no model call)
+      const stamped = { ...imageAnalysis, imageTransform: prepared[primaryIndex].transform };
+      const verified = data
+        ? applyStructuralCheck(applyOhlcvVerification(stamped, data.candles, data.fileName), data.candles)
+        : stamped;
+      // Real candles give a better volatility read than the image: re-band the zones from their ATR
+      const volatility = data ? estimateVolatility(verified.currentPrice, { candles: data.candles }) : null;
+      const analysis = volatility
+        ? { ...verified, keyZones: bandZones(verified.keyZones, volatility), volatility }
+        : verified;
+
       // Show result immediately, annotation loading in background
       setViewState({ 
         type: "result", 
@@ -207,12 +345,21 @@ export function RouterPage() {
 
       // Step 2: Generate annotated chart in background
       try {
-        const annotated = await annotateChart(imageBase64, analysis);
+        let annotationTrace: AnalysisTrace | undefined;
+        const annotated = await requestAnnotation(imageBase64, analysis, controller.signal, (trace) => {
+          annotationTrace = trace;
+        });
+        if (!isCurrent()) return;
         
         setViewState((prev) => {
           if (prev.type === "result") {
+            // The annotation run's trace goes with the analysis it drew
+            const trace = prev.analysis.trace && annotationTrace
+              ? { ...prev.analysis.trace, annotation: annotationTrace }
+              : prev.analysis.trace;
             return {
               ...prev,
+              analysis: { ...prev.analysis, trace },
               annotatedChart: annotated,
               annotationStatus: annotated ? "ready" : "failed",
             };
@@ -221,6 +368,7 @@ export function RouterPage() {
         });
       } catch (annotationError) {
         console.error("Annotation failed:", annotationError);
+        if (!isCurrent()) return;
         setViewState((prev) => {
           if (prev.type === "result") {
             return { ...prev, annotationStatus: "failed" };
@@ -229,19 +377,22 @@ export function RouterPage() {
         });
       }
     } catch {
+      if (!isCurrent()) return;
       addToast("error", "Failed to analyze", "Please try again");
       setViewState({ type: "home" });
+    } finally {
+      if (isCurrent()) activeRunRef.current = null;
     }
-  }, [addToast]);
+  }, [addToast, cancelActiveRun, consensusMode, analysisProfile]);
 
   const handleSubmit = () => {
-    if (pastedImage) {
-      analyzeChartImage(pastedImage, input.trim() || "Analyze this chart");
+    if (pastedImages.length > 0) {
+      analyzeChartImage(pastedImages, input.trim() || "Analyze this chart", attachedData);
     }
   };
 
   const handleKeyDown = (e: React.KeyboardEvent) => {
-    if (e.key === "Enter" && !e.shiftKey && pastedImage) {
+    if (e.key === "Enter" && !e.shiftKey && pastedImages.length > 0) {
       e.preventDefault();
       handleSubmit();
     }
@@ -254,7 +405,22 @@ export function RouterPage() {
     }
   }, [viewState, saveAnalysis, addToast]);
 
+  const handleSaveProfile = (profile: AnalysisProfile) => {
+    setStoredProfile(profile);
+    setShowSettings(false);
+    addToast("success", "Settings saved", "Applies to your next analysis");
+  };
+
+  // Baseline for the card's "Since last time": the last saved analysis of the same symbol
+  const finishedAnalysis = viewState.type === "result" && !viewState.pendingSections ? viewState.analysis : null;
+  const previousAnalysis = useMemo(() => {
+    if (!finishedAnalysis?.success || !finishedAnalysis.symbol) return undefined;
+    const saved = getForSymbol(finishedAnalysis.symbol).map(s => s.analysis);
+    return findPreviousAnalysis(saved, finishedAnalysis) ?? undefined;
+  }, [finishedAnalysis, getForSymbol]);
+
   const handleViewSaved = (saved: SavedAnalysis) => {
+    cancelActiveRun();
     setViewState({
       type: "result",
       analysis: saved.analysis,
@@ -277,7 +443,10 @@ export function RouterPage() {
           <button className="p-2 hover:bg-[#242526] rounded-lg transition-colors">
             <HelpCircle className="w-4 h-4 text-[#6b6c6d]" />
           </button>
-          <button className="p-2 hover:bg-[#242526] rounded-lg transition-colors">
+          <button
+            onClick={() => setShowSettings(true)}
+            className="p-2 hover:bg-[#242526] rounded-lg transition-colors"
+          >
             <Settings className="w-4 h-4 text-[#6b6c6d]" />
           </button>
         </div>
@@ -319,35 +488,55 @@ export function RouterPage() {
                 className={`
                   relative bg-[#1e1f20] border-2 border-dashed rounded-2xl p-8 
                   transition-all cursor-pointer hover:border-[#3d3e3f] focus:outline-none focus:border-cyan-500/50
-                  ${pastedImage ? "border-cyan-500/50" : "border-[#2d2e2f]"}
+                  ${pastedImages.length > 0 ? "border-cyan-500/50" : "border-[#2d2e2f]"}
                 `}
               >
                 <input
                   ref={fileInputRef}
                   type="file"
                   accept="image/*"
+                  multiple
                   onChange={handleFileUpload}
                   className="hidden"
                 />
                 
-                {pastedImage ? (
+                {pastedImages.length > 0 ? (
                   <div className="space-y-4">
-                    <div className="relative inline-block w-full">
-                      <img 
-                        src={`data:image/png;base64,${pastedImage}`} 
-                        alt="Chart preview" 
-                        className="max-h-64 mx-auto rounded-xl border border-[#2d2e2f]"
-                      />
+                    <div className={pastedImages.length > 1 ? "grid grid-cols-2 gap-2" : ""}>
+                      {pastedImages.map((image, i) => (
+                        <div key={i} className="relative inline-block w-full">
+                          <img 
+                            src={imageDataUrl(image)} 
+                            alt={`Chart preview ${i + 1}`} 
+                            className={`${pastedImages.length > 1 ? "max-h-32" : "max-h-64"} mx-auto rounded-xl border border-[#2d2e2f]`}
+                          />
+                          <button
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              setPastedImages((prev) => prev.filter((_, j) => j !== i));
+                            }}
+                            className="absolute top-2 right-2 p-1.5 bg-[#2d2e2f] hover:bg-[#3d3e3f] rounded-full"
+                          >
+                            <X className="w-4 h-4 text-[#9a9b9c]" />
+                          </button>
+                        </div>
+                      ))}
+                    </div>
+                    
+                    {/* More timeframes of the same symbol */}
+                    {pastedImages.length < MULTI_TIMEFRAME_LIMITS.max && (
                       <button
                         onClick={(e) => {
                           e.stopPropagation();
-                          setPastedImage(null);
+                          fileInputRef.current?.click();
                         }}
-                        className="absolute top-2 right-2 p-1.5 bg-[#2d2e2f] hover:bg-[#3d3e3f] rounded-full"
+                        className="inline-flex items-center gap-2 text-sm text-[#9a9b9c] hover:text-[#e8e8e8] transition-colors"
                       >
-                        <X className="w-4 h-4 text-[#9a9b9c]" />
+                        <Plus className="w-4 h-4 text-[#6b6c6d]" />
+                        Add another timeframe
+                        <span className="text-xs text-[#6b6c6d]">(paste or upload, e.g. 1D + 4H + 1H)</span>
                       </button>
-                    </div>
+                    )}
                     
                     {/* Prompt input */}
                     <div className="relative">
@@ -364,6 +553,59 @@ export function RouterPage() {
                       />
                     </div>
                     
+                    {/* Consensus toggle (single chart only) */}
+                    {pastedImages.length === 1 && (
+                      <label
+                        onClick={(e) => e.stopPropagation()}
+                        className="flex items-center gap-2 text-sm text-[#9a9b9c] cursor-pointer select-none"
+                      >
+                        <input
+                          type="checkbox"
+                          checked={consensusMode}
+                          onChange={(e) => setConsensusMode(e.target.checked)}
+                          className="accent-cyan-500"
+                        />
+                        <Layers className="w-4 h-4 text-[#6b6c6d]" />
+                        Consensus mode
+                        <span className="text-xs text-[#6b6c6d]">
+                          ({CONSENSUS_SAMPLES} runs, keep levels they agree on)
+                        </span>
+                      </label>
+                    )}
+                    
+                    {/* OHLCV attachment for verified levels */}
+                    <div onClick={(e) => e.stopPropagation()} className="flex items-center gap-2 text-sm">
+                      <input
+                        ref={dataInputRef}
+                        type="file"
+                        accept=".csv,.json,text/csv,application/json"
+                        onChange={handleDataUpload}
+                        className="hidden"
+                      />
+                      {attachedData ? (
+                        <div className="inline-flex items-center gap-2 px-3 py-1.5 bg-cyan-500/10 border border-cyan-500/30 rounded-lg">
+                          <FileSpreadsheet className="w-4 h-4 text-cyan-400" />
+                          <span className="text-[#e8e8e8] truncate max-w-[12rem]">{attachedData.fileName}</span>
+                          <span className="text-xs text-[#6b6c6d]">{attachedData.candles.length} candles</span>
+                          <button
+                            onClick={() => setAttachedData(null)}
+                            className="p-0.5 hover:bg-[#3d3e3f] rounded"
+                          >
+                            <X className="w-3.5 h-3.5 text-[#9a9b9c]" />
+                          </button>
+                        </div>
+                      ) : (
+                        <button
+                          onClick={() => dataInputRef.current?.click()}
+                          className="inline-flex items-center gap-2 text-[#9a9b9c] hover:text-[#e8e8e8] transition-colors"
+                        >
+                          <FileSpreadsheet className="w-4 h-4 text-[#6b6c6d]" />
+                          Attach OHLCV data
+                          <span className="text-xs text-[#6b6c6d]">(CSV/JSON, verifies levels)</span>
+                        </button>
+                      )}
+                    </div>
+                    
                     <button
                       onClick={(e) => {
                         e.stopPropagation();
@@ -372,7 +614,7 @@ export function RouterPage() {
                       className="w-full py-3 bg-cyan-500 hover:bg-cyan-400 text-white font-medium rounded-xl transition-colors flex items-center justify-center gap-2"
                     >
                       <Sparkles className="w-4 h-4" />
-                      Analyze Chart
+                      {pastedImages.length > 1 ? `Analyze ${pastedImages.length} Timeframes` : "Analyze Chart"}
                     </button>
                   </div>
                 ) : (
@@ -456,6 +698,14 @@ export function RouterPage() {
                     </div>
                   ))}
                 </div>
+
+                <button
+                  onClick={goHome}
+                  className="mt-8 inline-flex items-center gap-2 px-4 py-2 text-sm text-[#9a9b9c] hover:text-[#e8e8e8] hover:bg-[#242526] rounded-lg transition-colors"
+                >
+                  <X className="w-4 h-4" />
+                  Cancel
+                </button>
               </div>
             </div>
           </div>
@@ -469,18 +719,23 @@ export function RouterPage() {
               annotatedChart={viewState.annotatedChart}
               annotationStatus={viewState.annotationStatus}
               userPrompt={viewState.prompt}
-              onClose={() => setViewState({ type: "home" })}
-              onSave={handleSaveAnalysis}
+              profile={analysisProfile}
+              pendingSections={viewState.pendingSections}
+              previousAnalysis={previousAnalysis}
+              sizing={sizingSettings}
+              onSizingChange={setStoredSizing}
+              onClose={goHome}
+              onSave={viewState.pendingSections ? undefined : handleSaveAnalysis}
             />
             
-            {/* New analysis button */}
+            {/* New analysis button (Cancel while sections are still streaming) */}
             <div className="mt-6 text-center">
               <button
-                onClick={() => setViewState({ type: "home" })}
+                onClick={goHome}
                 className="inline-flex items-center gap-2 px-6 py-3 bg-[#1e1f20] hover:bg-[#242526] border border-[#2d2e2f] rounded-xl text-[#e8e8e8] transition-colors"
               >
-                <ArrowUp className="w-4 h-4" />
-                Analyze another chart
+                {viewState.pendingSections ? <X className="w-4 h-4" /> : <ArrowUp className="w-4 h-4" />}
+                {viewState.pendingSections ? "Cancel analysis" : "Analyze another chart"}
               </button>
             </div>
           </div>
@@ -492,6 +747,14 @@ export function RouterPage() {
         Chart Analyst • Educational purposes only
       </footer>
 
+      {showSettings && (
+        <AnalysisSettingsModal
+          profile={analysisProfile}
+          onSave={handleSaveProfile}
+          onClose={() => setShowSettings(false)}
+        />
+      )}
+
       <ToastContainer toasts={toasts} onRemove={removeToast} />
     </div>
   );
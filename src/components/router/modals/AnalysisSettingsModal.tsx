@@ -0,0 +1,200 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { X, RotateCcw, SlidersHorizontal } from "lucide-react";
+import {
+  AnalysisProfile,
+  ANALYSIS_PROFILE_LIMITS,
+  DEFAULT_ANALYSIS_PROFILE,
+  PatternThresholds,
+} from "@/lib/analysis-profile";
+
+// ============================================
+// TYPES
+// ============================================
+
+interface AnalysisSettingsModalProps {
+  profile: AnalysisProfile;
+  onSave: (profile: AnalysisProfile) => void;
+  onClose: () => void;
+}
+
+const THRESHOLD_LABELS: { key: keyof PatternThresholds; label: string }[] = [
+  { key: "rangeBox", label: "Range box" },
+  { key: "pivots", label: "Pivots" },
+  { key: "fakeouts", label: "Fakeouts" },
+  { key: "trendlines", label: "Trendlines & channels" },
+  { key: "patterns", label: "Chart patterns" },
+  { key: "divergences", label: "RSI / MACD divergences" },
+];
+
+// ============================================
+// SUB-COMPONENTS
+// ============================================
+
+function SettingRow({
+  label,
+  hint,
+  value,
+  children,
+}: {
+  label: string;
+  hint?: string;
+  value: string;
+  children: React.ReactNode;
+}) {
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-1.5">
+        <div>
+          <div className="text-sm text-[#e8e8e8]">{label}</div>
+          {hint && <div className="text-xs text-[#6b6c6d]">{hint}</div>}
+        </div>
+        <span className="text-sm font-mono text-cyan-400">{value}</span>
+      </div>
+      {children}
+    </div>
+  );
+}
+
+// ============================================
+// MAIN COMPONENT
+// ============================================
+
+export function AnalysisSettingsModal({ profile, onSave, onClose }: AnalysisSettingsModalProps) {
+  const [draft, setDraft] = useState<AnalysisProfile>(profile);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === "Escape") onClose();
+    };
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [onClose]);
+
+  const setThreshold = (key: keyof PatternThresholds, value: number) => {
+    setDraft((prev) => ({ ...prev, thresholds: { ...prev.thresholds, [key]: value } }));
+  };
+
+  const { maxZones, scenarioCount, zoneBandPct, minRiskReward } = ANALYSIS_PROFILE_LIMITS;
+
+  return (
+    <div
+      className="fixed inset-0 z-[100] bg-black/70 flex items-center justify-center p-4 animate-fade-in"
+      onClick={onClose}
+    >
+      <div
+        className="w-full max-w-md bg-[#1e1f20] border border-[#2d2e2f] rounded-2xl overflow-hidden"
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div className="flex items-center justify-between px-5 py-4 border-b border-[#2d2e2f]">
+          <div className="flex items-center gap-2">
+            <SlidersHorizontal className="w-4 h-4 text-cyan-400" />
+            <span className="text-[#e8e8e8] font-medium">Analysis settings</span>
+          </div>
+          <button onClick={onClose} className="p-1.5 hover:bg-[#2d2e2f] rounded-lg transition-colors">
+            <X className="w-4 h-4 text-[#9a9b9c]" />
+          </button>
+        </div>
+
+        <div className="p-5 space-y-5">
+          {/* Pattern thresholds */}
+          <div className="space-y-4">
+            <div className="text-xs text-[#6b6c6d] uppercase tracking-wider">Minimum confidence to show</div>
+            {THRESHOLD_LABELS.map(({ key, label }) => (
+              <SettingRow key={key} label={label} value={`${Math.round(draft.thresholds[key] * 100)}%`}>
+                <input
+                  type="range"
+                  min={0}
+                  max={100}
+                  step={5}
+                  value={Math.round(draft.thresholds[key] * 100)}
+                  onChange={(e) => setThreshold(key, Number(e.target.value) / 100)}
+                  className="w-full accent-cyan-500"
+                />
+              </SettingRow>
+            ))}
+          </div>
+
+          {/* Output shape */}
+          <div className="space-y-4 pt-4 border-t border-[#2d2e2f]">
+            <SettingRow label="Max key zones" value={String(draft.maxZones)}>
+              <input
+                type="range"
+                min={maxZones.min}
+                max={maxZones.max}
+                step={1}
+                value={draft.maxZones}
+                onChange={(e) => setDraft((prev) => ({ ...prev, maxZones: Number(e.target.value) }))}
+                className="w-full accent-cyan-500"
+              />
+            </SettingRow>
+            <SettingRow label="Scenarios" value={String(draft.scenarioCount)}>
+              <input
+                type="range"
+                min={scenarioCount.min}
+                max={scenarioCount.max}
+                step={1}
+                value={draft.scenarioCount}
+                onChange={(e) => setDraft((prev) => ({ ...prev, scenarioCount: Number(e.target.value) }))}
+                className="w-full accent-cyan-500"
+              />
+            </SettingRow>
+            <SettingRow
+              label="Zone band width"
+              hint="Each side of a level, when volatility can't be estimated"
+              value={`±${(draft.zoneBandPct * 100).toFixed(1)}%`}
+            >
+              <input
+                type="range"
+                min={zoneBandPct.min * 1000}
+                max={zoneBandPct.max * 1000}
+                step={1}
+                value={Math.round(draft.zoneBandPct * 1000)}
+                onChange={(e) => setDraft((prev) => ({ ...prev, zoneBandPct: Number(e.target.value) / 1000 }))}
+                className="w-full accent-cyan-500"
+              />
+            </SettingRow>
+          </div>
+
+          {/* Risk framing */}
+          <div className="space-y-4 pt-4 border-t border-[#2d2e2f]">
+            <SettingRow
+              label="Minimum R:R"
+              hint="Decision-card frames below this are flagged"
+              value={`${draft.minRiskReward.toFixed(1)}R`}
+            >
+              <input
+                type="range"
+                min={minRiskReward.min * 10}
+                max={minRiskReward.max * 10}
+                step={1}
+                value={Math.round(draft.minRiskReward * 10)}
+                onChange={(e) => setDraft((prev) => ({ ...prev, minRiskReward: Number(e.target.value) / 10 }))}
+                className="w-full accent-cyan-500"
+              />
+            </SettingRow>
+          </div>
+        </div>
+
+        {/* Footer */}
+        <div className="flex items-center justify-between px-5 py-4 border-t border-[#2d2e2f]">
+          <button
+            onClick={() => setDraft(DEFAULT_ANALYSIS_PROFILE)}
+            className="inline-flex items-center gap-1.5 text-sm text-[#9a9b9c] hover:text-[#e8e8e8] transition-colors"
+          >
+            <RotateCcw className="w-3.5 h-3.5" />
+            Reset to defaults
+          </button>
+          <button
+            onClick={() => onSave(draft)}
+            className="px-4 py-2 bg-cyan-500 hover:bg-cyan-400 text-white text-sm font-medium rounded-lg transition-colors"
+          >
+            Save
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -21,9 +21,30 @@ import {
   Download,
   ZoomIn,
   Maximize2,
+  Bug,
 } from "lucide-react";
-import { ChartAnalysis, generateAnnotationPlan, Regime } from "@/lib/chart-analysis";
-import { chatWithHistory, ChatMessage } from "@/lib/gemini";
+import {
+  AnalysisSection,
+  Channel,
+  ChartAnalysis,
+  ChartPattern,
+  generateAnnotationPlan,
+  IndicatorReadings,
+  MultiTimeframeInfo,
+  MultiTimeframeZone,
+  PATTERN_BIAS,
+  Regime,
+  Trendline,
+  ValidationIssue,
+} from "@/lib/analysis-result";
+import { AnalysisProfile, DEFAULT_ANALYSIS_PROFILE } from "@/lib/analysis-profile";
+import type { ChatMessage } from "@/lib/gemini";
+import { fileToBase64, requestChat } from "@/lib/api-client";
+import { describeTransform, detectImageMime, ImageTransform, imageDataUrl, prepareChartImage } from "@/lib/image-intake";
+import { AnalysisDiff, diffAnalyses, hasChanges } from "@/lib/analysis-diff";
+import { buildDecisionCard, DecisionCard as DecisionCardData, TradeLevel } from "@/lib/decision-card";
+import { formatLevel, parseSizingSettings, sizePosition, SizingSettings } from "@/lib/position-sizing";
+import { AnalysisTrace, countGateDecisions, GateDecision, traceToJson } from "@/lib/analysis-trace";
 import ReactMarkdown from "react-markdown";
 import ChartOverlayRenderer from "@/components/ChartOverlayRenderer";
 
@@ -33,6 +54,15 @@ interface ChartAnalystCardProps {
   annotatedChart: string | null;
   annotationStatus: "loading" | "ready" | "failed";
   userPrompt: string;
+  /** Band width, zone cap and thresholds for the canvas overlay */
+  profile?: AnalysisProfile;
+  /** Set while the analysis is still streaming in: sections not received yet */
+  pendingSections?: AnalysisSection[];
+  /** Last saved analysis of the same symbol, for the "Since last time" section */
+  previousAnalysis?: ChartAnalysis;
+  /** Account size, risk % and leverage for the sizing panel (panel hidden without it) */
+  sizing?: SizingSettings;
+  onSizingChange?: (settings: SizingSettings) => void;
   onClose: () => void;
   onSave?: (analysis: ChartAnalysis) => void;
 }
@@ -97,7 +127,7 @@ function ChartImageModal({
       </div>
       
       <img 
-        src={`data:image/png;base64,${imageBase64}`}
+        src={imageDataUrl(imageBase64)}
         alt="Chart"
         className="max-w-full max-h-full object-contain rounded-lg"
         onClick={(e) => e.stopPropagation()}
@@ -135,6 +165,10 @@ const EXPLANATIONS: Record<string, { title: string; content: string }> = {
     title: "Trading Range",
     content: "Price is oscillating between defined support and resistance. No clear trend - waiting for a breakout in either direction.",
   },
+  riskReward: {
+    title: "Risk / Reward",
+    content: "How far the first target is from the entry, divided by how far the stop is. 2R means you stand to make twice what you'd lose if the stop is hit.",
+  },
 };
 
 // ============================================
@@ -161,6 +195,65 @@ function RegimeBadge({ regime }: { regime: Regime }) {
   );
 }
 
+const ALIGNMENT_DISPLAY: Record<MultiTimeframeInfo["alignment"], { label: string; color: string; bgColor: string }> = {
+  aligned: { label: "Aligned", color: "text-emerald-400", bgColor: "bg-emerald-500/10" },
+  mixed: { label: "Mixed", color: "text-amber-400", bgColor: "bg-amber-500/10" },
+  conflicting: { label: "Conflicting", color: "text-rose-400", bgColor: "bg-rose-500/10" },
+};
+
+/**
+ * One chip per timeframe (highest first) with its regime, plus the
+ * alignment verdict and any warnings about the set of charts.
+ */
+function TimeframeStrip({ info }: { info: MultiTimeframeInfo }) {
+  const alignment = ALIGNMENT_DISPLAY[info.alignment];
+  
+  return (
+    <div className="space-y-2">
+      <div className="text-xs text-[#6b6c6d] uppercase tracking-wide flex items-center gap-2">
+        Timeframes
+        <span className={`normal-case tracking-normal px-2 py-0.5 rounded ${alignment.bgColor} ${alignment.color}`}>
+          {alignment.label}
+        </span>
+      </div>
+      <div className="flex flex-wrap gap-2">
+        {info.timeframes.map((read) => {
+          const display = REGIME_DISPLAY[read.regime.type];
+          return (
+            <div
+              key={read.imageIndex}
+              title={read.error}
+              className={`px-3 py-1.5 rounded-lg border ${read.primary ? "border-cyan-500/40" : "border-transparent"} ${
+                read.success ? display.bgColor : "bg-[#242526]"
+              }`}
+            >
+              <div className="text-xs font-mono text-[#9a9b9c]">
+                {read.timeframe}
+                {read.primary && <span className="text-cyan-400"> • this chart</span>}
+              </div>
+              {read.success ? (
+                <div className="flex items-center gap-1.5">
+                  <span className={`text-sm font-medium ${display.color}`}>{display.label}</span>
+                  <span className="text-xs text-[#6b6c6d]">{Math.round(read.regime.confidence * 100)}%</span>
+                </div>
+              ) : (
+                <div className="text-sm text-[#6b6c6d]">Failed</div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+      <div className="text-sm text-[#9a9b9c]">{info.summary}</div>
+      {info.warnings?.map((warning) => (
+        <div key={warning} className="text-xs text-amber-400 flex items-center gap-1">
+          <AlertTriangle className="w-3 h-3 flex-shrink-0" />
+          {warning}
+        </div>
+      ))}
+    </div>
+  );
+}
+
 function InfoTooltip({ termKey }: { termKey: string }) {
   const [isOpen, setIsOpen] = useState(false);
   const explanation = EXPLANATIONS[termKey];
@@ -191,20 +284,44 @@ function InfoTooltip({ termKey }: { termKey: string }) {
   );
 }
 
+/**
+ * "5h ago" / "3d ago" for an event on the chart, measured from the chart's
+ * latest candle (or the analysis time when the last candle wasn't read).
+ */
+function formatChartAge(time: string | undefined, referenceTime: number): string | null {
+  if (!time) return null;
+  const diffHours = Math.max(0, (referenceTime - Date.parse(time)) / 3_600_000);
+  if (!Number.isFinite(diffHours)) return null;
+  if (diffHours < 1) return "< 1h ago";
+  if (diffHours < 48) return `${Math.round(diffHours)}h ago`;
+  return `${Math.round(diffHours / 24)}d ago`;
+}
+
 // ============================================
 // SUB-COMPONENTS
 // ============================================
 
-function ZoneRow({ zone, index }: { zone: ChartAnalysis["keyZones"][0]; index: number }) {
+function ZoneRow({
+  zone,
+  index,
+  referenceTime,
+}: {
+  zone: ChartAnalysis["keyZones"][0];
+  index: number;
+  referenceTime: number;
+}) {
   const [copied, setCopied] = useState(false);
   
+  const hasBand = zone.priceLow !== undefined && zone.priceHigh !== undefined;
+  
   const handleCopy = () => {
-    navigator.clipboard.writeText(String(zone.price));
+    navigator.clipboard.writeText(hasBand ? `${zone.priceLow}-${zone.priceHigh}` : String(zone.price));
     setCopied(true);
     setTimeout(() => setCopied(false), 1500);
   };
   
   const isSupport = zone.type === "support";
+  const lastTested = formatChartAge(zone.lastTestedAt, referenceTime);
   const strengthDots = zone.strength === "strong" ? 3 : zone.strength === "moderate" ? 2 : 1;
   
   return (
@@ -224,6 +341,12 @@ function ZoneRow({ zone, index }: { zone: ChartAnalysis["keyZones"][0]; index: n
         <div>
           <div className="text-sm text-[#e8e8e8] font-medium">{zone.label}</div>
           <div className="text-xs text-[#6b6c6d] mt-0.5">{zone.significance}</div>
+          {zone.warning && (
+            <div className="text-xs text-amber-400 mt-0.5 flex items-center gap-1">
+              <AlertTriangle className="w-3 h-3 flex-shrink-0" />
+              {zone.warning}
+            </div>
+          )}
           <div className="flex items-center gap-2 mt-1">
             <div className="flex gap-0.5">
               {[1, 2, 3].map((i) => (
@@ -238,6 +361,41 @@ function ZoneRow({ zone, index }: { zone: ChartAnalysis["keyZones"][0]; index: n
               ))}
             </div>
             <span className="text-xs text-[#6b6c6d]">{zone.strength}</span>
+            {zone.confidence !== undefined && (
+              <span className="text-xs text-[#6b6c6d]">
+                • {Math.round(zone.confidence * 100)}% agreement
+              </span>
+            )}
+            {lastTested && (
+              <span className="text-xs text-[#6b6c6d]">
+                • last tested {lastTested}
+              </span>
+            )}
+          </div>
+          <div className="flex items-center gap-2 mt-1">
+            {zone.dataSource === "ohlcv" ? (
+              <>
+                <span className="text-[10px] uppercase tracking-wide px-1.5 py-0.5 rounded bg-cyan-500/15 text-cyan-400">
+                  OHLCV
+                </span>
+                <span className="text-xs text-[#6b6c6d]">
+                  {zone.verification?.touches ?? 0} touches in data
+                  {zone.verification?.bandLow !== undefined && zone.verification.bandHigh !== undefined && (
+                    <> • ${zone.verification.bandLow.toLocaleString()}–${zone.verification.bandHigh.toLocaleString()}</>
+                  )}
+                </span>
+              </>
+            ) : (
+              <span className="text-[10px] uppercase tracking-wide px-1.5 py-0.5 rounded bg-[#2d2e2f] text-[#6b6c6d]">
+                Image only
+              </span>
+            )}
+            {zone.structurallyBacked === false && (
+              <span className="inline-flex items-center gap-1 text-xs text-amber-400">
+                <AlertTriangle className="w-3 h-3" />
+                No swing structure here
+              </span>
+            )}
           </div>
         </div>
       </div>
@@ -245,8 +403,15 @@ function ZoneRow({ zone, index }: { zone: ChartAnalysis["keyZones"][0]; index: n
         onClick={handleCopy}
         className="flex items-center gap-2 px-3 py-1.5 rounded-lg hover:bg-[#2d2e2f] transition-colors group"
       >
-        <span className={`font-mono text-sm ${isSupport ? "text-emerald-400" : "text-rose-400"}`}>
-          ${zone.price.toLocaleString()}
+        <span className="flex flex-col items-end">
+          <span className={`font-mono text-sm ${isSupport ? "text-emerald-400" : "text-rose-400"}`}>
+            ${zone.price.toLocaleString()}
+          </span>
+          {hasBand && (
+            <span className="font-mono text-[10px] text-[#6b6c6d]">
+              {zone.priceLow!.toLocaleString()}–{zone.priceHigh!.toLocaleString()}
+            </span>
+          )}
         </span>
         {copied ? (
           <Check className="w-3.5 h-3.5 text-emerald-400" />
@@ -303,6 +468,736 @@ function ScenarioItem({ scenario, index }: { scenario: ChartAnalysis["scenarios"
 }
 
 // Chat components
+function ValidationIssueList({ issues }: { issues: ValidationIssue[] }) {
+  const [expanded, setExpanded] = useState(false);
+  const rejected = issues.filter(i => i.action === "rejected").length;
+  const flagged = issues.length - rejected;
+  
+  return (
+    <div className="rounded-xl border border-amber-500/20 bg-amber-500/5">
+      <button 
+        onClick={() => setExpanded(!expanded)}
+        className="w-full p-3 flex items-center justify-between text-left"
+      >
+        <div className="flex items-center gap-2 text-sm text-amber-400">
+          <AlertTriangle className="w-4 h-4" />
+          {rejected > 0 && `${rejected} filtered`}
+          {rejected > 0 && flagged > 0 && " • "}
+          {flagged > 0 && `${flagged} flagged`}
+          <span className="text-xs text-[#6b6c6d]">by validation</span>
+        </div>
+        {expanded ? (
+          <ChevronDown className="w-4 h-4 text-[#6b6c6d]" />
+        ) : (
+          <ChevronRight className="w-4 h-4 text-[#6b6c6d]" />
+        )}
+      </button>
+      
+      {expanded && (
+        <div className="px-3 pb-3 border-t border-[#2d2e2f] pt-3 space-y-2">
+          {issues.map((issue, i) => (
+            <div key={i} className="text-xs">
+              <span className={issue.action === "rejected" ? "text-rose-400" : "text-amber-400"}>
+                {issue.action === "rejected" ? "Removed" : "Flagged"}
+              </span>
+              <span className="text-[#e8e8e8]"> {issue.item} </span>
+              <span className="font-mono text-[#9a9b9c]">${issue.price.toLocaleString()}</span>
+              <div className="text-[#6b6c6d] mt-0.5">{issue.reason}</div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Levels from every timeframe, with the timeframes that reported each.
+ */
+function TimeframeZoneList({ zones }: { zones: MultiTimeframeZone[] }) {
+  return (
+    <div className="space-y-2">
+      <div className="text-xs text-[#6b6c6d] uppercase tracking-wide">Zones across timeframes</div>
+      <div className="space-y-1.5">
+        {zones.map((zone, i) => {
+          const isSupport = zone.type === "support";
+          return (
+            <div key={i} className="flex items-center gap-3 px-3 py-2 rounded-lg bg-[#242526]">
+              <span className={`text-sm font-mono ${isSupport ? "text-emerald-400" : "text-rose-400"}`}>
+                ${zone.price.toLocaleString()}
+              </span>
+              <span className="flex-1 min-w-0 text-sm text-[#9a9b9c] truncate">{zone.label}</span>
+              <div className="flex items-center gap-1 flex-shrink-0">
+                {zone.timeframes.map((timeframe) => (
+                  <span
+                    key={timeframe}
+                    className={`text-xs font-mono px-1.5 py-0.5 rounded ${
+                      zone.timeframes.length > 1 ? "bg-cyan-500/10 text-cyan-400" : "bg-[#2d2e2f] text-[#6b6c6d]"
+                    }`}
+                  >
+                    {timeframe}
+                  </span>
+                ))}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
+
+/** "+1.2%" / "-0.4%" */
+function formatChangePct(fraction: number): string {
+  return `${fraction >= 0 ? "+" : ""}${(fraction * 100).toFixed(1)}%`;
+}
+
+function TradeLevelCell({ label, level, color }: { label: string; level?: TradeLevel | null; color: string }) {
+  return (
+    <div className="px-2 py-1.5 rounded-lg bg-[#1e1f20]">
+      <div className="text-[10px] text-[#6b6c6d] uppercase">{label}</div>
+      {level ? (
+        <>
+          <div className={`text-sm font-mono ${color}`}>${formatLevel(level.price)}</div>
+          <div className="text-[10px] font-mono text-[#6b6c6d]">{formatChangePct(level.distancePct)}</div>
+        </>
+      ) : (
+        <div className="text-sm text-[#4b4c4d]">—</div>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Entry, stop, targets and R:R computed for each scenario.
+ */
+function DecisionCard({ card }: { card: DecisionCardData }) {
+  return (
+    <div className="space-y-2">
+      <div className="text-xs text-[#6b6c6d] uppercase tracking-wide flex items-center gap-2">
+        Decision Card
+        <InfoTooltip termKey="riskReward" />
+      </div>
+      <div className="space-y-2">
+        {card.frames.map((frame, i) => {
+          const isLong = frame.direction === "long";
+          return (
+            <div key={i} className="p-3 rounded-xl bg-[#242526] space-y-2">
+              <div className="flex items-center gap-2">
+                {isLong ? <ArrowUp className="w-4 h-4 text-emerald-400" /> : <ArrowDown className="w-4 h-4 text-rose-400" />}
+                <span className={`text-xs uppercase ${isLong ? "text-emerald-400" : "text-rose-400"}`}>{frame.direction}</span>
+                {frame.entry.zone && <span className="text-xs text-[#9a9b9c] truncate">at {frame.entry.zone.label}</span>}
+                <span className={`ml-auto text-sm font-mono ${frame.belowMinimum ? "text-amber-400" : "text-[#e8e8e8]"}`}>
+                  {frame.riskReward !== null ? `${frame.riskReward.toFixed(1)}R` : "R:R n/a"}
+                </span>
+              </div>
+              <div className="grid grid-cols-4 gap-1.5">
+                <TradeLevelCell label="Entry" level={frame.entry} color="text-[#e8e8e8]" />
+                <TradeLevelCell label="Stop" level={frame.stop} color="text-rose-400" />
+                <TradeLevelCell label="T1" level={frame.targets[0]} color="text-emerald-400" />
+                <TradeLevelCell label="T2" level={frame.targets[1]} color="text-emerald-400" />
+              </div>
+              <div className="text-xs text-[#6b6c6d]">
+                {frame.stop
+                  ? `Stop beyond ${frame.stop.source === "invalidation" ? "the invalidation level" : frame.stop.zone?.label ?? "the nearest opposing zone"}`
+                  : "No level on the losing side to place a stop"}
+                {frame.targets.length === 0 && " • no key zone past the entry to target"}
+              </div>
+              {frame.belowMinimum && (
+                <div className="flex items-center gap-1.5 text-xs text-amber-400">
+                  <AlertTriangle className="w-3.5 h-3.5" />
+                  R:R under your {card.minRiskReward.toFixed(1)}R minimum
+                </div>
+              )}
+            </div>
+          );
+        })}
+        {card.unframed.length > 0 && (
+          <div className="text-xs text-[#6b6c6d]">
+            {card.unframed.length} scenario{card.unframed.length > 1 ? "s" : ""} without a price level to frame
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+const SIZING_FIELDS: { key: keyof SizingSettings; label: string; prefix?: string; suffix?: string }[] = [
+  { key: "accountSize", label: "Account", prefix: "$" },
+  { key: "riskPct", label: "Risk", suffix: "%" },
+  { key: "leverage", label: "Leverage", suffix: "x" },
+];
+
+function formatUsd(value: number): string {
+  return `$${value.toLocaleString(undefined, { maximumFractionDigits: value < 100 ? 2 : 0 })}`;
+}
+
+/**
+ * "How big?" - position size for an entry at the current price with the stop
+ * beyond the invalidation (or nearest opposing zone). Settings are editable
+ * inline and persisted by the page.
+ */
+function PositionSizingPanel({
+  analysis,
+  settings,
+  onSettingsChange,
+}: {
+  analysis: ChartAnalysis;
+  settings: SizingSettings;
+  onSettingsChange?: (settings: SizingSettings) => void;
+}) {
+  const [draft, setDraft] = useState<Record<keyof SizingSettings, string>>(() => ({
+    accountSize: String(settings.accountSize),
+    riskPct: String(settings.riskPct),
+    leverage: String(settings.leverage),
+  }));
+  const [direction, setDirection] = useState<"long" | "short" | null>(null);
+  const result = direction ? sizePosition(analysis, settings, direction) : sizePosition(analysis, settings);
+
+  const handleChange = (key: keyof SizingSettings, text: string) => {
+    setDraft((prev) => ({ ...prev, [key]: text }));
+    // Only valid values reach the persisted settings; the field keeps what was typed
+    const parsed = parseSizingSettings({ ...settings, [key]: Number(text) });
+    if (text.trim() !== "" && parsed.ok) onSettingsChange?.(parsed.settings);
+  };
+
+  const side = result.ok ? result.position.direction : direction ?? "long";
+
+  return (
+    <div className="space-y-2">
+      <div className="text-xs text-[#6b6c6d] uppercase tracking-wide">Position Size</div>
+      <div className="p-3 rounded-xl bg-[#242526] space-y-3">
+        <div className="grid grid-cols-3 gap-1.5">
+          {SIZING_FIELDS.map(({ key, label, prefix, suffix }) => (
+            <label key={key} className="px-2 py-1.5 rounded-lg bg-[#1e1f20] block">
+              <div className="text-[10px] text-[#6b6c6d] uppercase">{label}</div>
+              <div className="flex items-center text-sm font-mono text-[#e8e8e8]">
+                {prefix}
+                <input
+                  type="number"
+                  inputMode="decimal"
+                  value={draft[key]}
+                  onChange={(e) => handleChange(key, e.target.value)}
+                  className="w-full bg-transparent outline-none"
+                />
+                {suffix}
+              </div>
+            </label>
+          ))}
+        </div>
+        <div className="flex gap-1.5">
+          {(["long", "short"] as const).map((d) => (
+            <button
+              key={d}
+              onClick={() => setDirection(d)}
+              className={`px-3 py-1 rounded-lg text-xs uppercase transition-colors ${
+                side === d
+                  ? d === "long" ? "bg-emerald-500/15 text-emerald-400" : "bg-rose-500/15 text-rose-400"
+                  : "text-[#6b6c6d] hover:text-[#9a9b9c]"
+              }`}
+            >
+              {d}
+            </button>
+          ))}
+        </div>
+        {result.ok ? (
+          <>
+            <div className="grid grid-cols-2 gap-1.5 text-xs">
+              <div className="px-2 py-1.5 rounded-lg bg-[#1e1f20]">
+                <div className="text-[10px] text-[#6b6c6d] uppercase">Size</div>
+                <div className="text-sm font-mono text-[#e8e8e8]">
+                  {result.position.size.toLocaleString(undefined, { maximumSignificantDigits: 4 })} units
+                </div>
+              </div>
+              <div className="px-2 py-1.5 rounded-lg bg-[#1e1f20]">
+                <div className="text-[10px] text-[#6b6c6d] uppercase">Notional</div>
+                <div className="text-sm font-mono text-[#e8e8e8]">{formatUsd(result.position.notional)}</div>
+                {result.position.leverage > 1 && (
+                  <div className="text-[10px] font-mono text-[#6b6c6d]">{formatUsd(result.position.margin)} margin</div>
+                )}
+              </div>
+              <div className="px-2 py-1.5 rounded-lg bg-[#1e1f20]">
+                <div className="text-[10px] text-[#6b6c6d] uppercase">Stop</div>
+                <div className="text-sm font-mono text-rose-400">${formatLevel(result.position.stop)}</div>
+                <div className="text-[10px] text-[#6b6c6d]">
+                  {(result.position.stopDistancePct * 100).toFixed(1)}% • {result.position.stopSource === "invalidation" ? "beyond invalidation" : "beyond opposing zone"}
+                </div>
+              </div>
+              <div className="px-2 py-1.5 rounded-lg bg-[#1e1f20]">
+                <div className="text-[10px] text-[#6b6c6d] uppercase">Loss at stop</div>
+                <div className="text-sm font-mono text-rose-400">-{formatUsd(result.position.lossAtStop)}</div>
+                {result.position.liquidationPrice !== undefined && (
+                  <div className="text-[10px] font-mono text-[#6b6c6d]">
+                    liq. ~${formatLevel(result.position.liquidationPrice)} (est.)
+                  </div>
+                )}
+              </div>
+            </div>
+            {result.position.warnings.map((warning, i) => (
+              <div key={i} className="flex items-center gap-1.5 text-xs text-amber-400">
+                <AlertTriangle className="w-3.5 h-3.5 flex-shrink-0" />
+                {warning}
+              </div>
+            ))}
+          </>
+        ) : (
+          <div className="text-xs text-[#6b6c6d]">{result.error}</div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+/**
+ * What moved since the last saved analysis of this symbol: price, regime,
+ * zones, levels crossed and which of last time's scenarios played out.
+ */
+function SinceLastTime({ diff, analyzedAt }: { diff: AnalysisDiff; analyzedAt: string }) {
+  const age = formatChartAge(diff.previousAnalyzedAt, Date.parse(analyzedAt));
+  const triggered = diff.scenarios.filter(s => s.triggered);
+  const { added, removed, shifted } = diff.zones;
+  const previousRegime = REGIME_DISPLAY[diff.regime.previous.type];
+  const currentRegime = REGIME_DISPLAY[diff.regime.current.type];
+  
+  return (
+    <div className="rounded-xl border border-[#2d2e2f] bg-[#1e1f20] p-3 space-y-2.5">
+      <div className="text-xs text-[#6b6c6d] uppercase tracking-wide flex items-center gap-2">
+        Since last time
+        <span className="normal-case tracking-normal">
+          {[age, diff.previousTimeframe].filter(Boolean).join(" • ")}
+        </span>
+      </div>
+      
+      <div className="flex flex-wrap items-center gap-x-4 gap-y-1 text-sm">
+        {diff.price.previous > 0 && (
+          <span className="text-[#9a9b9c]">
+            <span className="font-mono">${diff.price.previous.toLocaleString()}</span>
+            {" → "}
+            <span className="font-mono text-[#e8e8e8]">${diff.price.current.toLocaleString()}</span>
+            <span className={`ml-1.5 text-xs ${diff.price.changePct >= 0 ? "text-emerald-400" : "text-rose-400"}`}>
+              {formatChangePct(diff.price.changePct)}
+            </span>
+          </span>
+        )}
+        {diff.regime.changed ? (
+          <span>
+            <span className={previousRegime.color}>{previousRegime.label}</span>
+            <span className="text-[#6b6c6d]"> → </span>
+            <span className={currentRegime.color}>{currentRegime.label}</span>
+          </span>
+        ) : (
+          <span className="text-[#6b6c6d]">Still {currentRegime.label.toLowerCase()}</span>
+        )}
+      </div>
+      
+      {!hasChanges(diff) && (
+        <div className="text-sm text-[#6b6c6d]">Same zones, no levels crossed.</div>
+      )}
+      
+      {diff.crossings.length > 0 && (
+        <div className="space-y-1">
+          {diff.crossings.map(({ zone, direction }, i) => (
+            <div key={i} className="flex items-center gap-2 text-sm">
+              {direction === "above" ? (
+                <ArrowUp className="w-3.5 h-3.5 text-emerald-400" />
+              ) : (
+                <ArrowDown className="w-3.5 h-3.5 text-rose-400" />
+              )}
+              <span className="text-[#9a9b9c]">Broke {direction}</span>
+              <span className="font-mono text-[#e8e8e8]">${zone.price.toLocaleString()}</span>
+              <span className="text-[#6b6c6d] truncate">{zone.label}</span>
+            </div>
+          ))}
+        </div>
+      )}
+      
+      {(added.length > 0 || removed.length > 0 || shifted.length > 0) && (
+        <div className="flex flex-wrap gap-1.5">
+          {added.map((zone, i) => (
+            <span key={`a${i}`} className="text-xs font-mono px-2 py-1 rounded bg-emerald-500/10 text-emerald-400" title={zone.label}>
+              + ${zone.price.toLocaleString()} {zone.type}
+            </span>
+          ))}
+          {removed.map((zone, i) => (
+            <span key={`r${i}`} className="text-xs font-mono px-2 py-1 rounded bg-[#242526] text-[#6b6c6d] line-through" title={zone.label}>
+              ${zone.price.toLocaleString()} {zone.type}
+            </span>
+          ))}
+          {shifted.map((match, i) => (
+            <span key={`s${i}`} className="text-xs font-mono px-2 py-1 rounded bg-amber-500/10 text-amber-400" title={match.current.label}>
+              ${match.previous.price.toLocaleString()} → ${match.current.price.toLocaleString()}
+              {match.flipped && ` (now ${match.current.type})`}
+            </span>
+          ))}
+        </div>
+      )}
+      
+      {triggered.length > 0 && (
+        <div className="space-y-1">
+          {triggered.map((check, i) => (
+            <div key={i} className="text-sm">
+              <span className="text-cyan-400">Triggered: </span>
+              <span className="text-[#9a9b9c]">{check.scenario.condition}</span>
+              <span className="text-[#6b6c6d]"> → {check.scenario.implication}</span>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+/**
+ * One sloped line: where it runs, how often it held, and whether it's
+ * only a two-point candidate.
+ */
+function TrendlineRow({ line, title }: { line: Trendline; title?: string }) {
+  const isSupport = line.type === "support";
+  const first = line.anchors[0];
+  const last = line.anchors[line.anchors.length - 1];
+  
+  return (
+    <div className="px-3 py-2 rounded-lg bg-[#242526]">
+      <div className="flex items-center gap-2">
+        <span className={`text-sm ${isSupport ? "text-emerald-400" : "text-rose-400"}`}>{title ?? line.label}</span>
+        {line.status === "candidate" && (
+          <span className="text-xs px-1.5 py-0.5 rounded border border-dashed border-[#4b4c4d] text-[#9a9b9c]">candidate</span>
+        )}
+        <span className="ml-auto text-xs text-[#6b6c6d]">
+          {line.touches} touches • {Math.round(line.confidence * 100)}%
+        </span>
+      </div>
+      <div className="text-xs font-mono text-[#9a9b9c] mt-0.5">
+        ${first.price.toLocaleString()} → ${last.price.toLocaleString()}
+      </div>
+      {line.warning && <div className="text-xs text-amber-400 mt-1">{line.warning}</div>}
+    </div>
+  );
+}
+
+/**
+ * Trendlines and channels that passed the confidence gate.
+ */
+function TrendlineList({ trendlines, channels }: { trendlines: Trendline[]; channels: Channel[] }) {
+  return (
+    <div className="space-y-2">
+      <div className="text-xs text-[#6b6c6d] uppercase tracking-wide">Trendlines</div>
+      <div className="space-y-1.5">
+        {trendlines.map((line, i) => (
+          <TrendlineRow key={`t${i}`} line={line} />
+        ))}
+        {channels.map((channel, i) => (
+          <div key={`c${i}`} className="p-2 rounded-lg border border-purple-500/20 bg-purple-500/5 space-y-1.5">
+            <div className="flex items-center gap-2 px-1 text-xs text-purple-400 uppercase">
+              {channel.direction} channel
+              {channel.status === "candidate" && <span className="normal-case text-[#9a9b9c]">(candidate)</span>}
+            </div>
+            <TrendlineRow line={channel.upper} title="Top" />
+            <TrendlineRow line={channel.lower} title="Bottom" />
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+const PATTERN_STATE_DISPLAY: Record<ChartPattern["state"], { label: string; color: string }> = {
+  forming: { label: "Forming", color: "text-amber-400" },
+  confirmed: { label: "Confirmed", color: "text-emerald-400" },
+  failed: { label: "Failed", color: "text-rose-400" },
+};
+
+const PATTERN_BIAS_COLOR: Record<"bullish" | "bearish" | "neutral", string> = {
+  bullish: "text-teal-400",
+  bearish: "text-orange-400",
+  neutral: "text-yellow-400",
+};
+
+/**
+ * Chart patterns that passed the confidence gate, with state and breakout level.
+ */
+function PatternList({ patterns }: { patterns: ChartPattern[] }) {
+  return (
+    <div className="space-y-2">
+      <div className="text-xs text-[#6b6c6d] uppercase tracking-wide">Chart Patterns</div>
+      <div className="space-y-1.5">
+        {patterns.map((pattern, i) => {
+          const bias = PATTERN_BIAS[pattern.type];
+          const state = PATTERN_STATE_DISPLAY[pattern.state];
+          return (
+            <div key={i} className="px-3 py-2 rounded-lg bg-[#242526]">
+              <div className="flex items-center gap-2">
+                <span className={`text-sm capitalize ${PATTERN_BIAS_COLOR[bias]}`}>{pattern.type.replace(/_/g, " ")}</span>
+                <span className={`text-xs ${state.color}`}>{state.label}</span>
+                <span className="ml-auto text-xs text-[#6b6c6d]">{Math.round(pattern.confidence * 100)}%</span>
+              </div>
+              <div className="text-xs text-[#9a9b9c] mt-0.5">
+                Breakout <span className="font-mono">${pattern.breakoutLevel.toLocaleString()}</span>
+                {pattern.points.some(p => p.label) && (
+                  <span className="text-[#6b6c6d]">
+                    {" • "}
+                    {pattern.points.filter(p => p.label).map(p => `${p.label} $${p.price.toLocaleString()}`).join(", ")}
+                  </span>
+                )}
+              </div>
+              {pattern.warning && <div className="text-xs text-amber-400 mt-1">{pattern.warning}</div>}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
+
+const RSI_STATE_COLOR: Record<NonNullable<IndicatorReadings["rsi"]>["state"], string> = {
+  overbought: "text-rose-400",
+  oversold: "text-emerald-400",
+  neutral: "text-[#e8e8e8]",
+};
+
+/**
+ * Readings from the RSI / MACD / volume panes, plus divergences against price swings.
+ */
+function IndicatorPanel({ indicators, referenceTime }: { indicators: IndicatorReadings; referenceTime: number }) {
+  const { rsi, macd, volume, divergences } = indicators;
+  return (
+    <div className="space-y-2">
+      <div className="text-xs text-[#6b6c6d] uppercase tracking-wide">Indicators</div>
+      <div className="flex flex-wrap gap-2">
+        {rsi && (
+          <div className="px-3 py-1.5 rounded-lg bg-[#242526] text-xs">
+            <span className="text-[#6b6c6d]">RSI </span>
+            <span className={`font-mono ${RSI_STATE_COLOR[rsi.state]}`}>{rsi.value.toFixed(1)}</span>
+            {rsi.state !== "neutral" && <span className={`ml-1 capitalize ${RSI_STATE_COLOR[rsi.state]}`}>{rsi.state}</span>}
+          </div>
+        )}
+        {macd && (
+          <div className="px-3 py-1.5 rounded-lg bg-[#242526] text-xs">
+            <span className="text-[#6b6c6d]">MACD </span>
+            <span className={macd.cross === "bullish" ? "text-emerald-400" : macd.cross === "bearish" ? "text-rose-400" : "text-[#e8e8e8]"}>
+              {macd.cross === "none" ? "No cross" : `${macd.cross} cross`}
+            </span>
+            {macd.aboveZero !== undefined && <span className="text-[#9a9b9c]"> • {macd.aboveZero ? "above" : "below"} zero</span>}
+            {macd.histogram && <span className="text-[#9a9b9c]"> • histogram {macd.histogram}</span>}
+          </div>
+        )}
+        {volume && (
+          <div className="px-3 py-1.5 rounded-lg bg-[#242526] text-xs">
+            <span className="text-[#6b6c6d]">Volume </span>
+            <span className="text-[#e8e8e8]">{volume.trend}</span>
+            {volume.spike && <span className="text-amber-400"> • spike</span>}
+          </div>
+        )}
+      </div>
+      {divergences && divergences.length > 0 && (
+        <div className="space-y-1.5">
+          {divergences.map((d, i) => (
+            <div key={i} className="px-3 py-2 rounded-lg bg-[#242526]">
+              <div className="flex items-center gap-2">
+                <span className={`text-sm ${d.type === "bullish" ? "text-emerald-400" : "text-rose-400"}`}>
+                  {d.type === "bullish" ? "Bullish" : "Bearish"} {d.indicator.toUpperCase()} divergence
+                </span>
+                <span className="ml-auto text-xs text-[#6b6c6d]">{Math.round(d.confidence * 100)}%</span>
+              </div>
+              <div className="text-xs text-[#9a9b9c] mt-0.5">
+                Price {d.type === "bullish" ? "lower low" : "higher high"}{" "}
+                <span className="font-mono">${d.pricePoints[0].price.toLocaleString()} → ${d.pricePoints[1].price.toLocaleString()}</span>
+                {d.pricePoints[1].time && <span className="text-[#6b6c6d]"> • {formatChartAge(d.pricePoints[1].time, referenceTime)}</span>}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+const GATE_DECISION_COLOR: Record<GateDecision["decision"], string> = {
+  kept: "text-emerald-400",
+  rejected: "text-rose-400",
+  flagged: "text-amber-400",
+};
+
+/**
+ * Collapsible record of the run: prompt version, model, timings, every gate
+ * decision, the step log and the raw response. Exportable for bug reports,
+ * with the image transform so positions can be mapped to the original screenshot.
+ */
+function DebugTracePanel({ trace, symbol, imageTransform }: { trace: AnalysisTrace; symbol?: string; imageTransform?: ImageTransform }) {
+  const [expanded, setExpanded] = useState(false);
+  const [showKept, setShowKept] = useState(false);
+  const [copied, setCopied] = useState(false);
+  const counts = countGateDecisions(trace);
+  const gates = showKept ? trace.gates : trace.gates.filter(g => g.decision !== "kept");
+  
+  // Events grouped by stage, in order
+  const stages: { stage: string; events: AnalysisTrace["events"] }[] = [];
+  for (const event of trace.events) {
+    const last = stages[stages.length - 1];
+    if (last && last.stage === event.stage) last.events.push(event);
+    else stages.push({ stage: event.stage, events: [event] });
+  }
+  
+  const exportJson = () => {
+    const url = URL.createObjectURL(new Blob([traceToJson(trace, imageTransform)], { type: "application/json" }));
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = `chart-trace-${symbol || "chart"}-${trace.startedAt.replace(/[:.]/g, "-")}.json`;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+  };
+  
+  const copyJson = () => {
+    navigator.clipboard.writeText(traceToJson(trace, imageTransform));
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+  
+  return (
+    <div className="rounded-xl border border-[#2d2e2f] bg-[#1e1f20]">
+      <button 
+        onClick={() => setExpanded(!expanded)}
+        className="w-full p-3 flex items-center justify-between text-left"
+      >
+        <div className="flex items-center gap-2 text-sm text-[#9a9b9c]">
+          <Bug className="w-4 h-4" />
+          Debug trace
+          <span className="text-xs text-[#6b6c6d] font-mono">
+            {trace.promptVersion} • {trace.model}{trace.latencyMs !== undefined && ` • ${(trace.latencyMs / 1000).toFixed(1)}s`}
+          </span>
+        </div>
+        {expanded ? (
+          <ChevronDown className="w-4 h-4 text-[#6b6c6d]" />
+        ) : (
+          <ChevronRight className="w-4 h-4 text-[#6b6c6d]" />
+        )}
+      </button>
+      
+      {expanded && (
+        <div className="px-3 pb-3 border-t border-[#2d2e2f] pt-3 space-y-3 text-xs">
+          <div className="grid grid-cols-2 gap-x-4 gap-y-1">
+            <span className="text-[#6b6c6d]">Provider</span>
+            <span className="font-mono text-[#e8e8e8]">{trace.provider} / {trace.model}</span>
+            <span className="text-[#6b6c6d]">Prompt</span>
+            <span className="font-mono text-[#e8e8e8]">{trace.promptVersion}</span>
+            <span className="text-[#6b6c6d]">Model latency</span>
+            <span className="font-mono text-[#e8e8e8]">{trace.latencyMs !== undefined ? `${trace.latencyMs}ms` : "-"}</span>
+            <span className="text-[#6b6c6d]">Total</span>
+            <span className="font-mono text-[#e8e8e8]">{trace.totalMs}ms</span>
+            <span className="text-[#6b6c6d]">JSON repairs</span>
+            <span className="font-mono text-[#e8e8e8]">{trace.repairs.length}</span>
+            <span className="text-[#6b6c6d]">Gates</span>
+            <span className="font-mono text-[#e8e8e8]">{counts.kept} kept • {counts.rejected} rejected • {counts.flagged} flagged</span>
+            {imageTransform && (
+              <>
+                <span className="text-[#6b6c6d]">Image</span>
+                <span className="font-mono text-[#e8e8e8]">{describeTransform(imageTransform)}</span>
+              </>
+            )}
+            {trace.annotation && (
+              <>
+                <span className="text-[#6b6c6d]">Annotation</span>
+                <span className="font-mono text-[#e8e8e8]">
+                  {trace.annotation.model} • {trace.annotation.totalMs}ms
+                  {trace.annotation.events.some(e => e.level === "error") && <span className="text-rose-400"> • failed</span>}
+                </span>
+              </>
+            )}
+          </div>
+          
+          <div className="flex items-center gap-2">
+            <button
+              onClick={exportJson}
+              className="flex items-center gap-1 px-2 py-1 rounded-lg bg-[#242526] text-[#9a9b9c] hover:text-[#e8e8e8] transition-colors"
+            >
+              <Download className="w-3 h-3" />
+              Export JSON
+            </button>
+            <button
+              onClick={copyJson}
+              className="flex items-center gap-1 px-2 py-1 rounded-lg bg-[#242526] text-[#9a9b9c] hover:text-[#e8e8e8] transition-colors"
+            >
+              {copied ? <Check className="w-3 h-3 text-emerald-400" /> : <Copy className="w-3 h-3" />}
+              {copied ? "Copied" : "Copy"}
+            </button>
+          </div>
+          
+          {trace.gates.length > 0 && (
+            <div className="space-y-1.5">
+              <div className="flex items-center justify-between">
+                <span className="text-[#6b6c6d] uppercase tracking-wide">Gate decisions</span>
+                <button onClick={() => setShowKept(!showKept)} className="text-[#6b6c6d] hover:text-[#9a9b9c]">
+                  {showKept ? "Hide kept" : `Show kept (${counts.kept})`}
+                </button>
+              </div>
+              {gates.map((gate, i) => (
+                <div key={i}>
+                  <span className={GATE_DECISION_COLOR[gate.decision]}>{gate.decision}</span>
+                  <span className="font-mono text-[#6b6c6d]"> [{gate.gate}]</span>
+                  <span className="text-[#e8e8e8]"> {gate.item}</span>
+                  {gate.price !== undefined && <span className="font-mono text-[#9a9b9c]"> ${gate.price.toLocaleString()}</span>}
+                  {gate.reason && <div className="text-[#6b6c6d] mt-0.5">{gate.reason}</div>}
+                </div>
+              ))}
+            </div>
+          )}
+          
+          <div className="space-y-1.5">
+            <span className="text-[#6b6c6d] uppercase tracking-wide">Steps</span>
+            {stages.map((group, i) => (
+              <details key={i} className="rounded-lg bg-[#242526] px-2 py-1">
+                <summary className="cursor-pointer text-[#9a9b9c]">
+                  {group.stage}
+                  <span className="text-[#6b6c6d]"> • {group.events.length}</span>
+                  {group.events.some(e => e.level !== "info") && <AlertTriangle className="inline w-3 h-3 ml-1 text-amber-400" />}
+                </summary>
+                <div className="mt-1 space-y-0.5 font-mono">
+                  {group.events.map((event, j) => (
+                    <div
+                      key={j}
+                      className={`whitespace-pre-wrap break-words ${
+                        event.level === "error" ? "text-rose-400" : event.level === "warn" ? "text-amber-400" : "text-[#9a9b9c]"
+                      }`}
+                    >
+                      <span className="text-[#6b6c6d]">{event.atMs}ms </span>{event.message}
+                    </div>
+                  ))}
+                </div>
+              </details>
+            ))}
+          </div>
+          
+          {trace.rawResponse !== undefined && (
+            <details className="rounded-lg bg-[#242526] px-2 py-1">
+              <summary className="cursor-pointer text-[#9a9b9c]">
+                Raw response <span className="text-[#6b6c6d]">• {trace.rawResponse.length.toLocaleString()} chars</span>
+              </summary>
+              <pre className="mt-1 max-h-64 overflow-auto whitespace-pre-wrap break-words font-mono text-[#9a9b9c]">
+                {trace.rawResponse}
+              </pre>
+            </details>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+function SectionSkeleton({ label }: { label: string }) {
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center gap-2 text-xs text-[#6b6c6d]">
+        <Loader2 className="w-3 h-3 animate-spin text-cyan-400/60" />
+        {label}
+      </div>
+      <div className="h-3 w-3/4 rounded bg-[#2d2e2f] animate-pulse" />
+      <div className="h-3 w-1/2 rounded bg-[#2d2e2f] animate-pulse" />
+    </div>
+  );
+}
+
 function UserMessage({ content, image }: { content: string; image?: string }) {
   return (
     <div className="flex gap-3">
@@ -313,7 +1208,7 @@ function UserMessage({ content, image }: { content: string; image?: string }) {
         <div className="text-sm text-[#e8e8e8] mb-2">{content}</div>
         {image && (
           <img 
-            src={`data:image/png;base64,${image}`}
+            src={imageDataUrl(image)}
             alt="Chart"
             className="max-w-xs rounded-xl border border-[#2d2e2f]"
           />
@@ -370,6 +1265,11 @@ export function ChartAnalystCard({
   annotatedChart,
   annotationStatus,
   userPrompt,
+  profile,
+  pendingSections,
+  previousAnalysis,
+  sizing,
+  onSizingChange,
   onClose,
   onSave,
 }: ChartAnalystCardProps) {
@@ -385,9 +1285,16 @@ export function ChartAnalystCard({
   const chatEndRef = useRef<HTMLDivElement>(null);
   const inputRef = useRef<HTMLTextAreaElement>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const chatAbortRef = useRef<AbortController | null>(null);
+  
+  // Drop an in-flight chat reply when the card closes
+  useEffect(() => () => chatAbortRef.current?.abort(), []);
   
   // Generate annotation plan (for canvas fallback if needed)
-  const annotationPlan = useMemo(() => generateAnnotationPlan(analysis), [analysis]);
+  const annotationPlan = useMemo(() => generateAnnotationPlan(analysis, profile), [analysis, profile]);
+  
+  // "Now" for last-tested ages: the chart's latest candle if the time axis was read
+  const referenceTime = analysis.xAxis?.lastCandleTime ?? Date.parse(analysis.analyzedAt);
   
   // Update view mode when annotated chart becomes available
   useEffect(() => {
@@ -404,6 +1311,22 @@ export function ChartAnalystCard({
     return originalChart;
   }, [viewMode, annotatedChart, originalChart]);
 
+  const streaming = pendingSections !== undefined;
+  const isPending = (section: AnalysisSection) => pendingSections?.includes(section) ?? false;
+
+  // Changes since the last saved analysis of this symbol (once every section is in)
+  const sinceLastTime = useMemo(
+    () => (previousAnalysis && !streaming ? diffAnalyses(previousAnalysis, analysis) : null),
+    [previousAnalysis, analysis, streaming]
+  );
+
+  // Entry / stop / targets for each scenario (once every section is in)
+  const minRiskReward = profile?.minRiskReward ?? DEFAULT_ANALYSIS_PROFILE.minRiskReward;
+  const decisionCard = useMemo(
+    () => (!streaming && analysis.scenarios.length > 0 ? buildDecisionCard(analysis, minRiskReward) : null),
+    [analysis, minRiskReward, streaming]
+  );
+
   // Auto-scroll
   useEffect(() => {
     chatEndRef.current?.scrollIntoView({ behavior: "smooth" });
@@ -415,18 +1338,33 @@ export function ChartAnalystCard({
 Story: ${analysis.story}
 Current context: ${analysis.currentContext}
 Regime: ${analysis.regime?.type || "unknown"} (${analysis.regime ? Math.round(analysis.regime.confidence * 100) : 0}% confidence)
-Key zones: ${analysis.keyZones.map(z => `${z.label} at $${z.price} (${z.type})`).join(", ")}
-${analysis.rangeBox ? `Range: $${analysis.rangeBox.low} - $${analysis.rangeBox.high}` : ""}
-Current price: $${analysis.currentPrice}
-Invalidation: ${analysis.invalidation}
+Key zones: ${analysis.keyZones.map(z => `${z.label} at $${z.price}${z.priceLow !== undefined && z.priceHigh !== undefined ? `, band $${z.priceLow}-$${z.priceHigh}` : ""} (${z.type}${z.dataSource === "ohlcv" ? `, ${z.verification?.touches ?? 0} touches verified in OHLCV data` : ""})`).join(", ")}${analysis.structure?.missed.length ? `
+Strong levels in the OHLCV data not listed above: ${analysis.structure.missed.map(l => `$${l.price} (${l.type}, ${l.touches} swings)`).join(", ")}` : ""}
+${analysis.rangeBox ? `Range: $${analysis.rangeBox.low} - $${analysis.rangeBox.high}` : ""}${analysis.trendlines?.length ? `
+Trendlines: ${analysis.trendlines.map(t => `${t.label} (${t.type}, ${t.status}, $${t.anchors[0].price} → $${t.anchors[t.anchors.length - 1].price}, ${t.touches} touches)`).join(", ")}` : ""}${analysis.channels?.length ? `
+Channels: ${analysis.channels.map(c => `${c.direction} (${c.status}), top $${c.upper.anchors[c.upper.anchors.length - 1].price}, bottom $${c.lower.anchors[c.lower.anchors.length - 1].price}`).join(", ")}` : ""}${analysis.patterns?.length ? `
+Chart patterns: ${analysis.patterns.map(p => `${p.type.replace(/_/g, " ")} (${p.state}, breakout $${p.breakoutLevel})`).join(", ")}` : ""}${analysis.indicators ? `
+Indicators: ${[
+  analysis.indicators.rsi && `RSI ${analysis.indicators.rsi.value} (${analysis.indicators.rsi.state})`,
+  analysis.indicators.macd && `MACD ${analysis.indicators.macd.cross === "none" ? "no cross" : `${analysis.indicators.macd.cross} cross`}${analysis.indicators.macd.aboveZero !== undefined ? `, ${analysis.indicators.macd.aboveZero ? "above" : "below"} zero` : ""}`,
+  analysis.indicators.volume && `volume ${analysis.indicators.volume.trend}${analysis.indicators.volume.spike ? " with a spike" : ""}`,
+  ...(analysis.indicators.divergences ?? []).map(d => `${d.type} ${d.indicator.toUpperCase()} divergence ($${d.pricePoints[0].price} → $${d.pricePoints[1].price})`),
+].filter(Boolean).join(", ")}` : ""}
+Current price: $${analysis.currentPrice}${analysis.multiTimeframe ? `
+Timeframes: ${analysis.multiTimeframe.timeframes.filter(t => t.success).map(t => `${t.timeframe} ${t.regime.type}`).join(", ")} (${analysis.multiTimeframe.alignment}: ${analysis.multiTimeframe.summary})
+Levels on several timeframes: ${analysis.multiTimeframe.zones.filter(z => z.timeframes.length > 1).map(z => `$${z.price} (${z.timeframes.join("/")})`).join(", ") || "none"}` : ""}${sinceLastTime ? `
+Since the previous analysis (${sinceLastTime.previousAnalyzedAt}): price $${sinceLastTime.price.previous} → $${sinceLastTime.price.current}, regime ${sinceLastTime.regime.previous.type} → ${sinceLastTime.regime.current.type}${sinceLastTime.crossings.length ? `, broke ${sinceLastTime.crossings.map(c => `${c.direction} $${c.zone.price}`).join(", ")}` : ""}${sinceLastTime.scenarios.some(s => s.triggered) ? `, triggered: ${sinceLastTime.scenarios.filter(s => s.triggered).map(s => s.scenario.condition).join("; ")}` : ""}` : ""}
+Invalidation: ${analysis.invalidation}${decisionCard?.frames.length ? `
+Trade frames: ${decisionCard.frames.map(f => `${f.direction} at $${f.entry.price}, stop ${f.stop ? `$${Math.round(f.stop.price * 100) / 100}` : "none"}, targets ${f.targets.map(t => `$${t.price}`).join("/") || "none"}, ${f.riskReward !== null ? `${f.riskReward.toFixed(1)}R` : "R:R n/a"}`).join("; ")} (minimum ${minRiskReward}R)` : ""}
 
 Be helpful, concise, and reference your previous analysis when relevant.`;
 
   // Download chart image
   const downloadChart = useCallback(() => {
     const link = document.createElement("a");
-    link.href = `data:image/png;base64,${displayChart}`;
-    link.download = `chart-analysis-${analysis.symbol || "chart"}-${new Date().toISOString().split("T")[0]}.png`;
+    link.href = imageDataUrl(displayChart);
+    const extension = detectImageMime(displayChart) === "image/jpeg" ? "jpg" : "png";
+    link.download = `chart-analysis-${analysis.symbol || "chart"}-${new Date().toISOString().split("T")[0]}.${extension}`;
     document.body.appendChild(link);
     link.click();
     document.body.removeChild(link);
@@ -435,24 +1373,30 @@ Be helpful, concise, and reference your previous analysis when relevant.`;
   // Copy chart image to clipboard
   const copyChartToClipboard = useCallback(async () => {
     try {
-      const response = await fetch(`data:image/png;base64,${displayChart}`);
+      const response = await fetch(imageDataUrl(displayChart));
       const blob = await response.blob();
       
       await navigator.clipboard.write([
-        new ClipboardItem({ "image/png": blob })
+        new ClipboardItem({ [blob.type]: blob })
       ]);
       
       setCopiedImage(true);
       setTimeout(() => setCopiedImage(false), 2000);
     } catch (error) {
       console.error("Failed to copy image:", error);
-      await navigator.clipboard.writeText(`data:image/png;base64,${displayChart}`);
+      await navigator.clipboard.writeText(imageDataUrl(displayChart));
       setCopiedImage(true);
       setTimeout(() => setCopiedImage(false), 2000);
     }
   }, [displayChart]);
 
   // Handlers
+  // Chat images go through the same intake as the chart (format, crop, size)
+  const attachChatImage = async (file: File) => {
+    const intake = await prepareChartImage(await fileToBase64(file));
+    if (intake.ok) setChatImage(intake.image.base64);
+  };
+
   const handlePaste = (e: React.ClipboardEvent) => {
     const items = e.clipboardData?.items;
     if (!items) return;
@@ -460,11 +1404,7 @@ Be helpful, concise, and reference your previous analysis when relevant.`;
       if (item.type.startsWith("image/")) {
         e.preventDefault();
         const file = item.getAsFile();
-        if (file) {
-          const reader = new FileReader();
-          reader.onload = () => setChatImage((reader.result as string).split(",")[1]);
-          reader.readAsDataURL(file);
-        }
+        if (file) attachChatImage(file);
         break;
       }
     }
@@ -472,11 +1412,7 @@ Be helpful, concise, and reference your previous analysis when relevant.`;
 
   const handleFileUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
-    if (file?.type.startsWith("image/")) {
-      const reader = new FileReader();
-      reader.onload = () => setChatImage((reader.result as string).split(",")[1]);
-      reader.readAsDataURL(file);
-    }
+    if (file?.type.startsWith("image/")) attachChatImage(file);
   };
 
   const handleSend = async () => {
@@ -499,13 +1435,20 @@ Be helpful, concise, and reference your previous analysis when relevant.`;
       ...newMessages
     ];
     
+    const controller = new AbortController();
+    chatAbortRef.current = controller;
     try {
-      const response = await chatWithHistory(messagesWithContext, systemContext);
+      const response = await requestChat(messagesWithContext, systemContext, controller.signal);
+      if (controller.signal.aborted) return;
       setChatMessages([...newMessages, { role: "model", content: response.success ? response.text : "Sorry, I couldn't process that." }]);
     } catch {
+      if (controller.signal.aborted) return;
       setChatMessages([...newMessages, { role: "model", content: "Something went wrong. Please try again." }]);
     } finally {
-      setIsTyping(false);
+      if (chatAbortRef.current === controller) {
+        chatAbortRef.current = null;
+        setIsTyping(false);
+      }
     }
   };
 
@@ -525,7 +1468,9 @@ Be helpful, concise, and reference your previous analysis when relevant.`;
   };
 
   const copyAllZones = () => {
-    const zones = analysis.keyZones.map(z => `${z.type.toUpperCase()}: $${z.price.toLocaleString()} (${z.label})`);
+    const zones = analysis.keyZones.map(z => z.priceLow !== undefined && z.priceHigh !== undefined
+      ? `${z.type.toUpperCase()}: $${z.priceLow.toLocaleString()} - $${z.priceHigh.toLocaleString()} (${z.label}, level $${z.price.toLocaleString()})`
+      : `${z.type.toUpperCase()}: $${z.price.toLocaleString()} (${z.label})`);
     navigator.clipboard.writeText(zones.join("\n"));
   };
 
@@ -582,18 +1527,29 @@ Be helpful, concise, and reference your previous analysis when relevant.`;
             </div>
             <div className="flex-1 min-w-0 pt-1 space-y-4">
               {/* Story - the main narrative */}
-              <div className="space-y-2">
-                <div className="text-sm text-[#e8e8e8] leading-relaxed">
-                  {analysis.story}
-                </div>
-                <div className="text-sm text-[#9a9b9c] leading-relaxed">
-                  {analysis.currentContext}
+              {isPending("story") ? (
+                <SectionSkeleton label="Reading the story..." />
+              ) : (
+                <div className="space-y-2">
+                  <div className="text-sm text-[#e8e8e8] leading-relaxed">
+                    {analysis.story}
+                  </div>
+                  <div className="text-sm text-[#9a9b9c] leading-relaxed">
+                    {analysis.currentContext}
+                  </div>
                 </div>
-              </div>
+              )}
               
               {/* Regime Badge + Range Box (if present) */}
               <div className="flex flex-wrap items-center gap-3">
-                {analysis.regime && <RegimeBadge regime={analysis.regime} />}
+                {isPending("regime") ? (
+                  <div className="flex items-center gap-2 text-xs text-[#6b6c6d]">
+                    <Loader2 className="w-3 h-3 animate-spin text-cyan-400/60" />
+                    Classifying regime...
+                  </div>
+                ) : (
+                  analysis.regime && <RegimeBadge regime={analysis.regime} />
+                )}
                 
                 {analysis.rangeBox && (
                   <div className="inline-flex items-center gap-2 px-3 py-1.5 rounded-lg bg-blue-500/10 border border-blue-500/20">
@@ -606,6 +1562,12 @@ Be helpful, concise, and reference your previous analysis when relevant.`;
                 )}
               </div>
               
+              {/* Per-timeframe regimes (multi-timeframe analyses only) */}
+              {analysis.multiTimeframe && <TimeframeStrip info={analysis.multiTimeframe} />}
+              
+              {/* Diff against the last saved analysis of this symbol */}
+              {sinceLastTime && <SinceLastTime diff={sinceLastTime} analyzedAt={analysis.analyzedAt} />}
+              
               {/* Annotated Chart */}
               <div className="rounded-xl border border-[#2d2e2f] overflow-hidden bg-[#161717]">
                 <div className="px-3 py-2 flex items-center justify-between border-b border-[#2d2e2f]">
@@ -684,7 +1646,7 @@ Be helpful, concise, and reference your previous analysis when relevant.`;
                     />
                   ) : (
                     <img 
-                      src={`data:image/png;base64,${displayChart}`} 
+                      src={imageDataUrl(displayChart)} 
                       alt="Chart" 
                       className="w-full"
                     />
@@ -699,12 +1661,25 @@ Be helpful, concise, and reference your previous analysis when relevant.`;
               </div>
               
               {/* Key Zones */}
+              {isPending("zones") && <SectionSkeleton label="Reading key zones..." />}
               {analysis.keyZones.length > 0 && (
                 <div className="space-y-2">
                   <div className="flex items-center justify-between">
                     <div className="text-xs text-[#6b6c6d] uppercase tracking-wide flex items-center gap-2">
                       Key Zones
                       <InfoTooltip termKey="support" />
+                      {analysis.consensus && (analysis.consensus.degraded ? (
+                        <span
+                          className="normal-case tracking-normal text-amber-400"
+                          title={`Only ${analysis.consensus.succeeded} of ${analysis.consensus.samples} samples succeeded (quorum ${analysis.consensus.quorum}) - these zones come from a single read`}
+                        >
+                          {analysis.consensus.succeeded}/{analysis.consensus.samples} samples · no consensus
+                        </span>
+                      ) : (
+                        <span className="normal-case tracking-normal text-cyan-400">
+                          {analysis.consensus.succeeded}/{analysis.consensus.samples} samples
+                        </span>
+                      ))}
                     </div>
                     <button 
                       onClick={copyAllZones}
@@ -716,7 +1691,43 @@ Be helpful, concise, and reference your previous analysis when relevant.`;
                   </div>
                   <div className="space-y-2">
                     {analysis.keyZones.map((zone, i) => (
-                      <ZoneRow key={i} zone={zone} index={i} />
+                      <ZoneRow key={i} zone={zone} index={i} referenceTime={referenceTime} />
+                    ))}
+                  </div>
+                </div>
+              )}
+              
+              {/* Merged zones from every timeframe */}
+              {analysis.multiTimeframe && analysis.multiTimeframe.zones.length > 0 && (
+                <TimeframeZoneList zones={analysis.multiTimeframe.zones} />
+              )}
+              
+              {/* Validation gate decisions (rejected/flagged items with reasons) */}
+              {analysis.validationIssues && analysis.validationIssues.length > 0 && (
+                <ValidationIssueList issues={analysis.validationIssues} />
+              )}
+              
+              {/* Strong levels in the candle data that the model didn't report */}
+              {analysis.structure && analysis.structure.missed.length > 0 && (
+                <div className="space-y-2">
+                  <div className="text-xs text-[#6b6c6d] uppercase tracking-wide">
+                    Missed by the model
+                  </div>
+                  <div className="flex flex-wrap gap-2">
+                    {analysis.structure.missed.map((level, i) => (
+                      <div
+                        key={i}
+                        className={`inline-flex items-center gap-2 px-3 py-1.5 rounded-lg border border-dashed ${
+                          level.type === "support" ? "border-emerald-500/30" : "border-rose-500/30"
+                        }`}
+                      >
+                        <span className={`text-sm font-mono ${level.type === "support" ? "text-emerald-400" : "text-rose-400"}`}>
+                          ${level.price.toLocaleString()}
+                        </span>
+                        <span className="text-xs text-[#6b6c6d]">
+                          {level.type} • {level.touches} swings
+                        </span>
+                      </div>
                     ))}
                   </div>
                 </div>
@@ -746,6 +1757,11 @@ Be helpful, concise, and reference your previous analysis when relevant.`;
                           <span className="text-sm font-mono text-[#9a9b9c]">
                             ${pivot.price.toLocaleString()}
                           </span>
+                          {pivot.time && (
+                            <span className="text-xs text-[#6b6c6d]">
+                              {formatChartAge(pivot.time, referenceTime)}
+                            </span>
+                          )}
                         </div>
                       );
                     })}
@@ -773,6 +1789,11 @@ Be helpful, concise, and reference your previous analysis when relevant.`;
                           <span className="text-sm font-mono text-[#e8e8e8]">
                             ${fakeout.level.toLocaleString()}
                           </span>
+                          {fakeout.time && (
+                            <span className="text-xs text-[#6b6c6d]">
+                              {formatChartAge(fakeout.time, referenceTime)}
+                            </span>
+                          )}
                         </div>
                         <div className="text-xs text-[#6b6c6d] mt-1">
                           Price broke {fakeout.direction} this level but reversed — watch for this pattern to repeat
@@ -783,7 +1804,19 @@ Be helpful, concise, and reference your previous analysis when relevant.`;
                 </div>
               )}
               
+              {/* Trendlines & channels (if present - gated by confidence) */}
+              {(analysis.trendlines?.length || analysis.channels?.length) ? (
+                <TrendlineList trendlines={analysis.trendlines ?? []} channels={analysis.channels ?? []} />
+              ) : null}
+              
+              {/* Chart patterns (if present - gated by confidence) */}
+              {analysis.patterns && analysis.patterns.length > 0 && <PatternList patterns={analysis.patterns} />}
+              
+              {/* Indicator panes (if read - divergences gated by confidence) */}
+              {analysis.indicators && <IndicatorPanel indicators={analysis.indicators} referenceTime={referenceTime} />}
+              
               {/* Scenarios - If/Then conditionals */}
+              {isPending("scenarios") && <SectionSkeleton label="Mapping scenarios..." />}
               {analysis.scenarios.length > 0 && (
                 <div className="space-y-2">
                   <div className="text-xs text-[#6b6c6d] uppercase tracking-wide flex items-center gap-2">
@@ -798,6 +1831,14 @@ Be helpful, concise, and reference your previous analysis when relevant.`;
                 </div>
               )}
               
+              {/* Decision card - computed from the scenarios, zones and invalidation */}
+              {decisionCard && decisionCard.frames.length > 0 && <DecisionCard card={decisionCard} />}
+              
+              {/* Position sizing - entry at current price, stop from the invalidation */}
+              {sizing && !streaming && analysis.currentPrice > 0 && (
+                <PositionSizingPanel analysis={analysis} settings={sizing} onSettingsChange={onSizingChange} />
+              )}
+              
               {/* Invalidation */}
               {analysis.invalidation && analysis.invalidation !== "Unknown" && (
                 <div className="p-3 rounded-xl bg-amber-500/5 border border-amber-500/20">
@@ -809,6 +1850,9 @@ Be helpful, concise, and reference your previous analysis when relevant.`;
                   <p className="text-sm text-[#9a9b9c]">{analysis.invalidation}</p>
                 </div>
               )}
+              
+              {/* Debug trace - prompt version, model, gate decisions, raw response */}
+              {analysis.trace && !streaming && <DebugTracePanel trace={analysis.trace} symbol={analysis.symbol} imageTransform={analysis.imageTransform} />}
             </div>
           </div>
           
@@ -826,61 +1870,63 @@ Be helpful, concise, and reference your previous analysis when relevant.`;
           <div ref={chatEndRef} />
         </div>
 
-        {/* Input */}
-        <div className="border-t border-[#2d2e2f] p-4 flex-shrink-0 bg-[#1a1b1b]">
-          {chatImage && (
-            <div className="mb-3 relative inline-block">
-              <img src={`data:image/png;base64,${chatImage}`} alt="Chart" className="h-20 rounded-lg border border-[#2d2e2f]" />
+        {/* Input (available once the analysis has finished streaming) */}
+        {!streaming && (
+          <div className="border-t border-[#2d2e2f] p-4 flex-shrink-0 bg-[#1a1b1b]">
+            {chatImage && (
+              <div className="mb-3 relative inline-block">
+                <img src={imageDataUrl(chatImage)} alt="Chart" className="h-20 rounded-lg border border-[#2d2e2f]" />
+                <button
+                  onClick={() => setChatImage(null)}
+                  className="absolute -top-2 -right-2 p-1 bg-[#242526] border border-[#2d2e2f] rounded-full hover:bg-rose-500/20 transition-colors"
+                >
+                  <X className="w-3 h-3 text-[#9a9b9c]" />
+                </button>
+              </div>
+            )}
+            
+            <div className="flex items-end gap-2">
+              <input ref={fileInputRef} type="file" accept="image/*" onChange={handleFileUpload} className="hidden" />
+              
               <button
-                onClick={() => setChatImage(null)}
-                className="absolute -top-2 -right-2 p-1 bg-[#242526] border border-[#2d2e2f] rounded-full hover:bg-rose-500/20 transition-colors"
+                onClick={() => fileInputRef.current?.click()}
+                className="p-2.5 rounded-xl bg-[#242526] hover:bg-[#2d2e2f] text-[#6b6c6d] hover:text-[#9a9b9c] transition-colors flex-shrink-0"
               >
-                <X className="w-3 h-3 text-[#9a9b9c]" />
+                <Plus className="w-5 h-5" />
+              </button>
+              
+              <div className="flex-1 relative">
+                <textarea
+                  ref={inputRef}
+                  value={inputValue}
+                  onChange={(e) => setInputValue(e.target.value)}
+                  onKeyDown={handleKeyDown}
+                  onPaste={handlePaste}
+                  placeholder="Ask a follow-up question..."
+                  rows={1}
+                  className="w-full bg-[#242526] border border-[#2d2e2f] rounded-xl text-[#e8e8e8] placeholder-[#6b6c6d] px-4 py-3 resize-none focus:outline-none focus:border-[#3d3e3f] transition-colors text-sm"
+                  style={{ minHeight: "48px", maxHeight: "120px" }}
+                />
+              </div>
+              
+              <button
+                onClick={handleSend}
+                disabled={(!inputValue.trim() && !chatImage) || isTyping}
+                className={`p-2.5 rounded-xl transition-all flex-shrink-0 ${
+                  (inputValue.trim() || chatImage) && !isTyping
+                    ? "bg-cyan-500 hover:bg-cyan-400 text-white" 
+                    : "bg-[#242526] text-[#6b6c6d]"
+                }`}
+              >
+                {isTyping ? <Loader2 className="w-5 h-5 animate-spin" /> : <Send className="w-5 h-5" />}
               </button>
             </div>
-          )}
-          
-          <div className="flex items-end gap-2">
-            <input ref={fileInputRef} type="file" accept="image/*" onChange={handleFileUpload} className="hidden" />
-            
-            <button
-              onClick={() => fileInputRef.current?.click()}
-              className="p-2.5 rounded-xl bg-[#242526] hover:bg-[#2d2e2f] text-[#6b6c6d] hover:text-[#9a9b9c] transition-colors flex-shrink-0"
-            >
-              <Plus className="w-5 h-5" />
-            </button>
             
-            <div className="flex-1 relative">
-              <textarea
-                ref={inputRef}
-                value={inputValue}
-                onChange={(e) => setInputValue(e.target.value)}
-                onKeyDown={handleKeyDown}
-                onPaste={handlePaste}
-                placeholder="Ask a follow-up question..."
-                rows={1}
-                className="w-full bg-[#242526] border border-[#2d2e2f] rounded-xl text-[#e8e8e8] placeholder-[#6b6c6d] px-4 py-3 resize-none focus:outline-none focus:border-[#3d3e3f] transition-colors text-sm"
-                style={{ minHeight: "48px", maxHeight: "120px" }}
-              />
+            <div className="mt-2 text-xs text-[#6b6c6d] text-center">
+              Paste charts with ⌘V • Enter to send
             </div>
-            
-            <button
-              onClick={handleSend}
-              disabled={(!inputValue.trim() && !chatImage) || isTyping}
-              className={`p-2.5 rounded-xl transition-all flex-shrink-0 ${
-                (inputValue.trim() || chatImage) && !isTyping
-                  ? "bg-cyan-500 hover:bg-cyan-400 text-white" 
-                  : "bg-[#242526] text-[#6b6c6d]"
-              }`}
-            >
-              {isTyping ? <Loader2 className="w-5 h-5 animate-spin" /> : <Send className="w-5 h-5" />}
-            </button>
-          </div>
-          
-          <div className="mt-2 text-xs text-[#6b6c6d] text-center">
-            Paste charts with ⌘V • Enter to send
           </div>
-        </div>
+        )}
       </div>
     </>
   );
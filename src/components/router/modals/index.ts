@@ -1 +1,2 @@
 export { ChartAnalystCard } from "./ChartAnalystCard";
+export { AnalysisSettingsModal } from "./AnalysisSettingsModal";
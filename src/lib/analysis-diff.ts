@@ -0,0 +1,268 @@
+/**
+ * Analysis Diff Module
+ * ====================
+ *
+ * Compares a new analysis with the last saved analysis of the same symbol,
+ * so the card can say what changed since last time:
+ *
+ * | Change     | How it's found                                                      |
+ * |------------|---------------------------------------------------------------------|
+ * | Zones      | Matched by price within ZONE_MATCH_PCT: unchanged, shifted, flipped  |
+ * |            | (support ↔ resistance), added or removed                            |
+ * | Regime     | Type transition, e.g. ranging → trending_up                          |
+ * | Price      | Move between the two current prices, and which old zones it crossed |
+ * | Scenarios  | Last time's "If price closes above $X" conditions checked against    |
+ * |            | the new price                                                       |
+ *
+ * Everything here is pure and runs in the browser.
+ *
+ * ## Usage
+ * ```typescript
+ * const previous = findPreviousAnalysis(getForSymbol(symbol).map(s => s.analysis), analysis);
+ * const diff = previous ? diffAnalyses(previous, analysis) : null;
+ * diff?.crossings; // [{ zone: { price: 98500, ... }, direction: "above" }]
+ * ```
+ *
+ * @module analysis-diff
+ */
+
+import type { ChartAnalysis, KeyZone, Regime, Scenario } from "./analysis-result";
+
+// ============================================
+// TYPES
+// ============================================
+
+/**
+ * A zone present in both analyses.
+ */
+export interface ZoneMatch {
+  previous: KeyZone;
+  current: KeyZone;
+  /** Relative price move of the level (0.004 = +0.4%) */
+  shiftPct: number;
+  /** Support became resistance or the other way round */
+  flipped: boolean;
+}
+
+/**
+ * A previous zone that price moved through between the two analyses.
+ */
+export interface ZoneCrossing {
+  zone: KeyZone;
+  /** Side of the zone price is on now */
+  direction: "above" | "below";
+}
+
+/**
+ * One of last time's scenarios checked against the new price.
+ */
+export interface ScenarioCheck {
+  scenario: Scenario;
+  /** Price level the condition refers to */
+  level: number;
+  /** Side of the level the condition asks for */
+  direction: "above" | "below";
+  /** Price is now on the condition's side of the level */
+  triggered: boolean;
+}
+
+/**
+ * What changed between two analyses of the same symbol.
+ */
+export interface AnalysisDiff {
+  /** When the earlier analysis was made (ISO) */
+  previousAnalyzedAt: string;
+  /** Timeframe of the earlier analysis, if read */
+  previousTimeframe?: string;
+  price: { previous: number; current: number; changePct: number };
+  regime: { previous: Regime; current: Regime; changed: boolean };
+  zones: {
+    added: KeyZone[];
+    removed: KeyZone[];
+    /** Matched zones that moved more than ZONE_UNCHANGED_PCT or flipped type */
+    shifted: ZoneMatch[];
+    /** Matched zones at (about) the same price and type */
+    unchanged: ZoneMatch[];
+  };
+  crossings: ZoneCrossing[];
+  /** Only scenarios whose level and direction could be read */
+  scenarios: ScenarioCheck[];
+}
+
+// ============================================
+// TOLERANCES
+// ============================================
+
+/** Zones within this fraction of each other are the same level */
+const ZONE_MATCH_PCT = 0.015;
+
+/** Matched zones closer than this count as unchanged */
+const ZONE_UNCHANGED_PCT = 0.002;
+
+// ============================================
+// PICKING THE BASELINE
+// ============================================
+
+/**
+ * Pick the analysis to compare against: the most recent one made before
+ * `current`, preferring the same timeframe.
+ *
+ * @param candidates - Saved analyses of the same symbol (any order)
+ * @param current - The analysis being shown
+ * @returns The baseline, or null if there is none
+ */
+export function findPreviousAnalysis(candidates: ChartAnalysis[], current: ChartAnalysis): ChartAnalysis | null {
+  const currentTime = Date.parse(current.analyzedAt);
+  const earlier = candidates
+    .filter(a => a.success && Date.parse(a.analyzedAt) < currentTime)
+    .sort((a, b) => Date.parse(b.analyzedAt) - Date.parse(a.analyzedAt));
+
+  const timeframe = current.timeframe?.toLowerCase();
+  return earlier.find(a => timeframe && a.timeframe?.toLowerCase() === timeframe) ?? earlier[0] ?? null;
+}
+
+// ============================================
+// DIFF
+// ============================================
+
+/**
+ * Compare two analyses of the same symbol.
+ *
+ * @param previous - The earlier analysis
+ * @param current - The new analysis
+ */
+export function diffAnalyses(previous: ChartAnalysis, current: ChartAnalysis): AnalysisDiff {
+  const previousPrice = previous.currentPrice;
+  const currentPrice = current.currentPrice;
+
+  return {
+    previousAnalyzedAt: previous.analyzedAt,
+    previousTimeframe: previous.timeframe,
+    price: {
+      previous: previousPrice,
+      current: currentPrice,
+      changePct: previousPrice > 0 ? (currentPrice - previousPrice) / previousPrice : 0,
+    },
+    regime: {
+      previous: previous.regime,
+      current: current.regime,
+      changed: previous.regime.type !== current.regime.type,
+    },
+    zones: matchZones(previous.keyZones, current.keyZones),
+    crossings: findCrossings(previous.keyZones, previousPrice, currentPrice),
+    scenarios: previous.scenarios
+      .map(scenario => checkScenario(scenario, currentPrice))
+      .filter((check): check is ScenarioCheck => check !== null),
+  };
+}
+
+/**
+ * Whether a diff has anything worth showing beyond "nothing changed".
+ */
+export function hasChanges(diff: AnalysisDiff): boolean {
+  return (
+    diff.regime.changed ||
+    diff.zones.added.length > 0 ||
+    diff.zones.removed.length > 0 ||
+    diff.zones.shifted.length > 0 ||
+    diff.crossings.length > 0 ||
+    diff.scenarios.some(s => s.triggered)
+  );
+}
+
+/**
+ * Pair zones by nearest price (closest pairs first), then sort the
+ * leftovers into added and removed.
+ */
+function matchZones(previous: KeyZone[], current: KeyZone[]): AnalysisDiff["zones"] {
+  const pairs = previous
+    .flatMap((p, i) => current.map((c, j) => ({ i, j, distance: Math.abs(c.price - p.price) / p.price })))
+    .filter(pair => pair.distance <= ZONE_MATCH_PCT)
+    .sort((a, b) => a.distance - b.distance);
+
+  const usedPrevious = new Set<number>();
+  const usedCurrent = new Set<number>();
+  const shifted: ZoneMatch[] = [];
+  const unchanged: ZoneMatch[] = [];
+
+  for (const { i, j } of pairs) {
+    if (usedPrevious.has(i) || usedCurrent.has(j)) continue;
+    usedPrevious.add(i);
+    usedCurrent.add(j);
+    const match: ZoneMatch = {
+      previous: previous[i],
+      current: current[j],
+      shiftPct: (current[j].price - previous[i].price) / previous[i].price,
+      flipped: previous[i].type !== current[j].type,
+    };
+    (match.flipped || Math.abs(match.shiftPct) > ZONE_UNCHANGED_PCT ? shifted : unchanged).push(match);
+  }
+
+  return {
+    added: current.filter((_, j) => !usedCurrent.has(j)),
+    removed: previous.filter((_, i) => !usedPrevious.has(i)),
+    shifted,
+    unchanged,
+  };
+}
+
+/**
+ * Previous zones that sit between the old and new price.
+ */
+function findCrossings(zones: KeyZone[], previousPrice: number, currentPrice: number): ZoneCrossing[] {
+  if (!(previousPrice > 0 && currentPrice > 0) || previousPrice === currentPrice) return [];
+  const low = Math.min(previousPrice, currentPrice);
+  const high = Math.max(previousPrice, currentPrice);
+  const direction = currentPrice > previousPrice ? "above" : "below";
+
+  return zones
+    .filter(zone => zone.price > low && zone.price < high)
+    .sort((a, b) => (direction === "above" ? a.price - b.price : b.price - a.price))
+    .map(zone => ({ zone, direction }));
+}
+
+// ============================================
+// SCENARIO CONDITIONS
+// ============================================
+
+const ABOVE_WORDS = /\b(above|over|reclaims?|breaks? out|holds? above)\b/i;
+const BELOW_WORDS = /\b(below|under|loses?|breaks? down|fails? at)\b/i;
+
+/** "$98,500", "$0.4512" or a bare "98,500.25" (a separator or decimal is required without "$") */
+const PRICE_PATTERN = /\$\s?(\d[\d,]*(?:\.\d+)?)|\b(\d{1,3}(?:,\d{3})+(?:\.\d+)?|\d+\.\d+)\b/;
+
+/**
+ * Read the level and direction out of a condition like
+ * "If price closes a 4H candle above $98,500..." or
+ * "A daily close below $94,200 invalidates the range read.".
+ *
+ * @returns The level and side, or null if no direction word or price was found
+ */
+export function readCondition(text: string): { level: number; direction: "above" | "below" } | null {
+  const priceMatch = text.match(PRICE_PATTERN);
+  if (!priceMatch) return null;
+  const level = Number((priceMatch[1] ?? priceMatch[2]).replace(/,/g, ""));
+  if (!Number.isFinite(level) || level <= 0) return null;
+
+  const above = text.search(ABOVE_WORDS);
+  const below = text.search(BELOW_WORDS);
+  if (above < 0 && below < 0) return null;
+  const direction = below < 0 || (above >= 0 && above < below) ? "above" : "below";
+  return { level, direction };
+}
+
+/**
+ * Check one of last time's scenarios against the new price.
+ */
+function checkScenario(scenario: Scenario, currentPrice: number): ScenarioCheck | null {
+  const condition = readCondition(scenario.condition);
+  if (!condition) return null;
+  const { level, direction } = condition;
+
+  return {
+    scenario,
+    level,
+    direction,
+    triggered: currentPrice > 0 && (direction === "above" ? currentPrice > level : currentPrice < level),
+  };
+}
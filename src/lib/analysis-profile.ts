@@ -0,0 +1,170 @@
+/**
+ * Analysis Profile Module
+ * =======================
+ *
+ * One object holding every knob that decides what an analysis keeps and
+ * how it is drawn, so the pipeline, the display gate and the overlay all
+ * agree:
+ *
+ * | Setting        | Read by                                  |
+ * |----------------|------------------------------------------|
+ * | thresholds     | analyzeChart() → validateAnalysis()      |
+ * | maxZones       | analyzeChart(), mergeAnalyses(), prompt  |
+ * | scenarioCount  | analyzeChart(), prompt                   |
+ * | zoneBandPct    | generateAnnotationPlan()                 |
+ * | minRiskReward  | buildDecisionCard()                      |
+ *
+ * The profile is edited in the Settings panel, persisted in localStorage
+ * and sent with every `/api/analyze` request. The server re-checks it with
+ * parseAnalysisProfile() before use.
+ *
+ * ## Usage
+ * ```typescript
+ * const result = parseAnalysisProfile({ maxZones: 6 });
+ * if (result.ok) {
+ *   await analyzeChart(imageBase64, question, { profile: result.profile });
+ * }
+ * ```
+ *
+ * @module analysis-profile
+ */
+
+// ============================================
+// TYPES
+// ============================================
+
+/**
+ * Minimum confidence (0-1) for each optional Layer 3 pattern.
+ */
+export interface PatternThresholds {
+  rangeBox: number;
+  pivots: number;
+  /** Applied to each fakeout individually */
+  fakeouts: number;
+  /** Applied to each trendline and channel individually */
+  trendlines: number;
+  /** Applied to each chart pattern individually */
+  patterns: number;
+  /** Applied to each RSI / MACD divergence individually */
+  divergences: number;
+}
+
+/**
+ * User-configurable analysis settings.
+ */
+export interface AnalysisProfile {
+  /** Confidence needed to keep optional patterns */
+  thresholds: PatternThresholds;
+  /** Most key zones kept after validation */
+  maxZones: number;
+  /** Number of "if X then Y" scenarios asked for and kept */
+  scenarioCount: number;
+  /** Half-height of a drawn zone band for zones without a volatility band, as a fraction of the zone price (0.008 = ±0.8%) */
+  zoneBandPct: number;
+  /** Decision-card frames below this reward:risk get a warning */
+  minRiskReward: number;
+}
+
+export type AnalysisProfileResult =
+  | { ok: true; profile: AnalysisProfile }
+  | { ok: false; error: string };
+
+// ============================================
+// DEFAULTS & LIMITS
+// ============================================
+
+export const DEFAULT_ANALYSIS_PROFILE: AnalysisProfile = {
+  thresholds: {
+    rangeBox: 0.7,
+    pivots: 0.7,
+    fakeouts: 0.7,
+    trendlines: 0.7,
+    patterns: 0.7,
+    divergences: 0.7,
+  },
+  maxZones: 4,
+  scenarioCount: 2,
+  zoneBandPct: 0.008,
+  minRiskReward: 1.5,
+};
+
+/** Allowed range for each numeric setting (inclusive) */
+export const ANALYSIS_PROFILE_LIMITS = {
+  threshold: { min: 0, max: 1 },
+  maxZones: { min: 2, max: 8 },
+  scenarioCount: { min: 1, max: 4 },
+  zoneBandPct: { min: 0.001, max: 0.05 },
+  minRiskReward: { min: 0.5, max: 5 },
+};
+
+// ============================================
+// PARSING
+// ============================================
+
+/**
+ * Validate a (possibly partial) profile and fill in defaults.
+ *
+ * Missing fields take their DEFAULT_ANALYSIS_PROFILE value; present fields
+ * must be numbers inside ANALYSIS_PROFILE_LIMITS (counts must be integers).
+ *
+ * @param value - Profile from a request body or localStorage
+ */
+export function parseAnalysisProfile(value: unknown): AnalysisProfileResult {
+  if (value === undefined || value === null) return { ok: true, profile: DEFAULT_ANALYSIS_PROFILE };
+  if (typeof value !== "object" || Array.isArray(value)) return { ok: false, error: "profile must be an object" };
+
+  const raw = value as Record<string, unknown>;
+  const rawThresholds = raw.thresholds ?? {};
+  if (typeof rawThresholds !== "object" || rawThresholds === null || Array.isArray(rawThresholds)) {
+    return { ok: false, error: "profile.thresholds must be an object" };
+  }
+  const thresholdInput = rawThresholds as Record<string, unknown>;
+
+  const { threshold, maxZones, scenarioCount, zoneBandPct, minRiskReward } = ANALYSIS_PROFILE_LIMITS;
+  const defaults = DEFAULT_ANALYSIS_PROFILE;
+  const fields = [
+    readSetting(thresholdInput.rangeBox, "thresholds.rangeBox", defaults.thresholds.rangeBox, threshold, false),
+    readSetting(thresholdInput.pivots, "thresholds.pivots", defaults.thresholds.pivots, threshold, false),
+    readSetting(thresholdInput.fakeouts, "thresholds.fakeouts", defaults.thresholds.fakeouts, threshold, false),
+    readSetting(thresholdInput.trendlines, "thresholds.trendlines", defaults.thresholds.trendlines, threshold, false),
+    readSetting(thresholdInput.patterns, "thresholds.patterns", defaults.thresholds.patterns, threshold, false),
+    readSetting(thresholdInput.divergences, "thresholds.divergences", defaults.thresholds.divergences, threshold, false),
+    readSetting(raw.maxZones, "maxZones", defaults.maxZones, maxZones, true),
+    readSetting(raw.scenarioCount, "scenarioCount", defaults.scenarioCount, scenarioCount, true),
+    readSetting(raw.zoneBandPct, "zoneBandPct", defaults.zoneBandPct, zoneBandPct, false),
+    readSetting(raw.minRiskReward, "minRiskReward", defaults.minRiskReward, minRiskReward, false),
+  ];
+
+  const failed = fields.find(f => typeof f === "string");
+  if (typeof failed === "string") return { ok: false, error: failed };
+  const [rangeBox, pivots, fakeouts, trendlines, patterns, divergences, zones, scenarios, band, riskReward] = fields as number[];
+
+  return {
+    ok: true,
+    profile: {
+      thresholds: { rangeBox, pivots, fakeouts, trendlines, patterns, divergences },
+      maxZones: zones,
+      scenarioCount: scenarios,
+      zoneBandPct: band,
+      minRiskReward: riskReward,
+    },
+  };
+}
+
+/**
+ * Read one numeric setting: the value, its default when absent, or an error message.
+ */
+function readSetting(
+  value: unknown,
+  path: string,
+  fallback: number,
+  limits: { min: number; max: number },
+  integer: boolean
+): number | string {
+  if (value === undefined) return fallback;
+  const valid = typeof value === "number" && Number.isFinite(value) && (!integer || Number.isInteger(value));
+  if (!valid || value < limits.min || value > limits.max) {
+    return `profile.${path} must be ${integer ? "an integer" : "a number"} from ${limits.min} to ${limits.max}`;
+  }
+  return value;
+}
@@ -0,0 +1,1085 @@
+/**
+ * Analysis Result Module
+ * ======================
+ *
+ * The ChartAnalysis shape and the pure functions that work on it, split
+ * from chart-analysis.ts so the browser can use them without pulling in
+ * the model provider:
+ *
+ * | Export                   | Used for                                      |
+ * |--------------------------|-----------------------------------------------|
+ * | ChartAnalysis + types    | API responses, saved history, the card        |
+ * | validateAnalysis         | Re-gating a stored analysis under a profile   |
+ * | generateAnnotationPlan   | Canvas overlay (ChartOverlayRenderer)         |
+ * | analysisFromPartial      | Rendering a streamed, half-finished analysis  |
+ * | createEmptyAnalysis      | Failed runs and failed requests               |
+ *
+ * Nothing here calls a model or reads the environment. The pipeline that
+ * produces a ChartAnalysis (analyzeChart, annotateChart) stays in
+ * chart-analysis.ts and is server-only.
+ *
+ * ## Usage
+ * ```typescript
+ * const { display } = validateAnalysis(saved.analysis, strictProfile);
+ * const plan = generateAnnotationPlan(display, strictProfile);
+ * ```
+ *
+ * @module analysis-result
+ */
+
+import { AnalysisProfile, DEFAULT_ANALYSIS_PROFILE } from "./analysis-profile";
+import type { FieldError } from "./analysis-schema";
+import type { XAxisCalibration, YAxisCalibration } from "./chart-calibration";
+import type { ImageTransform } from "./image-intake";
+import type { StructuralCheck } from "./level-engine";
+import type { OhlcvSummary } from "./ohlcv";
+import type { ZoneVerification } from "./zone-verification";
+import type { VolatilityEstimate } from "./zone-bands";
+import type { AnalysisTrace, TraceRecorder } from "./analysis-trace";
+import type { PromptVersion } from "./prompt-registry";
+
+// ============================================
+// TYPE DEFINITIONS
+// ============================================
+
+/**
+ * A key price zone where the market has reacted historically.
+ * 
+ * @example
+ * {
+ *   price: 94200,
+ *   label: "March low",
+ *   significance: "Bounced 3x in Q1",
+ *   type: "support",
+ *   strength: "strong"
+ * }
+ */
+export interface KeyZone {
+  /** The price level of this zone (read from Y-axis) */
+  price: number;
+  /** Bottom of the zone's band, sized from volatility (see zone-bands.ts) */
+  priceLow?: number;
+  /** Top of the zone's band */
+  priceHigh?: number;
+  /** Short descriptive label: "Prior resistance", "Gap fill", "Breakdown origin" */
+  label: string;
+  /** Why this zone matters - historical context */
+  significance: string;
+  /** Whether this is a support or resistance zone */
+  type: "support" | "resistance";
+  /** Strength based on touch count: weak (1), moderate (2), strong (3+) */
+  strength: "weak" | "moderate" | "strong";
+  /** Share of requested consensus samples that found this zone (0-1, consensus mode only) */
+  confidence?: number;
+  /** Candles that reacted at this level, left to right */
+  touches?: ZoneTouch[];
+  /** ISO timestamp of the most recent touch (from OHLCV data if attached, else the time axis) */
+  lastTestedAt?: string;
+  /** Where the zone's facts come from: counted in attached candles, or read off the image */
+  dataSource?: "ohlcv" | "image_only";
+  /** Touch count and exact band from attached OHLCV data */
+  verification?: ZoneVerification;
+  /** Whether swing structure in attached OHLCV data backs this zone (see level-engine.ts) */
+  structurallyBacked?: boolean;
+  /** Why validation flagged this zone (kept, but suspicious) */
+  warning?: string;
+}
+
+/**
+ * Where on the chart a zone was touched.
+ */
+export interface ZoneTouch {
+  /** Horizontal position of the candle (0 = left of image, 1 = right) */
+  x: number;
+  /** Approximate ISO timestamp of the candle (needs a time-axis calibration) */
+  time?: string;
+}
+
+/**
+ * A conditional scenario describing what might happen.
+ * NOT a prediction - just "if X then Y" reasoning.
+ * 
+ * @example
+ * {
+ *   condition: "If price breaks above $98,500...",
+ *   implication: "...buyers have reclaimed control, range breakout confirmed"
+ * }
+ */
+export interface Scenario {
+  /** The trigger condition: "If price breaks above 185..." */
+  condition: string;
+  /** What it means (NOT a target): "...buyers reclaimed control" */
+  implication: string;
+}
+
+/**
+ * Market regime classification.
+ * Every analysis MUST include a regime.
+ */
+export interface Regime {
+  /** The current market state */
+  type: "trending_up" | "trending_down" | "ranging" | "breakout" | "breakdown";
+  /** Confidence in this classification (0-1) */
+  confidence: number;
+}
+
+/**
+ * Range box for ranging markets.
+ * Only populated when regime is "ranging".
+ */
+export interface RangeBox {
+  /** Upper bound of the range (resistance) */
+  high: number;
+  /** Lower bound of the range (support) */
+  low: number;
+  /** Confidence in range detection (0-1) */
+  confidence: number;
+}
+
+/**
+ * A pivot point in market structure.
+ * Used to identify higher highs/lows or lower highs/lows.
+ */
+export interface PivotPoint {
+  /** The price of this pivot */
+  price: number;
+  /** Pivot classification */
+  label: "HH" | "HL" | "LH" | "LL";
+  /** Horizontal position of the pivot candle (0 = left of image, 1 = right) */
+  x?: number;
+  /** Approximate ISO timestamp of the pivot candle */
+  time?: string;
+}
+
+/**
+ * Collection of pivot points with confidence.
+ * Only populated when regime is trending.
+ */
+export interface Pivots {
+  /** Array of identified pivot points */
+  points: PivotPoint[];
+  /** Confidence in pivot detection (0-1) */
+  confidence: number;
+}
+
+/**
+ * A failed breakout (fakeout) pattern.
+ * High-value signal when detected.
+ */
+export interface Fakeout {
+  /** The price level that was faked out */
+  level: number;
+  /** Direction of the failed break */
+  direction: "above" | "below";
+  /** Confidence in fakeout detection (0-1) */
+  confidence: number;
+  /** Horizontal position of the fakeout candle (0 = left of image, 1 = right) */
+  x?: number;
+  /** Approximate ISO timestamp of the fakeout candle */
+  time?: string;
+}
+
+/**
+ * A swing point a trendline is drawn through.
+ */
+export interface TrendlineAnchor {
+  /** Horizontal position of the candle (0 = left of image, 1 = right) */
+  x: number;
+  /** Price the line touches at that candle (wick low for support, wick high for resistance) */
+  price: number;
+  /** Approximate ISO timestamp of the candle */
+  time?: string;
+}
+
+/**
+ * A sloped support or resistance line.
+ *
+ * Any two points make a line, so a line through only two anchors is a
+ * "candidate"; a third anchor confirms it.
+ *
+ * @example
+ * {
+ *   type: "resistance",
+ *   label: "November downtrend",
+ *   anchors: [{ x: 0.30, price: 99800 }, { x: 0.55, price: 98900 }, { x: 0.81, price: 98100 }],
+ *   touches: 3,
+ *   status: "confirmed",
+ *   confidence: 0.72
+ * }
+ */
+export interface Trendline {
+  /** Which side of price the line is acting on */
+  type: "support" | "resistance";
+  /** Short descriptive label: "Rally support", "November downtrend" */
+  label: string;
+  /** Swing points the line passes through, left to right (2 or more) */
+  anchors: TrendlineAnchor[];
+  /** Candles that reacted at the line (at least the number of anchors) */
+  touches: number;
+  /** "candidate" with two anchors, "confirmed" with three or more */
+  status: "candidate" | "confirmed";
+  /** Confidence in the line (0-1) */
+  confidence: number;
+  /** Why validation flagged this line (kept, but suspicious) */
+  warning?: string;
+}
+
+/**
+ * Two parallel-ish trendlines price is travelling between.
+ */
+export interface Channel {
+  /** Slope of the channel */
+  direction: "ascending" | "descending";
+  /** Upper boundary (resistance) */
+  upper: Trendline;
+  /** Lower boundary (support) */
+  lower: Trendline;
+  /** "candidate" if either boundary is only a two-point line */
+  status: "candidate" | "confirmed";
+  /** Confidence in the channel (0-1) */
+  confidence: number;
+}
+
+/**
+ * A key point of a chart pattern: a swing that defines its shape.
+ */
+export interface PatternPoint {
+  /** Horizontal position of the candle (0 = left of image, 1 = right) */
+  x: number;
+  /** Price at that swing */
+  price: number;
+  /** Role in the pattern: "Left shoulder", "Head", "Top 1", "Flagpole base"... */
+  label?: string;
+  /** Approximate ISO timestamp of the candle */
+  time?: string;
+}
+
+/**
+ * A classical chart pattern.
+ *
+ * @example
+ * {
+ *   type: "double_bottom",
+ *   points: [{ x: 0.67, price: 94250, label: "Bottom 1" }, { x: 0.81, price: 98100, label: "Neckline" }, { x: 0.88, price: 94300, label: "Bottom 2" }],
+ *   breakoutLevel: 98100,
+ *   state: "forming",
+ *   confidence: 0.74
+ * }
+ */
+export interface ChartPattern {
+  type:
+    | "bull_flag" | "bear_flag" | "pennant"
+    | "rising_wedge" | "falling_wedge"
+    | "ascending_triangle" | "descending_triangle" | "symmetrical_triangle"
+    | "head_and_shoulders" | "inverse_head_and_shoulders"
+    | "double_top" | "double_bottom";
+  /** Swings that define the shape, left to right (2 or more) */
+  points: PatternPoint[];
+  /** Price whose break completes the pattern (neckline, flag edge, triangle side) */
+  breakoutLevel: number;
+  /** Still forming, broken out as expected, or broken out and reversed */
+  state: "forming" | "confirmed" | "failed";
+  /** Confidence in the pattern (0-1) */
+  confidence: number;
+  /** Why validation flagged this pattern (kept, but suspicious) */
+  warning?: string;
+}
+
+/**
+ * Which way each pattern resolves when it completes.
+ * Pennants and symmetrical triangles break either way.
+ */
+export const PATTERN_BIAS: Record<ChartPattern["type"], "bullish" | "bearish" | "neutral"> = {
+  bull_flag: "bullish",
+  bear_flag: "bearish",
+  pennant: "neutral",
+  rising_wedge: "bearish",
+  falling_wedge: "bullish",
+  ascending_triangle: "bullish",
+  descending_triangle: "bearish",
+  symmetrical_triangle: "neutral",
+  head_and_shoulders: "bearish",
+  inverse_head_and_shoulders: "bullish",
+  double_top: "bearish",
+  double_bottom: "bullish",
+};
+
+/**
+ * RSI read from an indicator pane under the price chart.
+ */
+export interface RsiReading {
+  /** Latest RSI value (0-100) */
+  value: number;
+  /** Derived from the value with RSI_LEVELS (analysis-schema) */
+  state: "overbought" | "oversold" | "neutral";
+}
+
+/**
+ * MACD read from an indicator pane.
+ */
+export interface MacdReading {
+  /** Most recent signal-line cross still in effect ("none" if the lines are tangled or flat) */
+  cross: "bullish" | "bearish" | "none";
+  /** Whether the MACD line is above the zero line */
+  aboveZero?: boolean;
+  /** Histogram bars growing or shrinking over the last few candles */
+  histogram?: "expanding" | "contracting";
+}
+
+/**
+ * Volume read from the volume bars (pane or overlay).
+ */
+export interface VolumeReading {
+  /** Direction of volume over the recent swing */
+  trend: "rising" | "falling" | "flat";
+  /** Latest bar is well above the recent average */
+  spike?: boolean;
+}
+
+/**
+ * Price and an indicator disagreeing between two swings.
+ *
+ * Bullish: price made a lower low, the indicator a higher low.
+ * Bearish: price made a higher high, the indicator a lower high.
+ */
+export interface Divergence {
+  indicator: "rsi" | "macd";
+  type: "bullish" | "bearish";
+  /** The two price swings compared, left to right */
+  pricePoints: [PatternPoint, PatternPoint];
+  /** Confidence in the reading (0-1) */
+  confidence: number;
+}
+
+/**
+ * Structured readings of the indicator panes in the screenshot.
+ * Each reading is present only if its pane was found.
+ */
+export interface IndicatorReadings {
+  /** Panes detected under (or on) the price chart */
+  panes: ("rsi" | "macd" | "volume")[];
+  rsi?: RsiReading;
+  macd?: MacdReading;
+  volume?: VolumeReading;
+  /** Divergences that passed the price-swing check */
+  divergences?: Divergence[];
+}
+
+/**
+ * A validation gate decision the user should be able to see.
+ */
+export interface ValidationIssue {
+  /** What was checked: "Support 'Range low'", "Pivot HH", "Range box"... */
+  item: string;
+  /** The price that failed the check */
+  price: number;
+  /** Rejected items were removed; flagged items were kept with a warning */
+  action: "rejected" | "flagged";
+  /** Human-readable reason */
+  reason: string;
+}
+
+/** Sections of an analysis, in the order they stream in */
+export type AnalysisSection = "story" | "regime" | "zones" | "scenarios";
+
+export const ANALYSIS_SECTIONS: AnalysisSection[] = ["story", "regime", "zones", "scenarios"];
+
+/**
+ * The validated part of an analysis that has streamed in so far.
+ */
+export type PartialAnalysis = Partial<Pick<
+  ChartAnalysis,
+  "story" | "currentContext" | "regime" | "keyZones" | "scenarios" | "invalidation" | "currentPrice" | "symbol" | "timeframe"
+>>;
+
+/**
+ * Streaming progress event from analyzeChart().
+ */
+export interface AnalysisProgress {
+  /** Section that just became available */
+  section: AnalysisSection;
+  /** Everything validated so far - each event supersedes the previous one */
+  analysis: PartialAnalysis;
+}
+
+/**
+ * One line of the `/api/analyze` NDJSON stream: any number of partials,
+ * then exactly one result.
+ */
+export type AnalysisStreamEvent =
+  | ({ type: "partial" } & AnalysisProgress)
+  | { type: "result"; analysis: ChartAnalysis };
+
+/**
+ * How a consensus analysis was assembled.
+ * Only present on results from analyzeChartConsensus().
+ */
+export interface ConsensusInfo {
+  /** Analyses requested */
+  samples: number;
+  /** Analyses that succeeded and were merged */
+  succeeded: number;
+  /** Samples a zone needed to appear in to be kept */
+  quorum: number;
+  /** Relative price tolerance used to cluster zones */
+  tolerancePct: number;
+  /** Share of requested samples that voted for the chosen regime (0-1) */
+  regimeAgreement: number;
+  /**
+   * Fewer samples succeeded than the quorum, so nothing was merged: the
+   * zones are one sample's read, not agreement
+   */
+  degraded: boolean;
+}
+
+/**
+ * One screenshot's read in a multi-timeframe analysis.
+ */
+export interface TimeframeRead {
+  /** Timeframe read from the chart ("1D", "4H"), or "Chart N" if unreadable */
+  timeframe: string;
+  /** Position of the screenshot in the submitted list */
+  imageIndex: number;
+  /** Whether this is the chart the rest of the analysis (story, zones, overlay) comes from */
+  primary: boolean;
+  /** Whether this timeframe's analysis succeeded */
+  success: boolean;
+  /** Why it failed */
+  error?: string;
+  regime: Regime;
+  currentPrice: number;
+}
+
+/**
+ * A level from the merged multi-timeframe zone list.
+ */
+export interface MultiTimeframeZone extends KeyZone {
+  /** Timeframes that reported this level, highest first */
+  timeframes: string[];
+}
+
+/**
+ * How the timeframes of a multi-timeframe analysis fit together.
+ * Only present on results from analyzeMultiTimeframe().
+ */
+export interface MultiTimeframeInfo {
+  /** One read per screenshot, highest timeframe first */
+  timeframes: TimeframeRead[];
+  /**
+   * aligned: every timeframe points the same way (or all range)
+   * mixed: some trend, others range
+   * conflicting: at least one points up and another down
+   */
+  alignment: "aligned" | "mixed" | "conflicting";
+  /** One-line read of the alignment, e.g. "1D and 4H point up, 1H is ranging" */
+  summary: string;
+  /** Zones from every timeframe, clustered; levels seen on more timeframes first */
+  zones: MultiTimeframeZone[];
+  /** Problems with the set of charts, e.g. "Charts show different symbols: BTC/USD, ETH/USD" */
+  warnings: string[];
+}
+
+/** Screenshots accepted per multi-timeframe analysis */
+export const MULTI_TIMEFRAME_LIMITS = { min: 2, max: 4 };
+
+// ============================================
+// MAIN ANALYSIS TYPE
+// ============================================
+
+/**
+ * Complete chart analysis result.
+ * This is the main output type from analyzeChart().
+ * 
+ * ## Required Fields (always present)
+ * - story: Narrative of what happened
+ * - currentContext: Where we are now
+ * - keyZones: 2 to profile.maxZones key price levels
+ * - scenarios: profile.scenarioCount if/then conditionals
+ * - invalidation: What would change the thesis
+ * - regime: Market state classification
+ * 
+ * ## Conditional Fields (only if detected with confidence)
+ * - rangeBox: If market is ranging
+ * - pivots: If market is trending
+ * - fakeouts: If failed breakouts visible
+ * - trendlines / channels: If sloped structure is visible
+ * - patterns: If a classical chart pattern is visible
+ * - indicators: If RSI / MACD / volume panes are visible
+ */
+export interface ChartAnalysis {
+  // === REQUIRED: The Narrative ===
+  /** 2-3 sentence story of what happened on this chart */
+  story: string;
+  /** Where price is NOW in that story */
+  currentContext: string;
+  
+  // === REQUIRED: Structural Levels ===
+  /** 2 to profile.maxZones zones where price has reacted historically */
+  keyZones: KeyZone[];
+  
+  // === REQUIRED: Conditional Thinking ===
+  /** Exactly profile.scenarioCount "if X then Y" scenarios */
+  scenarios: Scenario[];
+  
+  // === REQUIRED: Risk Management ===
+  /** What would completely invalidate this thesis */
+  invalidation: string;
+  
+  // === REQUIRED: Regime Classification ===
+  /** Current market regime with confidence */
+  regime: Regime;
+  
+  // === CONDITIONAL: Only if detected ===
+  /** Range bounds (only if regime is "ranging") */
+  rangeBox?: RangeBox;
+  /** Pivot points (only if regime is trending) */
+  pivots?: Pivots;
+  /** Failed breakouts (if visible with confidence) */
+  fakeouts?: Fakeout[];
+  /** Sloped support/resistance lines (each gated by confidence) */
+  trendlines?: Trendline[];
+  /** Channels (each gated by confidence) */
+  channels?: Channel[];
+  /** Classical chart patterns (each gated by confidence) */
+  patterns?: ChartPattern[];
+  /** RSI / MACD / volume readings, if indicator panes are visible */
+  indicators?: IndicatorReadings;
+  
+  // === METADATA ===
+  /** Current price read from chart */
+  currentPrice: number;
+  /** Ticker symbol if visible (e.g., "BTC/USD") */
+  symbol?: string;
+  /** Timeframe if visible (e.g., "4H", "1D") */
+  timeframe?: string;
+  /** Price → pixel-row mapping fitted from the Y-axis labels (absent if unreadable) */
+  yAxis?: YAxisCalibration;
+  /** Time → pixel-column mapping fitted from the time-axis labels (absent if unreadable) */
+  xAxis?: XAxisCalibration;
+  /** ISO timestamp of when analysis was performed */
+  analyzedAt: string;
+  
+  // === STATUS ===
+  /** Whether analysis succeeded */
+  success: boolean;
+  /** Error message if failed */
+  error?: string;
+  /** Fields/items dropped or defaulted by the response validator */
+  fieldErrors?: FieldError[];
+  /** Repair round-trips needed before the response parsed (0 = first try) */
+  repairAttempts?: number;
+  /** Items the validation gates rejected or flagged, with reasons */
+  validationIssues?: ValidationIssue[];
+  /** Sample/agreement metadata when produced by consensus mode */
+  consensus?: ConsensusInfo;
+  /** Per-timeframe regimes and cross-timeframe zones when several screenshots were analyzed */
+  multiTimeframe?: MultiTimeframeInfo;
+  /** Candle data the zones were verified against (see zone-verification.ts) */
+  ohlcv?: OhlcvSummary;
+  /** Typical candle range the zone bands were sized from */
+  volatility?: VolatilityEstimate;
+  /** Deterministic levels from the candle data, and what the model missed */
+  structure?: StructuralCheck;
+  /** Crop/scale applied before analysis; axis coordinates are relative to the prepared image */
+  imageTransform?: ImageTransform;
+  /** Prompt template the analysis was produced with (see prompt-registry.ts) */
+  promptVersion?: PromptVersion;
+  /** What happened during the run: prompt version, model, raw response, gate decisions */
+  trace?: AnalysisTrace;
+}
+
+// ============================================
+// CONFIDENCE THRESHOLDS FOR DISPLAY
+// ============================================
+
+/**
+ * Result of validation layer.
+ * Separates what users see from what was detected.
+ */
+export interface ValidatedAnalysis {
+  /** Filtered analysis for display (low-confidence patterns removed) */
+  display: ChartAnalysis;
+  /** Full analysis for debugging (includes all patterns) */
+  logged: ChartAnalysis;
+  /** What was filtered and why */
+  filtered: {
+    rangeBox: boolean;
+    pivots: boolean;
+    fakeouts: boolean;
+    trendlines: boolean;
+    channels: boolean;
+    patterns: boolean;
+    divergences: boolean;
+    reasons: string[];
+  };
+}
+
+/**
+ * Apply confidence-based filtering to analysis results.
+ * Removes patterns below the profile's thresholds and records each removal
+ * in `display.validationIssues`.
+ * 
+ * analyzeChart() runs this as its last step; call it again with a different
+ * profile to re-gate a stored analysis.
+ * 
+ * @param raw - The raw analysis from the model
+ * @param profile - Thresholds to apply (default: DEFAULT_ANALYSIS_PROFILE)
+ * @param trace - Records each keep/reject decision (analyzeChart passes its run's trace)
+ * @returns ValidatedAnalysis with filtered display version
+ */
+export function validateAnalysis(
+  raw: ChartAnalysis,
+  profile: AnalysisProfile = DEFAULT_ANALYSIS_PROFILE,
+  trace?: TraceRecorder
+): ValidatedAnalysis {
+  trace?.stage("Validation Layer - Display Gating");
+  const { thresholds } = profile;
+  
+  const filtered = {
+    rangeBox: false,
+    pivots: false,
+    fakeouts: false,
+    trendlines: false,
+    channels: false,
+    patterns: false,
+    divergences: false,
+    reasons: [] as string[],
+  };
+  const issues: ValidationIssue[] = [];
+  const pct = (value: number) => `${(value * 100).toFixed(0)}%`;
+  // Keep or reject one item, recording the decision either way
+  const passes = (item: string, price: number, confidence: number, threshold: number) => {
+    if (confidence >= threshold) {
+      trace?.gate({ gate: "confidence", item, price, decision: "kept", reason: `Confidence ${pct(confidence)} >= ${pct(threshold)}` });
+      return true;
+    }
+    const reason = `Confidence ${pct(confidence)} < ${pct(threshold)} threshold`;
+    issues.push({ item, price, action: "rejected", reason });
+    trace?.gate({ gate: "confidence", item, price, decision: "rejected", reason });
+    return false;
+  };
+  
+  // Start with full analysis for display
+  const display: ChartAnalysis = { ...raw };
+  
+  // Gate rangeBox by confidence
+  if (raw.rangeBox && !passes("Range box", raw.rangeBox.high, raw.rangeBox.confidence, thresholds.rangeBox)) {
+    display.rangeBox = undefined;
+    filtered.rangeBox = true;
+    filtered.reasons.push(`RangeBox filtered: ${pct(raw.rangeBox.confidence)} < ${pct(thresholds.rangeBox)} threshold`);
+  }
+  
+  // Gate pivots by confidence (all points share the structure's confidence)
+  if (raw.pivots) {
+    const { confidence, points } = raw.pivots;
+    const kept = points.filter(p => passes(`Pivot ${p.label}`, p.price, confidence, thresholds.pivots));
+    if (kept.length === 0) {
+      display.pivots = undefined;
+      filtered.pivots = true;
+      filtered.reasons.push(`Pivots filtered: ${pct(confidence)} < ${pct(thresholds.pivots)} threshold (hidden)`);
+    }
+  }
+  
+  // Gate fakeouts one by one
+  if (raw.fakeouts && raw.fakeouts.length > 0) {
+    const kept = raw.fakeouts.filter(f => {
+      if (passes(`Fakeout ${f.direction}`, f.level, f.confidence, thresholds.fakeouts)) return true;
+      filtered.reasons.push(`Fakeout ${f.direction} $${f.level} filtered: ${pct(f.confidence)} < ${pct(thresholds.fakeouts)} threshold (hidden)`);
+      return false;
+    });
+    display.fakeouts = kept.length > 0 ? kept : undefined;
+    filtered.fakeouts = kept.length === 0;
+  }
+  
+  // Gate trendlines one by one
+  if (raw.trendlines && raw.trendlines.length > 0) {
+    const kept = raw.trendlines.filter(line => {
+      if (passes(trendlineName(line), line.anchors[line.anchors.length - 1].price, line.confidence, thresholds.trendlines)) return true;
+      filtered.reasons.push(`Trendline '${line.label}' filtered: ${pct(line.confidence)} < ${pct(thresholds.trendlines)} threshold (hidden)`);
+      return false;
+    });
+    display.trendlines = kept.length > 0 ? kept : undefined;
+    filtered.trendlines = kept.length === 0;
+  }
+  
+  // Gate channels one by one (same threshold as trendlines)
+  if (raw.channels && raw.channels.length > 0) {
+    const kept = raw.channels.filter(channel => {
+      if (passes(channelName(channel), channel.upper.anchors[channel.upper.anchors.length - 1].price, channel.confidence, thresholds.trendlines)) return true;
+      filtered.reasons.push(`${channelName(channel)} filtered: ${pct(channel.confidence)} < ${pct(thresholds.trendlines)} threshold (hidden)`);
+      return false;
+    });
+    display.channels = kept.length > 0 ? kept : undefined;
+    filtered.channels = kept.length === 0;
+  }
+  
+  // Gate chart patterns one by one
+  if (raw.patterns && raw.patterns.length > 0) {
+    const kept = raw.patterns.filter(pattern => {
+      if (passes(patternName(pattern), pattern.breakoutLevel, pattern.confidence, thresholds.patterns)) return true;
+      filtered.reasons.push(`${patternName(pattern)} filtered: ${pct(pattern.confidence)} < ${pct(thresholds.patterns)} threshold (hidden)`);
+      return false;
+    });
+    display.patterns = kept.length > 0 ? kept : undefined;
+    filtered.patterns = kept.length === 0;
+  }
+  
+  // Gate divergences one by one; the pane readings themselves are always shown
+  const divergences = raw.indicators?.divergences;
+  if (raw.indicators && divergences && divergences.length > 0) {
+    const kept = divergences.filter(d => {
+      if (passes(divergenceName(d), d.pricePoints[1].price, d.confidence, thresholds.divergences)) return true;
+      filtered.reasons.push(`${divergenceName(d)} filtered: ${pct(d.confidence)} < ${pct(thresholds.divergences)} threshold (hidden)`);
+      return false;
+    });
+    display.indicators = { ...raw.indicators, divergences: kept.length > 0 ? kept : undefined };
+    filtered.divergences = kept.length === 0;
+  }
+  
+  if (issues.length > 0) {
+    display.validationIssues = [...(raw.validationIssues ?? []), ...issues];
+  }
+  
+  // Summary of what the card will show
+  const count = (items: unknown[] | undefined) => (items ? String(items.length) : "hidden");
+  trace?.info(`Display: ${display.keyZones.length} zones, regime ${display.regime.type}, range box ${display.rangeBox ? "shown" : "hidden"}, pivots ${count(display.pivots?.points)}, fakeouts ${count(display.fakeouts)}`);
+  trace?.info(`Display: trendlines ${count(display.trendlines)}, channels ${count(display.channels)}, patterns ${count(display.patterns)}, divergences ${count(display.indicators?.divergences)}`);
+  
+  return {
+    display,
+    logged: raw,
+    filtered,
+  };
+}
+
+// ============================================
+// ANNOTATION TYPES (for canvas rendering)
+// ============================================
+
+/**
+ * A single annotation mark to draw on the chart.
+ * Used by ChartOverlayRenderer for canvas-based fallback.
+ */
+export interface AnnotationMark {
+  /** Type of mark to draw */
+  type: "zone" | "line" | "label" | "range_box" | "pivot" | "fakeout" | "trendline" | "channel" | "pattern";
+  /** Role determines color scheme */
+  role: "support" | "resistance" | "current_price" | "range" | "channel" | "pattern_bullish" | "pattern_bearish" | "pattern_neutral" | "pivot_hh" | "pivot_hl" | "pivot_lh" | "pivot_ll" | "fakeout_above" | "fakeout_below";
+  /** Price level for single-line marks */
+  price?: number;
+  /** Upper price for zone/range marks */
+  priceHigh?: number;
+  /** Lower price for zone/range marks */
+  priceLow?: number;
+  /** Text label to display */
+  text?: string;
+  /** Line style */
+  style?: "solid" | "dashed";
+  /** Opacity override (0-1) */
+  opacity?: number;
+  /** Horizontal position for pivot/fakeout markers (0-1 of image width) */
+  x?: number;
+  /** Horizontal positions of zone touches or trendline anchors (0-1 of image width) */
+  touches?: number[];
+  /** Ends of a trendline, or a channel's upper boundary */
+  line?: LineSegment;
+  /** A channel's lower boundary */
+  lowerLine?: LineSegment;
+  /** Key points of a chart pattern outline, left to right */
+  points?: { x: number; price: number }[];
+}
+
+/**
+ * Two ends of a sloped line: horizontal position (0-1 of image width) and price.
+ */
+export type LineSegment = [{ x: number; price: number }, { x: number; price: number }];
+
+/**
+ * Complete annotation plan for canvas rendering.
+ * Generated from ChartAnalysis for use with ChartOverlayRenderer.
+ */
+export interface AnnotationPlan {
+  /** Color theme to use */
+  theme: "dark" | "light";
+  /** Short story summary for display */
+  story: string;
+  /** Array of marks to draw */
+  marks: AnnotationMark[];
+}
+
+// ============================================
+// CANVAS FALLBACK: ANNOTATION PLAN
+// ============================================
+
+/**
+ * Generate an annotation plan for canvas-based rendering.
+ * 
+ * Use this when Gemini image generation fails or is unavailable.
+ * The returned plan can be passed to ChartOverlayRenderer component.
+ * 
+ * ## Usage
+ * ```typescript
+ * const analysis = await analyzeChart(imageBase64);
+ * const plan = generateAnnotationPlan(analysis);
+ * 
+ * // In React:
+ * <ChartOverlayRenderer
+ *   imageBase64={imageBase64}
+ *   plan={plan}
+ *   analysis={analysis}
+ * />
+ * ```
+ * 
+ * Patterns are re-gated against the profile, so a stored analysis drawn
+ * under stricter settings hides what those settings would have filtered.
+ * 
+ * @param analysis - ChartAnalysis from analyzeChart()
+ * @param profile - Zone cap, band width and thresholds (default: DEFAULT_ANALYSIS_PROFILE)
+ * @param trace - Records each mark as it is created (optional)
+ * @returns AnnotationPlan for ChartOverlayRenderer
+ */
+export function generateAnnotationPlan(
+  analysis: ChartAnalysis,
+  profile: AnalysisProfile = DEFAULT_ANALYSIS_PROFILE,
+  trace?: TraceRecorder
+): AnnotationPlan {
+  trace?.stage("Generating Canvas Annotation Plan");
+  const { thresholds } = profile;
+  const zones = analysis.keyZones.slice(0, profile.maxZones);
+  
+  const marks: AnnotationMark[] = [];
+  const theme: "dark" | "light" = "dark";
+  
+  trace?.info(`Creating marks for ${zones.length} zones`);
+  
+  // Add zone bands for each key level
+  for (const zone of zones) {
+    // The zone's own volatility band; profile.zoneBandPct each side for zones without one
+    const priceLow = zone.priceLow ?? zone.price * (1 - profile.zoneBandPct);
+    const priceHigh = zone.priceHigh ?? zone.price * (1 + profile.zoneBandPct);
+    
+    // Opacity based on strength
+    const opacity = zone.strength === "strong" ? 0.22 : 
+                   zone.strength === "moderate" ? 0.16 : 0.10;
+    
+    trace?.info(`Zone: $${zone.price} (${zone.type}) - band: $${priceLow.toFixed(2)} to $${priceHigh.toFixed(2)}`);
+    
+    // Add the zone band
+    marks.push({
+      type: "zone",
+      role: zone.type,
+      priceHigh,
+      priceLow,
+      opacity,
+      touches: zone.touches?.map(t => t.x),
+    });
+    
+    // Add label for the zone
+    marks.push({
+      type: "label",
+      role: zone.type,
+      price: zone.price,
+      text: zone.label,
+    });
+  }
+  
+  // Add range box if present
+  if (analysis.rangeBox && analysis.rangeBox.confidence >= thresholds.rangeBox) {
+    trace?.info(`Range box: $${analysis.rangeBox.low} to $${analysis.rangeBox.high}`);
+    marks.push({
+      type: "range_box",
+      role: "range",
+      priceHigh: analysis.rangeBox.high,
+      priceLow: analysis.rangeBox.low,
+      opacity: 0.08, // Very light
+    });
+  }
+  
+  // Add pivot markers if present
+  if (analysis.pivots && analysis.pivots.points.length > 0 && analysis.pivots.confidence >= thresholds.pivots) {
+    for (const pivot of analysis.pivots.points) {
+      const role = `pivot_${pivot.label.toLowerCase()}` as "pivot_hh" | "pivot_hl" | "pivot_lh" | "pivot_ll";
+      trace?.info(`Pivot: ${pivot.label} @ $${pivot.price}`);
+      marks.push({
+        type: "pivot",
+        role,
+        price: pivot.price,
+        text: pivot.label,
+        x: pivot.x,
+      });
+    }
+  }
+  
+  // Add fakeout markers if present
+  if (analysis.fakeouts && analysis.fakeouts.length > 0) {
+    for (const fakeout of analysis.fakeouts.filter(f => f.confidence >= thresholds.fakeouts)) {
+      const role = fakeout.direction === "above" ? "fakeout_above" : "fakeout_below";
+      trace?.info(`Fakeout: ${fakeout.direction} @ $${fakeout.level}`);
+      marks.push({
+        type: "fakeout",
+        role,
+        price: fakeout.level,
+        text: `Fakeout ${fakeout.direction}`,
+        x: fakeout.x,
+      });
+    }
+  }
+  
+  // Add trendlines (two-point candidates dashed), extended to the right edge
+  const segment = (anchors: TrendlineAnchor[]): LineSegment => {
+    const startX = anchors[0].x;
+    return [
+      { x: startX, price: trendlinePriceAt(anchors, startX) },
+      { x: 1, price: trendlinePriceAt(anchors, 1) },
+    ];
+  };
+  for (const line of (analysis.trendlines ?? []).filter(t => t.confidence >= thresholds.trendlines)) {
+    trace?.info(`Trendline: ${line.type} '${line.label}' (${line.status})`);
+    marks.push({
+      type: "trendline",
+      role: line.type,
+      line: segment(line.anchors),
+      text: line.status === "candidate" ? `${line.label} (candidate)` : line.label,
+      style: line.status === "candidate" ? "dashed" : "solid",
+      touches: line.anchors.map(a => a.x),
+    });
+  }
+  
+  // Add channels
+  for (const channel of (analysis.channels ?? []).filter(c => c.confidence >= thresholds.trendlines)) {
+    trace?.info(`Channel: ${channel.direction} (${channel.status})`);
+    marks.push({
+      type: "channel",
+      role: "channel",
+      line: segment(channel.upper.anchors),
+      lowerLine: segment(channel.lower.anchors),
+      text: `${channel.direction === "ascending" ? "Ascending" : "Descending"} channel${channel.status === "candidate" ? " (candidate)" : ""}`,
+      style: channel.status === "candidate" ? "dashed" : "solid",
+    });
+  }
+  
+  // Add chart pattern outlines (forming dashed, failed faded) with their breakout level in `price`
+  for (const pattern of (analysis.patterns ?? []).filter(p => p.confidence >= thresholds.patterns)) {
+    trace?.info(`Pattern: ${pattern.type} (${pattern.state})`);
+    marks.push({
+      type: "pattern",
+      role: `pattern_${PATTERN_BIAS[pattern.type]}`,
+      points: pattern.points.map(p => ({ x: p.x, price: p.price })),
+      price: pattern.breakoutLevel,
+      text: `${patternName(pattern).replace(/ pattern$/, "")} (${pattern.state})`,
+      style: pattern.state === "forming" ? "dashed" : "solid",
+      opacity: pattern.state === "failed" ? 0.4 : 0.9,
+    });
+  }
+  
+  // Add current price line (dashed)
+  if (analysis.currentPrice > 0) {
+    trace?.info(`Current price line: $${analysis.currentPrice}`);
+    marks.push({
+      type: "line",
+      role: "current_price",
+      price: analysis.currentPrice,
+      style: "dashed",
+    });
+  }
+  
+  trace?.info(`Total marks created: ${marks.length}`);
+  
+  return {
+    theme,
+    story: analysis.story,
+    marks,
+  };
+}
+
+// ============================================
+// HELPER FUNCTIONS
+// ============================================
+
+/**
+ * Create an empty/failed analysis result.
+ * Used when API calls fail or return invalid data. Logs nothing - the
+ * caller records why on its trace.
+ * 
+ * @param error - Error message to include
+ * @returns ChartAnalysis with success: false
+ */
+export function createEmptyAnalysis(error?: string): ChartAnalysis {
+  return {
+    story: error || "Unable to analyze chart",
+    currentContext: "Unknown",
+    keyZones: [],
+    scenarios: [
+      { condition: "Unable to determine", implication: "Analysis failed" },
+      { condition: "Unable to determine", implication: "Analysis failed" },
+    ],
+    invalidation: "Unknown",
+    regime: { type: "ranging", confidence: 0 },
+    currentPrice: 0,
+    analyzedAt: new Date().toISOString(),
+    success: false,
+    error,
+  };
+}
+
+/**
+ * Fill out a streamed partial so it can be rendered as a ChartAnalysis.
+ * Sections that haven't arrived are empty; renderers should check which
+ * sections are still pending before showing them.
+ */
+export function analysisFromPartial(partial: PartialAnalysis): ChartAnalysis {
+  return {
+    story: partial.story ?? "",
+    currentContext: partial.currentContext ?? "",
+    keyZones: partial.keyZones ?? [],
+    scenarios: partial.scenarios ?? [],
+    invalidation: partial.invalidation ?? "",
+    regime: partial.regime ?? { type: "ranging", confidence: 0 },
+    currentPrice: partial.currentPrice ?? 0,
+    symbol: partial.symbol,
+    timeframe: partial.timeframe,
+    analyzedAt: new Date().toISOString(),
+    success: true,
+  };
+}
+
+/**
+ * Price of a trendline at a horizontal position.
+ *
+ * The line is a least-squares fit through its anchors, so a slightly
+ * misread third anchor nudges the line rather than kinking it.
+ *
+ * @param anchors - Two or more anchors at different positions
+ * @param x - Horizontal position (0 = left of image, 1 = right)
+ */
+export function trendlinePriceAt(anchors: TrendlineAnchor[], x: number): number {
+  const n = anchors.length;
+  const meanX = anchors.reduce((sum, a) => sum + a.x, 0) / n;
+  const meanPrice = anchors.reduce((sum, a) => sum + a.price, 0) / n;
+  const spread = anchors.reduce((sum, a) => sum + (a.x - meanX) ** 2, 0);
+  const slope = spread > 0
+    ? anchors.reduce((sum, a) => sum + (a.x - meanX) * (a.price - meanPrice), 0) / spread
+    : 0;
+  return meanPrice + slope * (x - meanX);
+}
+
+/** "Support trendline 'Rally support'" - how a trendline is named in validation issues */
+export function trendlineName(line: Trendline): string {
+  return `${line.type === "support" ? "Support" : "Resistance"} trendline '${line.label}'`;
+}
+
+/** "Ascending channel" - how a channel is named in validation issues */
+export function channelName(channel: Channel): string {
+  return `${channel.direction === "ascending" ? "Ascending" : "Descending"} channel`;
+}
+
+/** "Bearish RSI divergence" - how a divergence is named in validation issues */
+export function divergenceName(divergence: Divergence): string {
+  return `${divergence.type === "bullish" ? "Bullish" : "Bearish"} ${divergence.indicator.toUpperCase()} divergence`;
+}
+
+/** "Double bottom pattern" - how a chart pattern is named in validation issues */
+export function patternName(pattern: ChartPattern): string {
+  const name = pattern.type.replace(/_/g, " ");
+  return `${name[0].toUpperCase()}${name.slice(1)} pattern`;
+}
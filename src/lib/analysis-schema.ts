@@ -0,0 +1,999 @@
+/**
+ * Analysis Schema Module
+ * ======================
+ *
+ * Two halves of the same contract for the analysis model's JSON output:
+ *
+ * 1. **CHART_ANALYSIS_RESPONSE_SCHEMA** - JSON Schema sent with the model
+ *    call so providers that support structured output (Gemini) return JSON
+ *    in exactly this shape.
+ * 2. **parseChartAnalysis()** - runtime validator for whatever actually
+ *    comes back. It coerces sloppy values ("94,200", "$94.2k", "85%"),
+ *    rejects invalid enums, and drops individual bad fields/items instead
+ *    of failing the whole analysis. Every drop or coercion failure is
+ *    returned as a field-level error.
+ *
+ * readCompleteFields() reads the finished top-level fields out of a
+ * response that is still streaming in, so parseChartAnalysis() can
+ * validate sections before the whole object has arrived.
+ *
+ * ## Usage
+ * ```typescript
+ * const { value, errors } = parseChartAnalysis(JSON.parse(text));
+ * // value.keyZones only contains zones that passed validation
+ * // errors: [{ path: "keyZones[2].price", message: "...", value: "n/a" }]
+ * ```
+ *
+ * @module analysis-schema
+ */
+
+import type {
+  Channel,
+  ChartPattern,
+  Divergence,
+  Fakeout,
+  IndicatorReadings,
+  KeyZone,
+  PatternPoint,
+  PivotPoint,
+  Pivots,
+  RangeBox,
+  Regime,
+  Scenario,
+  Trendline,
+  TrendlineAnchor,
+} from "./analysis-result";
+import type { AxisLabelReading, PriceScale, TimeAxisLabelReading } from "./chart-calibration";
+
+// ============================================
+// ENUMS
+// ============================================
+
+export const REGIME_TYPES: Regime["type"][] = ["trending_up", "trending_down", "ranging", "breakout", "breakdown"];
+export const PIVOT_LABELS: PivotPoint["label"][] = ["HH", "HL", "LH", "LL"];
+export const ZONE_TYPES: KeyZone["type"][] = ["support", "resistance"];
+export const ZONE_STRENGTHS: KeyZone["strength"][] = ["weak", "moderate", "strong"];
+export const FAKEOUT_DIRECTIONS: Fakeout["direction"][] = ["above", "below"];
+export const CHANNEL_DIRECTIONS: Channel["direction"][] = ["ascending", "descending"];
+export const PATTERN_TYPES: ChartPattern["type"][] = [
+  "bull_flag", "bear_flag", "pennant",
+  "rising_wedge", "falling_wedge",
+  "ascending_triangle", "descending_triangle", "symmetrical_triangle",
+  "head_and_shoulders", "inverse_head_and_shoulders",
+  "double_top", "double_bottom",
+];
+export const PATTERN_STATES: ChartPattern["state"][] = ["forming", "confirmed", "failed"];
+export const PRICE_SCALES: PriceScale[] = ["linear", "log"];
+export const INDICATOR_PANES: IndicatorReadings["panes"] = ["rsi", "macd", "volume"];
+export const MACD_CROSSES: NonNullable<IndicatorReadings["macd"]>["cross"][] = ["bullish", "bearish", "none"];
+export const MACD_HISTOGRAM: NonNullable<NonNullable<IndicatorReadings["macd"]>["histogram"]>[] = ["expanding", "contracting"];
+export const VOLUME_TRENDS: NonNullable<IndicatorReadings["volume"]>["trend"][] = ["rising", "falling", "flat"];
+export const DIVERGENCE_INDICATORS: Divergence["indicator"][] = ["rsi", "macd"];
+export const DIVERGENCE_TYPES: Divergence["type"][] = ["bullish", "bearish"];
+
+/** RSI bands for the overbought/oversold state */
+export const RSI_LEVELS = { overbought: 70, oversold: 30 };
+
+// ============================================
+// RESPONSE SCHEMA (structured output)
+// ============================================
+
+const PRICE = { type: "number", description: "Exact price read from the Y-axis" };
+const CONFIDENCE = { type: "number", minimum: 0, maximum: 1 };
+const X_POSITION = { type: "number", minimum: 0, maximum: 1, description: "Horizontal position: 0 = left of image, 1 = right" };
+const TRENDLINE_ANCHORS = {
+  type: "array",
+  items: {
+    type: "object",
+    properties: {
+      x: X_POSITION,
+      price: PRICE,
+    },
+    required: ["x", "price"],
+  },
+};
+const TOUCH_COUNT = { type: "integer", minimum: 2, description: "Candles that reacted at the line" };
+
+/**
+ * JSON Schema for the analysis response.
+ * Mirrors the JSON template in CHART_ANALYSIS_PROMPT.
+ *
+ * Property order is the order the model writes fields, and so the order
+ * streamed sections arrive in: story → regime → zones → scenarios. The
+ * current price and price axis come before the zones so streamed zones
+ * can go through the same plausibility gates as the final result.
+ */
+export const CHART_ANALYSIS_RESPONSE_SCHEMA = {
+  type: "object",
+  properties: {
+    story: { type: "string" },
+    currentContext: { type: "string" },
+    regime: {
+      type: "object",
+      properties: {
+        type: { type: "string", enum: REGIME_TYPES },
+        confidence: CONFIDENCE,
+      },
+      required: ["type", "confidence"],
+    },
+    currentPrice: PRICE,
+    symbol: { type: ["string", "null"] },
+    timeframe: { type: ["string", "null"] },
+    typicalCandleRange: { type: ["number", "null"], description: "High-to-low size of a typical recent candle, in price" },
+    priceAxis: {
+      type: ["object", "null"],
+      properties: {
+        scale: { type: "string", enum: PRICE_SCALES },
+        labels: {
+          type: "array",
+          items: {
+            type: "object",
+            properties: {
+              price: { type: "number", description: "Price printed on the Y-axis label" },
+              y: { type: "number", minimum: 0, maximum: 1, description: "Vertical center of the label: 0 = top of image, 1 = bottom" },
+            },
+            required: ["price", "y"],
+          },
+        },
+      },
+      required: ["scale", "labels"],
+    },
+    keyZones: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: {
+          price: PRICE,
+          label: { type: "string" },
+          significance: { type: "string" },
+          type: { type: "string", enum: ZONE_TYPES },
+          strength: { type: "string", enum: ZONE_STRENGTHS },
+          touches: { type: "array", items: X_POSITION },
+        },
+        required: ["price", "label", "significance", "type", "strength"],
+      },
+    },
+    scenarios: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: {
+          condition: { type: "string" },
+          implication: { type: "string" },
+        },
+        required: ["condition", "implication"],
+      },
+    },
+    invalidation: { type: "string" },
+    rangeBox: {
+      type: ["object", "null"],
+      properties: {
+        high: PRICE,
+        low: PRICE,
+        confidence: CONFIDENCE,
+      },
+      required: ["high", "low", "confidence"],
+    },
+    pivots: {
+      type: ["object", "null"],
+      properties: {
+        points: {
+          type: "array",
+          items: {
+            type: "object",
+            properties: {
+              price: PRICE,
+              label: { type: "string", enum: PIVOT_LABELS },
+              x: X_POSITION,
+            },
+            required: ["price", "label"],
+          },
+        },
+        confidence: CONFIDENCE,
+      },
+      required: ["points", "confidence"],
+    },
+    fakeouts: {
+      type: ["array", "null"],
+      items: {
+        type: "object",
+        properties: {
+          level: PRICE,
+          direction: { type: "string", enum: FAKEOUT_DIRECTIONS },
+          confidence: CONFIDENCE,
+          x: X_POSITION,
+        },
+        required: ["level", "direction", "confidence"],
+      },
+    },
+    trendlines: {
+      type: ["array", "null"],
+      items: {
+        type: "object",
+        properties: {
+          type: { type: "string", enum: ZONE_TYPES },
+          label: { type: "string" },
+          anchors: TRENDLINE_ANCHORS,
+          touches: TOUCH_COUNT,
+          confidence: CONFIDENCE,
+        },
+        required: ["type", "anchors", "confidence"],
+      },
+    },
+    channels: {
+      type: ["array", "null"],
+      items: {
+        type: "object",
+        properties: {
+          direction: { type: "string", enum: CHANNEL_DIRECTIONS },
+          upper: {
+            type: "object",
+            properties: { anchors: TRENDLINE_ANCHORS, touches: TOUCH_COUNT },
+            required: ["anchors"],
+          },
+          lower: {
+            type: "object",
+            properties: { anchors: TRENDLINE_ANCHORS, touches: TOUCH_COUNT },
+            required: ["anchors"],
+          },
+          confidence: CONFIDENCE,
+        },
+        required: ["direction", "upper", "lower", "confidence"],
+      },
+    },
+    patterns: {
+      type: ["array", "null"],
+      items: {
+        type: "object",
+        properties: {
+          type: { type: "string", enum: PATTERN_TYPES },
+          points: {
+            type: "array",
+            items: {
+              type: "object",
+              properties: {
+                x: X_POSITION,
+                price: PRICE,
+                label: { type: "string", description: "Role in the pattern: 'Head', 'Top 1', 'Neckline'" },
+              },
+              required: ["x", "price"],
+            },
+          },
+          breakoutLevel: PRICE,
+          state: { type: "string", enum: PATTERN_STATES },
+          confidence: CONFIDENCE,
+        },
+        required: ["type", "points", "breakoutLevel", "state", "confidence"],
+      },
+    },
+    indicators: {
+      type: ["object", "null"],
+      properties: {
+        panes: { type: "array", items: { type: "string", enum: INDICATOR_PANES } },
+        rsi: {
+          type: ["object", "null"],
+          properties: { value: { type: "number", minimum: 0, maximum: 100, description: "Latest RSI value" } },
+          required: ["value"],
+        },
+        macd: {
+          type: ["object", "null"],
+          properties: {
+            cross: { type: "string", enum: MACD_CROSSES },
+            aboveZero: { type: "boolean" },
+            histogram: { type: "string", enum: MACD_HISTOGRAM },
+          },
+          required: ["cross"],
+        },
+        volume: {
+          type: ["object", "null"],
+          properties: {
+            trend: { type: "string", enum: VOLUME_TRENDS },
+            spike: { type: "boolean" },
+          },
+          required: ["trend"],
+        },
+        divergences: {
+          type: ["array", "null"],
+          items: {
+            type: "object",
+            properties: {
+              indicator: { type: "string", enum: DIVERGENCE_INDICATORS },
+              type: { type: "string", enum: DIVERGENCE_TYPES },
+              pricePoints: {
+                type: "array",
+                minItems: 2,
+                maxItems: 2,
+                items: {
+                  type: "object",
+                  properties: { x: X_POSITION, price: PRICE },
+                  required: ["x", "price"],
+                },
+              },
+              confidence: CONFIDENCE,
+            },
+            required: ["indicator", "type", "pricePoints", "confidence"],
+          },
+        },
+      },
+      required: ["panes"],
+    },
+    timeAxis: {
+      type: ["object", "null"],
+      properties: {
+        labels: {
+          type: "array",
+          items: {
+            type: "object",
+            properties: {
+              time: { type: "string", description: "ISO 8601 timestamp the X-axis label stands for" },
+              x: X_POSITION,
+            },
+            required: ["time", "x"],
+          },
+        },
+        lastCandleX: X_POSITION,
+      },
+      required: ["labels"],
+    },
+  },
+  required: ["story", "currentContext", "keyZones", "scenarios", "invalidation", "regime", "currentPrice"],
+};
+
+// ============================================
+// PARSE RESULT TYPES
+// ============================================
+
+/**
+ * A single validation problem, addressed by JSON path.
+ */
+export interface FieldError {
+  /** Path into the model output, e.g. "keyZones[1].price" */
+  path: string;
+  /** What was wrong and what we did about it */
+  message: string;
+  /** The offending raw value */
+  value?: unknown;
+}
+
+/**
+ * Validated model output. Every field is optional because any field can be
+ * dropped; callers fill defaults for the required ones.
+ */
+export interface ParsedAnalysis {
+  story?: string;
+  currentContext?: string;
+  keyZones: KeyZone[];
+  scenarios: Scenario[];
+  invalidation?: string;
+  regime?: Regime;
+  rangeBox?: RangeBox;
+  pivots?: Pivots;
+  fakeouts?: Fakeout[];
+  trendlines?: Trendline[];
+  channels?: Channel[];
+  patterns?: ChartPattern[];
+  indicators?: IndicatorReadings;
+  priceAxis?: { scale?: PriceScale; labels: AxisLabelReading[] };
+  timeAxis?: { labels: TimeAxisLabelReading[]; lastCandleX?: number };
+  currentPrice?: number;
+  symbol?: string;
+  timeframe?: string;
+  typicalCandleRange?: number;
+}
+
+export interface ParseResult {
+  value: ParsedAnalysis;
+  errors: FieldError[];
+}
+
+// ============================================
+// VALUE COERCION
+// ============================================
+
+const SUFFIX_MULTIPLIERS: Record<string, number> = { k: 1e3, m: 1e6, b: 1e9 };
+
+/**
+ * Coerce a price-like value to a number.
+ *
+ * Accepts numbers and strings such as "94,200", "$94.2k", "1.5M",
+ * "94 200" and "~$22.40". Returns null for anything that isn't a
+ * finite positive number.
+ */
+export function coercePrice(value: unknown): number | null {
+  if (typeof value === "number") {
+    return Number.isFinite(value) && value > 0 ? value : null;
+  }
+  if (typeof value !== "string") return null;
+
+  const match = value
+    .trim()
+    .replace(/^[~≈]/, "")
+    .replace(/[$€£¥\s]/g, "")
+    .replace(/,/g, "")
+    .match(/^(\d+(?:\.\d+)?|\.\d+)([kmb])?$/i);
+  if (!match) return null;
+
+  const multiplier = match[2] ? SUFFIX_MULTIPLIERS[match[2].toLowerCase()] : 1;
+  const price = parseFloat(match[1]) * multiplier;
+  return Number.isFinite(price) && price > 0 ? price : null;
+}
+
+/**
+ * Coerce a confidence-like value to 0-1.
+ *
+ * Accepts 0.85, "0.85", "85%" and 85 (treated as a percentage).
+ * Bare numbers are percentages only from 2 up - 1.5 is more likely a
+ * misread fraction than 1.5% - so values between 1 and 2, and anything
+ * outside 0-100, return null.
+ */
+export function coerceConfidence(value: unknown): number | null {
+  let num: number;
+  if (typeof value === "number") {
+    num = value;
+  } else if (typeof value === "string") {
+    const trimmed = value.trim();
+    num = parseFloat(trimmed);
+    if (trimmed.endsWith("%")) num /= 100;
+  } else {
+    return null;
+  }
+  if (!Number.isFinite(num) || num < 0) return null;
+  if (num >= 2 && num <= 100) num /= 100;
+  return num <= 1 ? num : null;
+}
+
+/**
+ * Coerce an image position to 0-1.
+ *
+ * Accepts 0.42, "0.42" and "42%". Unlike confidence, a bare number over 1
+ * is not read as a percentage: 1.2 is a point off the image, not 1.2%.
+ * Returns null for anything outside 0-1.
+ */
+export function coercePosition(value: unknown): number | null {
+  let num: number;
+  if (typeof value === "number") {
+    num = value;
+  } else if (typeof value === "string") {
+    const trimmed = value.trim();
+    const isPercent = trimmed.endsWith("%");
+    const digits = isPercent ? trimmed.slice(0, -1).trim() : trimmed;
+    if (digits === "") return null;
+    num = isPercent ? Number(digits) / 100 : Number(digits);
+  } else {
+    return null;
+  }
+  return Number.isFinite(num) && num >= 0 && num <= 1 ? num : null;
+}
+
+function coerceEnum<T extends string>(value: unknown, allowed: readonly T[]): T | null {
+  if (typeof value !== "string") return null;
+  const normalized = value.trim().toLowerCase().replace(/[\s-]+/g, "_");
+  return allowed.find((option) => option.toLowerCase() === normalized) ?? null;
+}
+
+function coerceString(value: unknown): string | undefined {
+  if (typeof value !== "string") return undefined;
+  const trimmed = value.trim();
+  return trimmed && trimmed.toLowerCase() !== "null" ? trimmed : undefined;
+}
+
+/**
+ * Optional horizontal position (0-1). Invalid values are reported and
+ * treated as absent - a missing position never drops the item it's on.
+ */
+function parsePosition(value: unknown, path: string, fail: (path: string, message: string, value?: unknown) => void): number | undefined {
+  if (value === undefined || value === null) return undefined;
+  const x = coercePosition(value);
+  if (x === null) {
+    fail(path, "Position ignored: must be between 0 and 1", value);
+    return undefined;
+  }
+  return x;
+}
+
+function parsePositions(value: unknown, path: string, fail: (path: string, message: string, value?: unknown) => void): number[] {
+  if (!Array.isArray(value)) return [];
+  return value
+    .map((item, i) => parsePosition(item, `${path}[${i}]`, fail))
+    .filter((x): x is number => x !== undefined)
+    .sort((a, b) => a - b);
+}
+
+/**
+ * Anchors and touch count of one sloped line. Bad anchors are dropped one
+ * by one; the line needs two anchors at different positions to survive.
+ */
+function parseLineFit(
+  raw: Record<string, unknown>,
+  path: string,
+  fail: (path: string, message: string, value?: unknown) => void
+): Pick<Trendline, "anchors" | "touches" | "status"> | null {
+  const anchors: TrendlineAnchor[] = [];
+  if (Array.isArray(raw.anchors)) {
+    raw.anchors.forEach((anchor, i) => {
+      const anchorPath = `${path}.anchors[${i}]`;
+      if (!isObject(anchor)) return fail(anchorPath, "Anchor dropped: not an object", anchor);
+      const price = coercePrice(anchor.price);
+      if (price === null) return fail(`${anchorPath}.price`, "Anchor dropped: not a valid price", anchor.price);
+      const x = parsePosition(anchor.x, `${anchorPath}.x`, fail);
+      if (x === undefined) return fail(`${anchorPath}.x`, "Anchor dropped: missing position", anchor.x);
+      anchors.push({ x, price });
+    });
+  }
+  anchors.sort((a, b) => a.x - b.x);
+  if (anchors.length < 2 || anchors[0].x === anchors[anchors.length - 1].x) {
+    fail(`${path}.anchors`, "Line dropped: needs two anchors at different positions", raw.anchors);
+    return null;
+  }
+
+  const reported = typeof raw.touches === "number" ? raw.touches : parseFloat(String(raw.touches));
+  if (raw.touches !== undefined && !Number.isFinite(reported)) {
+    fail(`${path}.touches`, "Invalid touch count, defaulted to the anchor count", raw.touches);
+  }
+  return {
+    anchors,
+    touches: Number.isFinite(reported) ? Math.max(Math.round(reported), anchors.length) : anchors.length,
+    status: anchors.length >= 3 ? "confirmed" : "candidate",
+  };
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+// ============================================
+// PARSER
+// ============================================
+
+/**
+ * Validate raw analysis JSON against the ChartAnalysis contract.
+ *
+ * Never throws. Bad items inside arrays are dropped one by one; bad
+ * optional objects are dropped whole; bad required scalars are left
+ * undefined for the caller to default.
+ *
+ * @param raw - Parsed JSON from the model
+ * @returns The validated value plus every field-level error
+ */
+export function parseChartAnalysis(raw: unknown): ParseResult {
+  const errors: FieldError[] = [];
+  const fail = (path: string, message: string, value?: unknown) => {
+    errors.push({ path, message, value });
+  };
+
+  if (!isObject(raw)) {
+    fail("", "Response is not a JSON object", raw);
+    return { value: { keyZones: [], scenarios: [] }, errors };
+  }
+
+  const value: ParsedAnalysis = { keyZones: [], scenarios: [] };
+
+  // --- Narrative strings ---
+  for (const field of ["story", "currentContext", "invalidation"] as const) {
+    const str = coerceString(raw[field]);
+    if (str) value[field] = str;
+    else if (raw[field] !== undefined) fail(field, "Expected a non-empty string", raw[field]);
+  }
+  value.symbol = coerceString(raw.symbol);
+  value.timeframe = coerceString(raw.timeframe);
+  if (raw.typicalCandleRange !== undefined && raw.typicalCandleRange !== null) {
+    const range = coercePrice(raw.typicalCandleRange);
+    if (range !== null) value.typicalCandleRange = range;
+    else fail("typicalCandleRange", "Not a valid price range", raw.typicalCandleRange);
+  }
+
+  // --- Current price ---
+  if (raw.currentPrice !== undefined && raw.currentPrice !== null) {
+    const price = coercePrice(raw.currentPrice);
+    if (price !== null) value.currentPrice = price;
+    else fail("currentPrice", "Not a valid price", raw.currentPrice);
+  }
+
+  // --- Key zones ---
+  if (Array.isArray(raw.keyZones)) {
+    raw.keyZones.forEach((zone, i) => {
+      const path = `keyZones[${i}]`;
+      if (!isObject(zone)) return fail(path, "Zone dropped: not an object", zone);
+      const price = coercePrice(zone.price);
+      if (price === null) return fail(`${path}.price`, "Zone dropped: not a valid price", zone.price);
+      const type = coerceEnum(zone.type, ZONE_TYPES);
+      if (!type) return fail(`${path}.type`, `Zone dropped: type must be one of ${ZONE_TYPES.join(", ")}`, zone.type);
+      const strength = coerceEnum(zone.strength, ZONE_STRENGTHS);
+      if (!strength && zone.strength !== undefined) {
+        fail(`${path}.strength`, "Invalid strength, defaulted to weak", zone.strength);
+      }
+      const touches = parsePositions(zone.touches, `${path}.touches`, fail);
+      value.keyZones.push({
+        price,
+        label: coerceString(zone.label) || (type === "support" ? "Support" : "Resistance"),
+        significance: coerceString(zone.significance) || "",
+        type,
+        strength: strength || "weak",
+        ...(touches.length > 0 && { touches: touches.map(x => ({ x })) }),
+      });
+    });
+  } else if (raw.keyZones !== undefined) {
+    fail("keyZones", "Expected an array", raw.keyZones);
+  }
+
+  // --- Scenarios ---
+  if (Array.isArray(raw.scenarios)) {
+    raw.scenarios.forEach((scenario, i) => {
+      const path = `scenarios[${i}]`;
+      if (!isObject(scenario)) return fail(path, "Scenario dropped: not an object", scenario);
+      const condition = coerceString(scenario.condition);
+      const implication = coerceString(scenario.implication);
+      if (!condition) return fail(`${path}.condition`, "Scenario dropped: missing condition", scenario.condition);
+      value.scenarios.push({
+        condition,
+        implication: implication || "...the thesis would need to be re-evaluated",
+      });
+    });
+  } else if (raw.scenarios !== undefined) {
+    fail("scenarios", "Expected an array", raw.scenarios);
+  }
+
+  // --- Regime ---
+  if (isObject(raw.regime)) {
+    const type = coerceEnum(raw.regime.type, REGIME_TYPES);
+    if (!type) {
+      fail("regime.type", `Regime dropped: type must be one of ${REGIME_TYPES.join(", ")}`, raw.regime.type);
+    } else {
+      const confidence = coerceConfidence(raw.regime.confidence);
+      if (confidence === null) fail("regime.confidence", "Invalid confidence, defaulted to 0.5", raw.regime.confidence);
+      value.regime = { type, confidence: confidence ?? 0.5 };
+    }
+  } else if (raw.regime !== undefined && raw.regime !== null) {
+    fail("regime", "Expected an object", raw.regime);
+  }
+
+  // --- Range box ---
+  if (isObject(raw.rangeBox)) {
+    const high = coercePrice(raw.rangeBox.high);
+    const low = coercePrice(raw.rangeBox.low);
+    const confidence = coerceConfidence(raw.rangeBox.confidence);
+    if (high === null || low === null) {
+      fail("rangeBox", "Range box dropped: high/low not valid prices", raw.rangeBox);
+    } else if (low >= high) {
+      fail("rangeBox", "Range box dropped: low must be below high", raw.rangeBox);
+    } else if (confidence === null) {
+      fail("rangeBox.confidence", "Range box dropped: invalid confidence", raw.rangeBox.confidence);
+    } else {
+      value.rangeBox = { high, low, confidence };
+    }
+  }
+
+  // --- Pivots ---
+  if (isObject(raw.pivots)) {
+    const confidence = coerceConfidence(raw.pivots.confidence);
+    const points: PivotPoint[] = [];
+    if (Array.isArray(raw.pivots.points)) {
+      raw.pivots.points.forEach((point, i) => {
+        const path = `pivots.points[${i}]`;
+        if (!isObject(point)) return fail(path, "Pivot dropped: not an object", point);
+        const price = coercePrice(point.price);
+        if (price === null) return fail(`${path}.price`, "Pivot dropped: not a valid price", point.price);
+        const rawLabel = typeof point.label === "string" ? point.label.trim().toUpperCase() : "";
+        const label = PIVOT_LABELS.find((l) => l === rawLabel);
+        if (!label) return fail(`${path}.label`, `Pivot dropped: label must be one of ${PIVOT_LABELS.join(", ")}`, point.label);
+        const x = parsePosition(point.x, `${path}.x`, fail);
+        points.push(x === undefined ? { price, label } : { price, label, x });
+      });
+    }
+    if (confidence === null) {
+      fail("pivots.confidence", "Pivots dropped: invalid confidence", raw.pivots.confidence);
+    } else if (points.length > 0) {
+      value.pivots = { points, confidence };
+    }
+  }
+
+  // --- Fakeouts ---
+  if (Array.isArray(raw.fakeouts)) {
+    const fakeouts: Fakeout[] = [];
+    raw.fakeouts.forEach((fakeout, i) => {
+      const path = `fakeouts[${i}]`;
+      if (!isObject(fakeout)) return fail(path, "Fakeout dropped: not an object", fakeout);
+      const level = coercePrice(fakeout.level);
+      if (level === null) return fail(`${path}.level`, "Fakeout dropped: not a valid price", fakeout.level);
+      const direction = coerceEnum(fakeout.direction, FAKEOUT_DIRECTIONS);
+      if (!direction) return fail(`${path}.direction`, "Fakeout dropped: direction must be above or below", fakeout.direction);
+      const confidence = coerceConfidence(fakeout.confidence);
+      if (confidence === null) return fail(`${path}.confidence`, "Fakeout dropped: invalid confidence", fakeout.confidence);
+      const x = parsePosition(fakeout.x, `${path}.x`, fail);
+      fakeouts.push(x === undefined ? { level, direction, confidence } : { level, direction, confidence, x });
+    });
+    if (fakeouts.length > 0) value.fakeouts = fakeouts;
+  }
+
+  // --- Trendlines ---
+  if (Array.isArray(raw.trendlines)) {
+    const trendlines: Trendline[] = [];
+    raw.trendlines.forEach((line, i) => {
+      const path = `trendlines[${i}]`;
+      if (!isObject(line)) return fail(path, "Trendline dropped: not an object", line);
+      const type = coerceEnum(line.type, ZONE_TYPES);
+      if (!type) return fail(`${path}.type`, `Trendline dropped: type must be one of ${ZONE_TYPES.join(", ")}`, line.type);
+      const confidence = coerceConfidence(line.confidence);
+      if (confidence === null) return fail(`${path}.confidence`, "Trendline dropped: invalid confidence", line.confidence);
+      const fit = parseLineFit(line, path, fail);
+      if (!fit) return;
+      trendlines.push({
+        type,
+        label: coerceString(line.label) || (type === "support" ? "Trendline support" : "Trendline resistance"),
+        ...fit,
+        confidence,
+      });
+    });
+    if (trendlines.length > 0) value.trendlines = trendlines;
+  }
+
+  // --- Channels ---
+  if (Array.isArray(raw.channels)) {
+    const channels: Channel[] = [];
+    raw.channels.forEach((channel, i) => {
+      const path = `channels[${i}]`;
+      if (!isObject(channel)) return fail(path, "Channel dropped: not an object", channel);
+      const direction = coerceEnum(channel.direction, CHANNEL_DIRECTIONS);
+      if (!direction) return fail(`${path}.direction`, "Channel dropped: direction must be ascending or descending", channel.direction);
+      const confidence = coerceConfidence(channel.confidence);
+      if (confidence === null) return fail(`${path}.confidence`, "Channel dropped: invalid confidence", channel.confidence);
+      if (!isObject(channel.upper) || !isObject(channel.lower)) {
+        return fail(path, "Channel dropped: needs an upper and a lower line", channel);
+      }
+      const upper = parseLineFit(channel.upper, `${path}.upper`, fail);
+      const lower = parseLineFit(channel.lower, `${path}.lower`, fail);
+      if (!upper || !lower) return;
+      channels.push({
+        direction,
+        upper: { type: "resistance", label: "Channel top", ...upper, confidence },
+        lower: { type: "support", label: "Channel bottom", ...lower, confidence },
+        status: upper.status === "confirmed" && lower.status === "confirmed" ? "confirmed" : "candidate",
+        confidence,
+      });
+    });
+    if (channels.length > 0) value.channels = channels;
+  }
+
+  // --- Chart patterns ---
+  if (Array.isArray(raw.patterns)) {
+    const patterns: ChartPattern[] = [];
+    raw.patterns.forEach((pattern, i) => {
+      const path = `patterns[${i}]`;
+      if (!isObject(pattern)) return fail(path, "Pattern dropped: not an object", pattern);
+      const type = coerceEnum(pattern.type, PATTERN_TYPES);
+      if (!type) return fail(`${path}.type`, "Pattern dropped: unknown pattern type", pattern.type);
+      const breakoutLevel = coercePrice(pattern.breakoutLevel);
+      if (breakoutLevel === null) return fail(`${path}.breakoutLevel`, "Pattern dropped: not a valid price", pattern.breakoutLevel);
+      const confidence = coerceConfidence(pattern.confidence);
+      if (confidence === null) return fail(`${path}.confidence`, "Pattern dropped: invalid confidence", pattern.confidence);
+      const state = coerceEnum(pattern.state, PATTERN_STATES);
+      if (!state) fail(`${path}.state`, "Invalid state, defaulted to forming", pattern.state);
+
+      const points: PatternPoint[] = [];
+      if (Array.isArray(pattern.points)) {
+        pattern.points.forEach((point, j) => {
+          const pointPath = `${path}.points[${j}]`;
+          if (!isObject(point)) return fail(pointPath, "Point dropped: not an object", point);
+          const price = coercePrice(point.price);
+          if (price === null) return fail(`${pointPath}.price`, "Point dropped: not a valid price", point.price);
+          const x = parsePosition(point.x, `${pointPath}.x`, fail);
+          if (x === undefined) return fail(`${pointPath}.x`, "Point dropped: missing position", point.x);
+          const label = coerceString(point.label);
+          points.push(label ? { x, price, label } : { x, price });
+        });
+      }
+      if (points.length < 2) return fail(`${path}.points`, "Pattern dropped: needs at least two key points", pattern.points);
+
+      patterns.push({
+        type,
+        points: points.sort((a, b) => a.x - b.x),
+        breakoutLevel,
+        state: state || "forming",
+        confidence,
+      });
+    });
+    if (patterns.length > 0) value.patterns = patterns;
+  }
+
+  // --- Indicator panes ---
+  if (isObject(raw.indicators)) {
+    const ind = raw.indicators;
+    const panes = new Set<IndicatorReadings["panes"][number]>();
+    if (Array.isArray(ind.panes)) {
+      ind.panes.forEach((pane, i) => {
+        const name = coerceEnum(pane, INDICATOR_PANES);
+        if (name) panes.add(name);
+        else fail(`indicators.panes[${i}]`, "Pane dropped: unknown indicator", pane);
+      });
+    }
+    const indicators: IndicatorReadings = { panes: [] };
+
+    if (isObject(ind.rsi)) {
+      const rsi = typeof ind.rsi.value === "string" ? Number(ind.rsi.value.trim()) : ind.rsi.value;
+      if (typeof rsi !== "number" || !Number.isFinite(rsi) || rsi < 0 || rsi > 100) {
+        fail("indicators.rsi.value", "RSI dropped: value must be between 0 and 100", ind.rsi.value);
+      } else {
+        const state = rsi >= RSI_LEVELS.overbought ? "overbought" : rsi <= RSI_LEVELS.oversold ? "oversold" : "neutral";
+        indicators.rsi = { value: rsi, state };
+        panes.add("rsi");
+      }
+    }
+
+    if (isObject(ind.macd)) {
+      const cross = coerceEnum(ind.macd.cross, MACD_CROSSES);
+      if (!cross) {
+        fail("indicators.macd.cross", "MACD dropped: unknown cross state", ind.macd.cross);
+      } else {
+        const histogram = coerceEnum(ind.macd.histogram, MACD_HISTOGRAM) ?? undefined;
+        const aboveZero = typeof ind.macd.aboveZero === "boolean" ? ind.macd.aboveZero : undefined;
+        indicators.macd = { cross, aboveZero, histogram };
+        panes.add("macd");
+      }
+    }
+
+    if (isObject(ind.volume)) {
+      const trend = coerceEnum(ind.volume.trend, VOLUME_TRENDS);
+      if (!trend) {
+        fail("indicators.volume.trend", "Volume dropped: unknown trend", ind.volume.trend);
+      } else {
+        indicators.volume = { trend, spike: ind.volume.spike === true };
+        panes.add("volume");
+      }
+    }
+
+    if (Array.isArray(ind.divergences)) {
+      const divergences: Divergence[] = [];
+      ind.divergences.forEach((divergence, i) => {
+        const path = `indicators.divergences[${i}]`;
+        if (!isObject(divergence)) return fail(path, "Divergence dropped: not an object", divergence);
+        const indicator = coerceEnum(divergence.indicator, DIVERGENCE_INDICATORS);
+        if (!indicator) return fail(`${path}.indicator`, "Divergence dropped: unknown indicator", divergence.indicator);
+        const type = coerceEnum(divergence.type, DIVERGENCE_TYPES);
+        if (!type) return fail(`${path}.type`, "Divergence dropped: unknown type", divergence.type);
+        const confidence = coerceConfidence(divergence.confidence);
+        if (confidence === null) return fail(`${path}.confidence`, "Divergence dropped: invalid confidence", divergence.confidence);
+
+        const points: PatternPoint[] = [];
+        if (Array.isArray(divergence.pricePoints)) {
+          divergence.pricePoints.forEach((point, j) => {
+            const pointPath = `${path}.pricePoints[${j}]`;
+            if (!isObject(point)) return fail(pointPath, "Point dropped: not an object", point);
+            const price = coercePrice(point.price);
+            if (price === null) return fail(`${pointPath}.price`, "Point dropped: not a valid price", point.price);
+            const x = parsePosition(point.x, `${pointPath}.x`, fail);
+            if (x === undefined) return fail(`${pointPath}.x`, "Point dropped: missing position", point.x);
+            points.push({ x, price });
+          });
+        }
+        if (points.length !== 2 || points[0].x === points[1].x) {
+          return fail(`${path}.pricePoints`, "Divergence dropped: needs two price swings at different candles", divergence.pricePoints);
+        }
+        const [first, second] = points.sort((a, b) => a.x - b.x);
+        divergences.push({ indicator, type, pricePoints: [first, second], confidence });
+      });
+      if (divergences.length > 0) indicators.divergences = divergences;
+    }
+
+    // Enum order, so the card lists panes the same way every time
+    indicators.panes = INDICATOR_PANES.filter(pane => panes.has(pane));
+    if (indicators.panes.length > 0) value.indicators = indicators;
+  }
+
+  // --- Price axis labels (for overlay calibration) ---
+  if (isObject(raw.priceAxis)) {
+    const scale = coerceEnum(raw.priceAxis.scale, PRICE_SCALES) ?? undefined;
+    const labels: AxisLabelReading[] = [];
+    if (Array.isArray(raw.priceAxis.labels)) {
+      raw.priceAxis.labels.forEach((label, i) => {
+        const path = `priceAxis.labels[${i}]`;
+        if (!isObject(label)) return fail(path, "Axis label dropped: not an object", label);
+        const price = coercePrice(label.price);
+        if (price === null) return fail(`${path}.price`, "Axis label dropped: not a valid price", label.price);
+        const y = coercePosition(label.y);
+        if (y === null) return fail(`${path}.y`, "Axis label dropped: y must be between 0 and 1", label.y);
+        labels.push({ price, y });
+      });
+    }
+    if (labels.length > 0) value.priceAxis = { scale, labels };
+  }
+
+  // --- Time axis labels (for timestamps) ---
+  if (isObject(raw.timeAxis)) {
+    const labels: TimeAxisLabelReading[] = [];
+    if (Array.isArray(raw.timeAxis.labels)) {
+      raw.timeAxis.labels.forEach((label, i) => {
+        const path = `timeAxis.labels[${i}]`;
+        if (!isObject(label)) return fail(path, "Time label dropped: not an object", label);
+        const time = typeof label.time === "string" ? Date.parse(label.time) : NaN;
+        if (!Number.isFinite(time)) return fail(`${path}.time`, "Time label dropped: not an ISO timestamp", label.time);
+        const x = parsePosition(label.x, `${path}.x`, fail);
+        if (x === undefined) return fail(`${path}.x`, "Time label dropped: missing position", label.x);
+        labels.push({ time, x });
+      });
+    }
+    const lastCandleX = parsePosition(raw.timeAxis.lastCandleX, "timeAxis.lastCandleX", fail);
+    if (labels.length > 0) value.timeAxis = { labels, lastCandleX };
+  }
+
+  return { value, errors };
+}
+
+// ============================================
+// PARTIAL JSON (streaming)
+// ============================================
+
+/**
+ * Read the completed top-level fields of a JSON object that is still
+ * arriving.
+ *
+ * A field counts as complete once the separator after its value (`,` or
+ * the closing `}`) has arrived. The field still being written is left
+ * out, so nothing here is ever a truncated value. Leading prose or a
+ * ```json fence before the object is skipped.
+ *
+ * @param text - Response text received so far
+ * @returns Parsed values of every complete field, keyed by name
+ */
+export function readCompleteFields(text: string): Record<string, unknown> {
+  const fields: Record<string, unknown> = {};
+  const start = text.indexOf("{");
+  if (start === -1) return fields;
+
+  let depth = 0;
+  let inString = false;
+  let escaped = false;
+  let stringStart = -1;
+  let key: string | null = null;
+  let valueStart = -1;
+
+  const closeField = (end: number) => {
+    if (key === null || valueStart === -1) return;
+    try {
+      fields[key] = JSON.parse(text.slice(valueStart, end));
+    } catch {
+      // Not valid JSON on its own - leave it for the final parse to report
+    }
+    key = null;
+    valueStart = -1;
+  };
+
+  for (let i = start; i < text.length; i++) {
+    const char = text[i];
+
+    if (inString) {
+      if (escaped) escaped = false;
+      else if (char === "\\") escaped = true;
+      else if (char === '"') {
+        inString = false;
+        // A string at depth 1 before the colon is the field name
+        if (depth === 1 && valueStart === -1) {
+          try {
+            key = JSON.parse(text.slice(stringStart, i + 1));
+          } catch {
+            key = null;
+          }
+        }
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inString = true;
+      stringStart = i;
+    } else if (char === "{" || char === "[") {
+      depth++;
+    } else if (char === "}" || char === "]") {
+      if (depth === 1) {
+        closeField(i);
+        return fields;
+      }
+      depth--;
+    } else if (depth === 1 && char === ":" && valueStart === -1) {
+      valueStart = i + 1;
+    } else if (depth === 1 && char === ",") {
+      closeField(i);
+    }
+  }
+
+  return fields;
+}
@@ -0,0 +1,241 @@
+/**
+ * Analysis Trace Module
+ * =====================
+ *
+ * A structured record of one analysis (or annotation) run, kept with the
+ * result instead of scattered across server logs, so a bad read can be
+ * debugged from the card or attached to a bug report as JSON.
+ *
+ * | Part             | What it holds                                               |
+ * |------------------|-------------------------------------------------------------|
+ * | Header           | Prompt version, provider, model, start time                 |
+ * | Timing           | Model latency and total run time                            |
+ * | rawResponse      | The model's text before parsing, plus each repair round-trip |
+ * | gates            | Every validation gate decision (kept/rejected/flagged), why |
+ * | events           | Step-by-step log of the run, grouped by stage               |
+ * | annotation       | The annotation run's own trace, once it has happened        |
+ *
+ * The pipeline writes through a TraceRecorder; `finish()` returns the plain
+ * JSON-safe trace. Set `echo` to also print each entry to the console
+ * (analyzeChart does when ANALYSIS_TRACE_ECHO=1).
+ *
+ * ## Usage
+ * ```typescript
+ * const trace = createTraceRecorder({ kind: "analysis", promptVersion, provider: "mock", model: "mock-vision" });
+ * trace.stage("Key Zones");
+ * trace.gate({ gate: "visible_range", item: "Support zone", price: 9420, decision: "rejected", reason: "..." });
+ * const result = trace.finish();
+ * filteredItems(result); // [{ gate: "visible_range", ... }]
+ * ```
+ *
+ * @module analysis-trace
+ */
+
+import type { ImageTransform } from "./image-intake";
+
+// ============================================
+// TYPES
+// ============================================
+
+/**
+ * Which validation gate made a decision.
+ *
+ * | Gate             | Where                                                     |
+ * |------------------|-----------------------------------------------------------|
+ * | impossible_value | Zones at zero, negative or over 10x the current price     |
+ * | visible_range    | Anything priced outside the chart's visible price range   |
+ * | side             | Support above / resistance below the current price        |
+ * | zone_cap         | Zones beyond the profile's maxZones                       |
+ * | indicator_pane   | Divergences on a pane the chart doesn't show              |
+ * | price_swing      | Divergences whose price swings don't do what they claim   |
+ * | broken_line      | Trendlines price has already crossed                      |
+ * | failing_pattern  | Confirmed patterns price has fallen back into             |
+ * | confidence       | Layer 3 items under the profile's display thresholds      |
+ * | quorum           | Consensus zone clusters found in too few samples          |
+ */
+export type TraceGate =
+  | "impossible_value"
+  | "visible_range"
+  | "side"
+  | "zone_cap"
+  | "indicator_pane"
+  | "price_swing"
+  | "broken_line"
+  | "failing_pattern"
+  | "confidence"
+  | "quorum";
+
+/**
+ * One gate's verdict on one item.
+ */
+export interface GateDecision {
+  gate: TraceGate;
+  /** "Support zone 'Range low'", "Pivot HL", ... */
+  item: string;
+  price?: number;
+  decision: "kept" | "rejected" | "flagged";
+  /** Why it was rejected or flagged (or the margin it passed by) */
+  reason?: string;
+}
+
+/**
+ * One log line of the run.
+ */
+export interface TraceEvent {
+  /** Stage the event happened in ("Y-Axis Calibration", ...) */
+  stage: string;
+  level: "info" | "warn" | "error";
+  message: string;
+  /** Milliseconds since the run started */
+  atMs: number;
+}
+
+/**
+ * One round-trip asking the model to fix unparseable JSON.
+ */
+export interface TraceRepair {
+  parseError: string;
+  /** The model's repaired text (absent if the call failed) */
+  response?: string;
+}
+
+/**
+ * Everything recorded about one run.
+ */
+export interface AnalysisTrace {
+  kind: "analysis" | "annotation";
+  /** Prompt template id and version, e.g. "chart-analysis@3" */
+  promptVersion: string;
+  provider: string;
+  model: string;
+  /** ISO timestamp */
+  startedAt: string;
+  /** First model call, request to full response */
+  latencyMs?: number;
+  /** Whole run including parsing and validation */
+  totalMs: number;
+  /** The model's text before any parsing */
+  rawResponse?: string;
+  repairs: TraceRepair[];
+  gates: GateDecision[];
+  events: TraceEvent[];
+  /** The annotation run for this analysis, attached once it finishes */
+  annotation?: AnalysisTrace;
+}
+
+/**
+ * Writes to an AnalysisTrace while a run is in progress.
+ */
+export interface TraceRecorder {
+  /** Start a new stage; later events are grouped under it */
+  stage(name: string): void;
+  info(message: string): void;
+  warn(message: string): void;
+  error(message: string, error?: unknown): void;
+  gate(decision: GateDecision): void;
+  /** Record the first model call's latency and raw text */
+  response(text: string, latencyMs: number): void;
+  repair(repair: TraceRepair): void;
+  /** Stamp the total time and return the finished trace */
+  finish(): AnalysisTrace;
+}
+
+// ============================================
+// RECORDING
+// ============================================
+
+/**
+ * Start recording a run.
+ *
+ * @param header - What ran: kind, prompt version, provider and model
+ * @param options - `echo` also prints every entry to the console
+ */
+export function createTraceRecorder(
+  header: Pick<AnalysisTrace, "kind" | "promptVersion" | "provider" | "model">,
+  options: { echo?: boolean } = {}
+): TraceRecorder {
+  const started = Date.now();
+  const trace: AnalysisTrace = {
+    ...header,
+    startedAt: new Date(started).toISOString(),
+    totalMs: 0,
+    repairs: [],
+    gates: [],
+    events: [],
+  };
+  let stage = "Start";
+
+  const push = (level: TraceEvent["level"], message: string) => {
+    trace.events.push({ stage, level, message, atMs: Date.now() - started });
+    if (options.echo) {
+      const line = `   ${message}`;
+      if (level === "error") console.error(line);
+      else if (level === "warn") console.warn(line);
+      else console.log(line);
+    }
+  };
+
+  return {
+    stage(name) {
+      stage = name;
+      if (options.echo) console.log(`\n--- ${name} ---`);
+    },
+    info: message => push("info", message),
+    warn: message => push("warn", message),
+    error(message, error) {
+      const detail = error === undefined ? "" : `: ${error instanceof Error ? error.message : String(error)}`;
+      push("error", `${message}${detail}`);
+    },
+    gate(decision) {
+      trace.gates.push(decision);
+      if (options.echo) {
+        const price = decision.price !== undefined ? ` $${decision.price}` : "";
+        const reason = decision.reason ? ` - ${decision.reason}` : "";
+        console.log(`   ${decision.decision.toUpperCase()} [${decision.gate}] ${decision.item}${price}${reason}`);
+      }
+    },
+    response(text, latencyMs) {
+      trace.rawResponse = text;
+      trace.latencyMs = latencyMs;
+      push("info", `Response: ${text.length} chars in ${latencyMs}ms`);
+    },
+    repair(repair) {
+      trace.repairs.push(repair);
+    },
+    finish() {
+      trace.totalMs = Date.now() - started;
+      return trace;
+    },
+  };
+}
+
+// ============================================
+// READING
+// ============================================
+
+/**
+ * Items a gate removed, in the order they were removed.
+ */
+export function filteredItems(trace: AnalysisTrace): GateDecision[] {
+  return trace.gates.filter(g => g.decision === "rejected");
+}
+
+/**
+ * Count gate decisions by outcome.
+ */
+export function countGateDecisions(trace: AnalysisTrace): Record<GateDecision["decision"], number> {
+  const counts = { kept: 0, rejected: 0, flagged: 0 };
+  for (const gate of trace.gates) counts[gate.decision]++;
+  return counts;
+}
+
+/**
+ * Pretty-printed JSON for a bug report.
+ *
+ * @param imageTransform - The analysis's crop/scale (analysis.imageTransform),
+ *   included so positions in the report can be mapped back to the original
+ *   screenshot with mapToOriginal()
+ */
+export function traceToJson(trace: AnalysisTrace, imageTransform?: ImageTransform): string {
+  return JSON.stringify(imageTransform ? { ...trace, imageTransform } : trace, null, 2);
+}
@@ -0,0 +1,249 @@
+/**
+ * API Client Module
+ * =================
+ *
+ * Browser-side wrappers around the `/api/*` route handlers. Components use
+ * these instead of calling the model SDK directly, so the API key stays on
+ * the server.
+ *
+ * Each wrapper mirrors the return shape of the server function it fronts,
+ * and never throws for HTTP or network failures - it returns the same
+ * failure value the server function would.
+ *
+ * Every wrapper takes an optional AbortSignal. Aborting cancels the fetch
+ * (and, through the request signal, the server's model call) and resolves
+ * with the failure value.
+ *
+ * | Client function          | Route                   | Server function       |
+ * |--------------------------|-------------------------|-----------------------|
+ * | requestAnalysis          | /api/analyze            | analyzeChart          |
+ * | requestTimeframeAnalysis | /api/analyze-timeframes | analyzeMultiTimeframe |
+ * | requestAnnotation        | /api/annotate           | annotateChart         |
+ * | requestChat              | /api/chat               | chatWithHistory       |
+ *
+ * @module api-client
+ */
+
+"use client";
+
+import { createEmptyAnalysis } from "./analysis-result";
+import type { AnalysisProgress, AnalysisStreamEvent, ChartAnalysis } from "./analysis-result";
+import type { AnalysisProfile } from "./analysis-profile";
+import type { AnalysisTrace } from "./analysis-trace";
+import type { ChatMessage, GeminiResponse } from "./gemini";
+
+// ============================================
+// TRANSPORT
+// ============================================
+
+/**
+ * POST a JSON body and parse the JSON response.
+ * Error responses from our routes carry `{ success: false, error }`.
+ */
+async function postJson<T>(
+  url: string,
+  body: unknown,
+  signal?: AbortSignal
+): Promise<{ ok: true; data: T } | { ok: false; error: string }> {
+  try {
+    const response = await fetch(url, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(body),
+      signal,
+    });
+    const data = await response.json().catch(() => null);
+    if (!response.ok) {
+      return { ok: false, error: data?.error || `Request failed (${response.status})` };
+    }
+    return { ok: true, data: data as T };
+  } catch (error: unknown) {
+    return { ok: false, error: describeFetchError(error) };
+  }
+}
+
+/**
+ * POST a JSON body and read an NDJSON response line by line.
+ * Each complete line is parsed and handed to `onEvent` as it arrives.
+ */
+async function postNdjson<T>(
+  url: string,
+  body: unknown,
+  onEvent: (event: T) => void,
+  signal?: AbortSignal
+): Promise<{ ok: true } | { ok: false; error: string }> {
+  try {
+    const response = await fetch(url, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(body),
+      signal,
+    });
+    if (!response.ok || !response.body) {
+      const data = await response.json().catch(() => null);
+      return { ok: false, error: data?.error || `Request failed (${response.status})` };
+    }
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffered = "";
+    for (;;) {
+      const { done, value } = await reader.read();
+      buffered += decoder.decode(value, { stream: !done });
+      const lines = buffered.split("\n");
+      buffered = lines.pop() ?? "";
+      for (const line of lines) {
+        if (line.trim()) onEvent(JSON.parse(line) as T);
+      }
+      if (done) break;
+    }
+    if (buffered.trim()) onEvent(JSON.parse(buffered) as T);
+    return { ok: true };
+  } catch (error: unknown) {
+    return { ok: false, error: describeFetchError(error) };
+  }
+}
+
+/**
+ * Error message for a failed fetch; aborts read as a cancellation.
+ */
+function describeFetchError(error: unknown): string {
+  if (error instanceof Error && error.name === "AbortError") return "Request cancelled";
+  return error instanceof Error ? error.message : "Network error";
+}
+
+// ============================================
+// ENDPOINT WRAPPERS
+// ============================================
+
+/**
+ * Options for requestAnalysis().
+ */
+export interface AnalysisRequestOptions {
+  /** Run this many analyses and merge them (consensus mode) when > 1 */
+  samples?: number;
+  /** Thresholds, zone cap and scenario count (server default when omitted) */
+  profile?: AnalysisProfile;
+  /** Stream the response and call this as each section validates */
+  onPartial?: (progress: AnalysisProgress) => void;
+  /** Cancels the request (and the server-side analysis) */
+  signal?: AbortSignal;
+}
+
+/**
+ * Analyze a chart via `/api/analyze`.
+ *
+ * @param imageBase64 - Base64-encoded chart image
+ * @param userQuestion - Optional question about the chart
+ * @param options - Consensus sample count, analysis profile, streaming callback and abort signal
+ * @returns ChartAnalysis (success: false on any failure)
+ */
+export async function requestAnalysis(
+  imageBase64: string,
+  userQuestion?: string,
+  options: AnalysisRequestOptions = {}
+): Promise<ChartAnalysis> {
+  const body = { imageBase64, userQuestion, samples: options.samples, profile: options.profile };
+  const { onPartial, signal } = options;
+
+  if (onPartial) {
+    let final: ChartAnalysis | null = null;
+    const result = await postNdjson<AnalysisStreamEvent>("/api/analyze", { ...body, stream: true }, (event) => {
+      if (event.type === "partial") onPartial(event);
+      else final = event.analysis;
+    }, signal);
+    if (!result.ok) return createEmptyAnalysis(result.error);
+    return final ?? createEmptyAnalysis("Analysis stream ended without a result");
+  }
+
+  const result = await postJson<ChartAnalysis>("/api/analyze", body, signal);
+  return result.ok ? result.data : createEmptyAnalysis(result.error);
+}
+
+/**
+ * Analyze 2-4 timeframes of one symbol via `/api/analyze-timeframes`.
+ *
+ * @param images - Base64-encoded screenshots, one per timeframe
+ * @param userQuestion - Optional question, asked of every timeframe
+ * @param options - Analysis profile and abort signal
+ * @returns The lowest timeframe's ChartAnalysis with `multiTimeframe` (success: false on any failure)
+ */
+export async function requestTimeframeAnalysis(
+  images: string[],
+  userQuestion?: string,
+  options: Pick<AnalysisRequestOptions, "profile" | "signal"> = {}
+): Promise<ChartAnalysis> {
+  const result = await postJson<ChartAnalysis>(
+    "/api/analyze-timeframes",
+    { images, userQuestion, profile: options.profile },
+    options.signal
+  );
+  return result.ok ? result.data : createEmptyAnalysis(result.error);
+}
+
+/**
+ * Annotate a chart via `/api/annotate`.
+ *
+ * @param imageBase64 - Original chart image (base64)
+ * @param analysis - ChartAnalysis from requestAnalysis()
+ * @param signal - Cancels the request
+ * @param onTrace - Receives the annotation run's trace when the server sends one
+ * @returns Base64-encoded annotated image, or null if failed or cancelled
+ */
+export async function requestAnnotation(
+  imageBase64: string,
+  analysis: ChartAnalysis,
+  signal?: AbortSignal,
+  onTrace?: (trace: AnalysisTrace) => void
+): Promise<string | null> {
+  // The analysis trace (raw response included) isn't needed to draw
+  const result = await postJson<{ image: string | null; trace?: AnalysisTrace }>(
+    "/api/annotate",
+    { imageBase64, analysis: { ...analysis, trace: undefined } },
+    signal
+  );
+  if (result.ok && result.data.trace) onTrace?.(result.data.trace);
+  return result.ok ? result.data.image : null;
+}
+
+/**
+ * Continue a conversation via `/api/chat`.
+ *
+ * @param messages - Array of conversation messages
+ * @param systemContext - Optional context to prime the conversation
+ * @param signal - Cancels the request
+ * @returns GeminiResponse with the model's reply
+ */
+export async function requestChat(
+  messages: ChatMessage[],
+  systemContext?: string,
+  signal?: AbortSignal
+): Promise<GeminiResponse> {
+  const result = await postJson<GeminiResponse>("/api/chat", { messages, systemContext }, signal);
+  return result.ok ? result.data : { text: "", success: false, error: result.error };
+}
+
+// ============================================
+// FILE HELPERS
+// ============================================
+
+/**
+ * Convert a File object to base64 string.
+ *
+ * Useful for handling file uploads before sending to the API.
+ *
+ * @param file - File object from input or drag-drop
+ * @returns Promise resolving to base64 string (without data URL prefix)
+ */
+export function fileToBase64(file: File): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.readAsDataURL(file);
+    reader.onload = () => {
+      // Extract just the base64 data (remove "data:image/png;base64," prefix)
+      const base64 = (reader.result as string).split(",")[1];
+      resolve(base64);
+    };
+    reader.onerror = (error) => reject(error);
+  });
+}
@@ -3,29 +3,30 @@
  * =====================
  * 
  * This module provides AI-powered chart analysis and annotation functionality
- * using Google's Gemini models. It's designed to analyze trading chart screenshots
- * and produce structured technical analysis with visual annotations.
+ * on top of a pluggable ChartModelProvider (Gemini by default). It's designed
+ * to analyze trading chart screenshots and produce structured technical
+ * analysis with visual annotations.
  * 
  * ## Architecture Overview
  * 
  * The chart analysis pipeline has two main phases:
  * 
  * 1. **Analysis Phase** (analyzeChart)
- *    - Uses Gemini 2.0 Flash for vision + text understanding
+ *    - Uses the provider's analysis model for vision + text understanding
  *    - Extracts: story, regime, key zones, scenarios, invalidation
  *    - Returns structured JSON output
  * 
  * 2. **Annotation Phase** (annotateChart)
- *    - Uses Gemini 3 Pro Image Preview for image generation
+ *    - Uses the provider's image model for image generation
  *    - Takes the analysis results and draws zones on the chart
  *    - Returns base64-encoded annotated image
  * 
  * ## How to Replicate This Process
  * 
- * ### Step 1: Set up Gemini API
- * ```typescript
- * import { GoogleGenAI } from "@google/genai";
- * const ai = new GoogleGenAI({ apiKey: YOUR_API_KEY });
+ * ### Step 1: Configure a model provider
+ * ```bash
+ * GOOGLE_AI_KEY=...              # Gemini (default)
+ * CHART_MODEL_PROVIDER=mock      # or: offline fixtures, no key needed
  * ```
  * 
  * ### Step 2: Analyze the Chart
@@ -42,571 +43,137 @@
  * 
  * ### Step 4: Fallback to Canvas (if Gemini annotation fails)
  * ```typescript
- * const plan = generateAnnotationPlan(analysis);
+ * const plan = generateAnnotationPlan(analysis);  // from analysis-result.ts
  * // Use ChartOverlayRenderer component with this plan
  * ```
  * 
- * @module chart-analysis
- * @requires @google/genai
- */
-
-"use client";
-
-import { GoogleGenAI } from "@google/genai";
-
-// ============================================
-// GEMINI CLIENT SINGLETON
-// ============================================
-
-/**
- * Singleton instance of the Gemini AI client.
- * Initialized lazily on first use.
- */
-let ai: GoogleGenAI | null = null;
-
-/**
- * Get or create the Gemini AI client.
- * Requires NEXT_PUBLIC_GOOGLE_AI_KEY environment variable.
- * 
- * @returns GoogleGenAI client instance or null if API key not configured
- */
-function getAI() {
-  const API_KEY = process.env.NEXT_PUBLIC_GOOGLE_AI_KEY;
-  if (!API_KEY) {
-    console.error("Google AI API key not configured");
-    return null;
-  }
-  if (!ai) {
-    ai = new GoogleGenAI({ apiKey: API_KEY });
-  }
-  return ai;
-}
-
-// ============================================
-// LOGGING HELPERS (for debugging)
-// ============================================
-
-/**
- * Log a major section header to console.
- * Useful for debugging the analysis pipeline.
- */
-function logSection(title: string) {
-  console.log(`\n${"=".repeat(60)}`);
-  console.log(`📊 ${title}`);
-  console.log("=".repeat(60));
-}
-
-/**
- * Log a subsection header to console.
- */
-function logSubsection(title: string) {
-  console.log(`\n--- ${title} ---`);
-}
-
-// ============================================
-// TYPE DEFINITIONS
-// ============================================
-
-/**
- * A key price zone where the market has reacted historically.
+ * ## Where This Runs
+ *
+ * This module calls the model provider and is server-only; the browser
+ * reaches it through /api/analyze and /api/annotate (see api-client.ts).
+ * The ChartAnalysis types and pure helpers (validateAnalysis,
+ * generateAnnotationPlan) live in analysis-result.ts, which is safe to
+ * import anywhere.
  * 
- * @example
- * {
- *   price: 94200,
- *   label: "March low",
- *   significance: "Bounced 3x in Q1",
- *   type: "support",
- *   strength: "strong"
- * }
- */
-export interface KeyZone {
-  /** The price level of this zone (read from Y-axis) */
-  price: number;
-  /** Short descriptive label: "Prior resistance", "Gap fill", "Breakdown origin" */
-  label: string;
-  /** Why this zone matters - historical context */
-  significance: string;
-  /** Whether this is a support or resistance zone */
-  type: "support" | "resistance";
-  /** Strength based on touch count: weak (1), moderate (2), strong (3+) */
-  strength: "weak" | "moderate" | "strong";
-}
-
-/**
- * A conditional scenario describing what might happen.
- * NOT a prediction - just "if X then Y" reasoning.
- * 
- * @example
- * {
- *   condition: "If price breaks above $98,500...",
- *   implication: "...buyers have reclaimed control, range breakout confirmed"
- * }
- */
-export interface Scenario {
-  /** The trigger condition: "If price breaks above 185..." */
-  condition: string;
-  /** What it means (NOT a target): "...buyers reclaimed control" */
-  implication: string;
-}
-
-/**
- * Market regime classification.
- * Every analysis MUST include a regime.
- */
-export interface Regime {
-  /** The current market state */
-  type: "trending_up" | "trending_down" | "ranging" | "breakout" | "breakdown";
-  /** Confidence in this classification (0-1) */
-  confidence: number;
-}
-
-/**
- * Range box for ranging markets.
- * Only populated when regime is "ranging".
- */
-export interface RangeBox {
-  /** Upper bound of the range (resistance) */
-  high: number;
-  /** Lower bound of the range (support) */
-  low: number;
-  /** Confidence in range detection (0-1) */
-  confidence: number;
-}
-
-/**
- * A pivot point in market structure.
- * Used to identify higher highs/lows or lower highs/lows.
- */
-export interface PivotPoint {
-  /** The price of this pivot */
-  price: number;
-  /** Pivot classification */
-  label: "HH" | "HL" | "LH" | "LL";
-}
-
-/**
- * Collection of pivot points with confidence.
- * Only populated when regime is trending.
- */
-export interface Pivots {
-  /** Array of identified pivot points */
-  points: PivotPoint[];
-  /** Confidence in pivot detection (0-1) */
-  confidence: number;
-}
-
-/**
- * A failed breakout (fakeout) pattern.
- * High-value signal when detected.
+ * @module chart-analysis
  */
-export interface Fakeout {
-  /** The price level that was faked out */
-  level: number;
-  /** Direction of the failed break */
-  direction: "above" | "below";
-  /** Confidence in fakeout detection (0-1) */
-  confidence: number;
-}
 
-// ============================================
-// MAIN ANALYSIS TYPE
-// ============================================
-
-/**
- * Complete chart analysis result.
- * This is the main output type from analyzeChart().
- * 
- * ## Required Fields (always present)
- * - story: Narrative of what happened
- * - currentContext: Where we are now
- * - keyZones: 2-4 key price levels
- * - scenarios: 2 if/then conditionals
- * - invalidation: What would change the thesis
- * - regime: Market state classification
- * 
- * ## Conditional Fields (only if detected with confidence)
- * - rangeBox: If market is ranging
- * - pivots: If market is trending
- * - fakeouts: If failed breakouts visible
- */
-export interface ChartAnalysis {
-  // === REQUIRED: The Narrative ===
-  /** 2-3 sentence story of what happened on this chart */
-  story: string;
-  /** Where price is NOW in that story */
-  currentContext: string;
-  
-  // === REQUIRED: Structural Levels ===
-  /** 2-4 zones where price has reacted historically */
-  keyZones: KeyZone[];
-  
-  // === REQUIRED: Conditional Thinking ===
-  /** Exactly 2 "if X then Y" scenarios */
-  scenarios: Scenario[];
-  
-  // === REQUIRED: Risk Management ===
-  /** What would completely invalidate this thesis */
-  invalidation: string;
-  
-  // === REQUIRED: Regime Classification ===
-  /** Current market regime with confidence */
-  regime: Regime;
-  
-  // === CONDITIONAL: Only if detected ===
-  /** Range bounds (only if regime is "ranging") */
-  rangeBox?: RangeBox;
-  /** Pivot points (only if regime is trending) */
-  pivots?: Pivots;
-  /** Failed breakouts (if visible with confidence) */
-  fakeouts?: Fakeout[];
-  
-  // === METADATA ===
-  /** Current price read from chart */
-  currentPrice: number;
-  /** Ticker symbol if visible (e.g., "BTC/USD") */
-  symbol?: string;
-  /** Timeframe if visible (e.g., "4H", "1D") */
-  timeframe?: string;
-  /** ISO timestamp of when analysis was performed */
-  analyzedAt: string;
-  
-  // === STATUS ===
-  /** Whether analysis succeeded */
-  success: boolean;
-  /** Error message if failed */
-  error?: string;
-}
+import "server-only";
+import { AnalyzeRequest, ChartModelProvider, createCallLimiter, MODEL_CALL_TIMEOUTS, resolveProvider } from "./model-provider";
+import { AnalysisProfile, DEFAULT_ANALYSIS_PROFILE } from "./analysis-profile";
+import { CHART_ANALYSIS_RESPONSE_SCHEMA, parseChartAnalysis, readCompleteFields } from "./analysis-schema";
+import { detectImageMime } from "./image-intake";
+import {
+  AxisLabelReading,
+  fitXAxisCalibration,
+  fitYAxisCalibration,
+  xToTime,
+  YAxisCalibration,
+  yToPrice,
+} from "./chart-calibration";
+import { bandZones, estimateVolatility } from "./zone-bands";
+import { AnalysisTrace, createTraceRecorder, TraceGate, TraceRecorder } from "./analysis-trace";
+import { PromptTemplate, promptKey, selectPrompt } from "./prompt-registry";
+import {
+  ANALYSIS_SECTIONS,
+  AnalysisProgress,
+  AnalysisSection,
+  Channel,
+  channelName,
+  ChartAnalysis,
+  ChartPattern,
+  createEmptyAnalysis,
+  divergenceName,
+  Fakeout,
+  IndicatorReadings,
+  KeyZone,
+  PartialAnalysis,
+  PATTERN_BIAS,
+  patternName,
+  Pivots,
+  RangeBox,
+  Regime,
+  Scenario,
+  Trendline,
+  trendlineName,
+  TrendlineAnchor,
+  trendlinePriceAt,
+  validateAnalysis,
+  ValidationIssue,
+} from "./analysis-result";
 
 // ============================================
-// CONFIDENCE THRESHOLDS FOR DISPLAY
+// PIPELINE OPTIONS
 // ============================================
 
 /**
- * Minimum confidence thresholds for displaying optional patterns.
- * Patterns below these thresholds are filtered out to reduce noise.
- * 
- * Tune these values based on user feedback:
- * - Higher = fewer false positives, may miss some patterns
- * - Lower = more patterns shown, may include noise
- */
-export const DISPLAY_THRESHOLDS = {
-  /** Minimum confidence to show range box */
-  rangeBox: 0.6,
-  /** Minimum confidence to show pivot points */
-  pivots: 0.6,
-  /** Minimum confidence to show fakeouts */
-  fakeouts: 0.6,
-};
-
-/**
- * Result of validation layer.
- * Separates what users see from what was detected.
- */
-export interface ValidatedAnalysis {
-  /** Filtered analysis for display (low-confidence patterns removed) */
-  display: ChartAnalysis;
-  /** Full analysis for debugging (includes all patterns) */
-  logged: ChartAnalysis;
-  /** What was filtered and why */
-  filtered: {
-    rangeBox: boolean;
-    pivots: boolean;
-    fakeouts: boolean;
-    reasons: string[];
-  };
-}
-
-/**
- * Apply confidence-based filtering to analysis results.
- * Removes patterns that don't meet display thresholds.
- * 
- * @param raw - The raw analysis from Gemini
- * @returns ValidatedAnalysis with filtered display version
+ * Options shared by analyzeChart() and annotateChart().
  */
-export function validateAnalysis(raw: ChartAnalysis): ValidatedAnalysis {
-  logSubsection("Validation Layer - Display Gating");
-  
-  const filtered = {
-    rangeBox: false,
-    pivots: false,
-    fakeouts: false,
-    reasons: [] as string[],
-  };
-  
-  // Start with full analysis for display
-  const display: ChartAnalysis = { ...raw };
-  
-  // Gate rangeBox by confidence
-  if (raw.rangeBox) {
-    if (raw.rangeBox.confidence < DISPLAY_THRESHOLDS.rangeBox) {
-      display.rangeBox = undefined;
-      filtered.rangeBox = true;
-      filtered.reasons.push(`RangeBox filtered: ${(raw.rangeBox.confidence * 100).toFixed(0)}% < ${(DISPLAY_THRESHOLDS.rangeBox * 100).toFixed(0)}% threshold`);
-    } else {
-      console.log(`   ✅ RangeBox PASSED: ${(raw.rangeBox.confidence * 100).toFixed(0)}% >= ${(DISPLAY_THRESHOLDS.rangeBox * 100).toFixed(0)}%`);
-    }
-  }
-  
-  // Gate pivots by confidence
-  if (raw.pivots) {
-    if (raw.pivots.confidence < DISPLAY_THRESHOLDS.pivots) {
-      display.pivots = undefined;
-      filtered.pivots = true;
-      filtered.reasons.push(`Pivots filtered: ${(raw.pivots.confidence * 100).toFixed(0)}% < ${(DISPLAY_THRESHOLDS.pivots * 100).toFixed(0)}% threshold (hidden)`);
-    } else {
-      console.log(`   ✅ Pivots PASSED: ${(raw.pivots.confidence * 100).toFixed(0)}% >= ${(DISPLAY_THRESHOLDS.pivots * 100).toFixed(0)}%`);
-    }
-  }
-  
-  // Gate fakeouts by average confidence
-  if (raw.fakeouts && raw.fakeouts.length > 0) {
-    const avgConfidence = raw.fakeouts.reduce((sum, f) => sum + f.confidence, 0) / raw.fakeouts.length;
-    if (avgConfidence < DISPLAY_THRESHOLDS.fakeouts) {
-      display.fakeouts = undefined;
-      filtered.fakeouts = true;
-      filtered.reasons.push(`Fakeouts filtered: avg ${(avgConfidence * 100).toFixed(0)}% < ${(DISPLAY_THRESHOLDS.fakeouts * 100).toFixed(0)}% threshold (hidden)`);
-    } else {
-      console.log(`   ✅ Fakeouts PASSED: avg ${(avgConfidence * 100).toFixed(0)}% >= ${(DISPLAY_THRESHOLDS.fakeouts * 100).toFixed(0)}%`);
-    }
-  }
-  
-  // Log summary
-  console.log(`   📊 Display gating results:`);
-  console.log(`      - Zones: Always shown (${display.keyZones.length})`);
-  console.log(`      - Regime: Always shown (${display.regime.type})`);
-  console.log(`      - RangeBox: ${display.rangeBox ? 'Shown' : 'Hidden'}`);
-  console.log(`      - Pivots: ${display.pivots ? 'Shown' : 'Hidden'}`);
-  console.log(`      - Fakeouts: ${display.fakeouts ? 'Shown' : 'Hidden'}`);
-  
-  if (filtered.reasons.length > 0) {
-    console.log(`   📝 Filter reasons:`);
-    filtered.reasons.forEach(r => console.log(`      - ${r}`));
-  }
-  
-  return {
-    display,
-    logged: raw,
-    filtered,
-  };
+export interface ChartPipelineOptions {
+  /** Provider to use instead of the configured one (CHART_MODEL_PROVIDER) */
+  provider?: ChartModelProvider;
+  /**
+   * How many times analyzeChart() may send unparseable output back to the
+   * model for repair before giving up (default: DEFAULT_MAX_REPAIR_ATTEMPTS)
+   */
+  maxRepairAttempts?: number;
+  /** Thresholds, zone cap and scenario count (default: DEFAULT_ANALYSIS_PROFILE) */
+  profile?: AnalysisProfile;
+  /**
+   * Called by analyzeChart() as each section of the response streams in
+   * and passes validation. Streams when the provider has analyzeStream.
+   */
+  onPartial?: (progress: AnalysisProgress) => void;
+  /** Cancels the run; in-flight model calls are aborted */
+  signal?: AbortSignal;
+  /**
+   * Time limit for each model call in ms (default: MODEL_CALL_TIMEOUTS for
+   * the call type). Repair round-trips get their own limit.
+   */
+  timeoutMs?: number;
+  /**
+   * Receives the run's trace when it finishes. analyzeChart() also stores
+   * it on the analysis; annotateChart() only reports it here.
+   */
+  onTrace?: (trace: AnalysisTrace) => void;
+  /**
+   * Prompt template to use instead of rolling the configured selection
+   * (ANALYSIS_PROMPT / ANNOTATION_PROMPT; see prompt-registry.ts). Must be
+   * of the kind the function runs.
+   */
+  prompt?: PromptTemplate;
 }
 
-// ============================================
-// ANNOTATION TYPES (for canvas rendering)
-// ============================================
+/** Default repair round-trips when the analysis JSON fails to parse */
+export const DEFAULT_MAX_REPAIR_ATTEMPTS = 2;
 
-/**
- * A single annotation mark to draw on the chart.
- * Used by ChartOverlayRenderer for canvas-based fallback.
- */
-export interface AnnotationMark {
-  /** Type of mark to draw */
-  type: "zone" | "line" | "label" | "range_box" | "pivot" | "fakeout";
-  /** Role determines color scheme */
-  role: "support" | "resistance" | "current_price" | "range" | "pivot_hh" | "pivot_hl" | "pivot_lh" | "pivot_ll" | "fakeout_above" | "fakeout_below";
-  /** Price level for single-line marks */
-  price?: number;
-  /** Upper price for zone/range marks */
-  priceHigh?: number;
-  /** Lower price for zone/range marks */
-  priceLow?: number;
-  /** Text label to display */
-  text?: string;
-  /** Line style */
-  style?: "solid" | "dashed";
-  /** Opacity override (0-1) */
-  opacity?: number;
-}
+/** How far past the current price a zone may sit before its support/resistance label is flagged */
+const SIDE_TOLERANCE_PCT = 0.002;
 
-/**
- * Complete annotation plan for canvas rendering.
- * Generated from ChartAnalysis for use with ChartOverlayRenderer.
- */
-export interface AnnotationPlan {
-  /** Color theme to use */
-  theme: "dark" | "light";
-  /** Short story summary for display */
-  story: string;
-  /** Array of marks to draw */
-  marks: AnnotationMark[];
-}
+/** Print each trace entry to the server console as it is recorded */
+export const TRACE_ECHO = typeof process !== "undefined" && process.env.ANALYSIS_TRACE_ECHO === "1";
 
 // ============================================
-// ANALYSIS PROMPT
+// REPAIR PROMPT
 // ============================================
 
 /**
- * The main prompt sent to Gemini for chart analysis.
- * 
- * This prompt is structured in layers:
- * - Layer 1 (REQUIRED): Story, zones, scenarios, invalidation
- * - Layer 2 (REQUIRED): Regime classification
- * - Layer 3 (CONDITIONAL): Range box, pivots, fakeouts
- * 
- * Key design decisions:
- * 1. Story-first approach - explain what happened, not predictions
- * 2. Read ACTUAL prices from Y-axis, not round numbers
- * 3. Conditional scenarios ("if X then Y"), not targets
- * 4. Confidence scores for gating display
+ * Sent when the analysis response isn't valid JSON (usually truncated
+ * output or prose around the object). The chart image is attached again
+ * so the model can complete anything that was cut off.
  */
-const CHART_ANALYSIS_PROMPT = `You are a chart reader helping someone understand what a chart is telling them. Your job is NOT to predict prices - it's to explain what has happened and what to watch for next.
-
-=== LAYER 1: CORE (REQUIRED) ===
+const ANALYSIS_REPAIR_PROMPT = `Your previous response to a chart analysis request could not be parsed as JSON.
 
-STEP 1: TELL THE STORY
-Look at the chart and describe what happened like you're explaining it to a friend:
-- "This thing pumped from $X to $Y, then crashed back to $Z..."
-- "It's been stuck between these two levels for weeks..."
-- "There was a breakdown from $X, and it's been bleeding since..."
+PARSE ERROR: {PARSE_ERROR}
 
-Be specific with prices you can READ FROM THE Y-AXIS. Use ACTUAL wick highs/lows, not round numbers.
+YOUR PREVIOUS RESPONSE:
+{BROKEN_RESPONSE}
 
-STEP 2: IDENTIFY KEY ZONES (REQUIRED: 2-4)
-It is IMPOSSIBLE for a chart to have 0 key zones. You MUST identify at least 2 levels where price reacted.
-- If trending: Mark the trend start (support) and recent high/low (resistance/support).
-- If ranging: Mark the range high (resistance) and range low (support).
-- If breakout: Mark the breakout level (now support).
-- If price is testing a level, that level IS a key zone.
-
-CRITICAL: Read the ACTUAL price from the Y-axis.
-
-STEP 3: CONDITIONAL SCENARIOS (not predictions)
-Give 2 conditional scenarios using "If... then..." format:
-Don't predict targets. Describe what it would MEAN if something happens.
-
-STEP 4: INVALIDATION
-What would completely change your read on this chart?
-
-=== LAYER 2: REGIME (REQUIRED) ===
-
-Classify the current market regime:
-- "trending_up": Making higher highs and higher lows
-- "trending_down": Making lower highs and lower lows  
-- "ranging": Oscillating between defined support and resistance
-- "breakout": Just broke above prior resistance, continuation expected
-- "breakdown": Just broke below prior support, continuation expected
-
-Include your confidence (0.0 to 1.0) in this classification.
-
-=== LAYER 3: DETAILED PATTERN SCAN (CONTEXT AWARE) ===
-
-RANGE BOX (Required if Regime is "Ranging"):
-- If "ranging", you MUST define the box: high (resistance) and low (support).
-- If not ranging, set to null.
-
-PIVOTS (Required if Regime is "Trending"):
-- If "trending", you MUST identify the 2-3 most recent swing points (HH, HL, LH, LL).
-- If not trending, set to null.
-
-FAKEOUTS (Scan Aggressively):
-- Look for wicks that poked through a level and closed back inside.
-- If seen, record them. This is high-value alpha.
-
-USER'S QUESTION: {USER_QUESTION}
-
-Respond with ONLY valid JSON (no markdown, no code blocks):
-
-{
-  "story": "<2-3 sentences describing WHAT HAPPENED. Be specific with ACTUAL prices from Y-axis. Example: 'This pumped from $4.80 to $48.50 in early 2024, then crashed 80% back to $9.75. It's now consolidating between $10.20 support and $22.40 resistance.'>",
-  
-  "currentContext": "<1 sentence on where price is NOW. Example: 'Currently at $15.30, mid-range, waiting for direction.'>",
-  
-  "keyZones": [
-    {
-      "price": <EXACT number from Y-axis - read the actual wick high/low, not round numbers>,
-      "label": "<short label: 'Pump high', 'Crash low', 'Range resistance', 'Prior breakdown'>",
-      "significance": "<why this zone matters: 'Rejected 3x in March', 'Breakdown origin', 'Bounce zone'>",
-      "type": "<'support'|'resistance'>",
-      "strength": "<'weak' if 1 touch, 'moderate' if 2, 'strong' if 3+>"
-    }
-  ],
-  
-  "scenarios": [
-    {
-      "condition": "<If price does X... - be specific with a price level>",
-      "implication": "<...then it suggests Y. What does that MEAN, not where will it GO>"
-    },
-    {
-      "condition": "<If price does X instead...>",
-      "implication": "<...then it suggests Y>"
-    }
-  ],
-  
-  "invalidation": "<What would completely invalidate this read?>",
-  
-  "regime": {
-    "type": "<'trending_up'|'trending_down'|'ranging'|'breakout'|'breakdown'>",
-    "confidence": <0.0 to 1.0>
-  },
-  
-  "rangeBox": <If ranging: { "high": <price>, "low": <price>, "confidence": 0.9 } | else: null>,
-  
-  "pivots": <If trending: { "points": [{ "price": <num>, "label": "<HH|HL|LH|LL>" }], "confidence": 0.9 } | else: null>,
-  
-  "fakeouts": <If fakeouts visible: [{ "level": <price>, "direction": "<above|below>", "confidence": 0.9 }] | else: null>,
-  
-  "currentPrice": <exact number from chart>,
-  "symbol": "<ticker if visible, null if not>",
-  "timeframe": "<timeframe if visible, null if not>"
-}
-
-HARD RULES (DO NOT BREAK):
-1. READ ACTUAL PRICES FROM Y-AXIS - not round numbers. If the wick high is $22.40, say $22.40, not $22 or $25.
-2. keyZones must be zones where price REACTED in the past.
-3. You MUST identify at least 2 keyZones. Never 0.
-4. If you mention a price level in the 'story', it MUST be included in 'keyZones'.
-5. If regime is Ranging, rangeBox is REQUIRED.
-6. If regime is Trending, pivots are REQUIRED.
-7. Layer 3 patterns are HIGH PRIORITY if the regime matches.
-8. If Y-axis uses "M" or "K" suffixes, convert to raw numbers for 'price' fields (e.g. 1.5M -> 1.5) but mention the scale in labels/story.`;
-
-// ============================================
-// ANNOTATION SYSTEM INSTRUCTION
-// ============================================
-
-/**
- * System instruction for Gemini 3 Pro Image Preview.
- * This tells the model how to draw annotations on charts.
- * 
- * Key principles:
- * 1. Draw zones at EXACT prices provided
- * 2. Semi-transparent so candles show through
- * 3. Green for support, Red for resistance
- * 4. Labels near right edge
- * 5. NO arrows or projections
- */
-const ANNOTATION_SYSTEM_INSTRUCTION = `You are a professional technical-analysis chart markup artist.
-
-Your job is to edit a candlestick chart by overlaying clean, high-signal annotations that highlight key levels and patterns.
-
-PRIMARY GOAL: Draw horizontal zones at the SPECIFIC PRICE LEVELS provided. A trader should look at your annotated chart and immediately see "these are the key levels to watch."
-
-REQUIRED ELEMENTS:
-1. SUPPORT ZONES: Draw semi-transparent GREEN horizontal bands at support prices
-2. RESISTANCE ZONES: Draw semi-transparent RED horizontal bands at resistance prices  
-3. LABELS: Add small text labels near each zone (e.g., "Support $10", "Resistance $45")
-
-OPTIONAL ELEMENTS (only if specified):
-4. RANGE BOX: If provided, draw a semi-transparent BLUE rectangle spanning the range high to low
-5. PIVOT MARKERS: If provided, small circle markers at HH/HL/LH/LL points with labels
-6. FAKEOUT CALLOUTS: If provided, small annotation at the fakeout level
-
-ZONE STYLE:
-- Zones should be semi-transparent bands (not just lines) - about 2-3% price height
-- GREEN/CYAN for support zones
-- RED/PINK for resistance zones
-- BLUE/PURPLE for range boxes (lighter opacity than zones)
-- Zones must span the full width of the chart area
-- Candles MUST remain visible through the zones
-- Labels should be positioned near the right edge of the chart
-
-CRITICAL RULES:
-1. You MUST draw zones at the EXACT price levels provided in the brief
-2. Read the Y-axis to place zones accurately
-3. Do NOT redraw or distort the candles
-4. Do NOT add arrows, trend lines, or projections
-5. Keep it clean - zones, range boxes, and labels only
-
-Return a single edited image with the overlays applied.`;
+Return the SAME analysis as a single valid JSON object:
+- No markdown, no code fences, no text before or after the object
+- Complete any truncated fields by reading the chart again
+- Keep every value you already gave unless it was cut off
+- Use plain numbers for prices (no "$", commas or "k" suffixes)`;
 
 // ============================================
 // MAIN ANALYSIS FUNCTION
@@ -616,8 +183,8 @@ Return a single edited image with the overlays applied.`;
  * Analyze a chart image and extract structured technical analysis.
  * 
  * This is the main entry point for chart analysis. It:
- * 1. Sends the image to Gemini 2.0 Flash
- * 2. Parses the JSON response
+ * 1. Sends the image to the provider's analysis model
+ * 2. Parses the JSON response (asking the model to repair it if needed)
  * 3. Validates and filters results
  * 
  * ## Usage
@@ -631,136 +198,202 @@ Return a single edited image with the overlays applied.`;
  * }
  * ```
  * 
+ * ## Streaming
+ * Pass `onPartial` to get validated sections as the response streams in
+ * (story → regime → zones → scenarios). The resolved value is still the
+ * complete, fully validated analysis.
+ * ```typescript
+ * await analyzeChart(imageBase64, undefined, {
+ *   onPartial: ({ section, analysis }) => render(analysis),
+ * });
+ * ```
+ * 
+ * ## Cancellation
+ * Pass `signal` to abort the run; each model call is also limited to
+ * `timeoutMs`. Either way the result is an empty analysis whose `error`
+ * says "Analysis cancelled" or "Analysis timed out after Ns".
+ * 
+ * ## Trace
+ * Every run that reaches the provider - failed ones included - carries
+ * `analysis.trace` (see analysis-trace.ts): prompt version, model, latency,
+ * raw response, repairs and each validation gate's decision.
+ * 
+ * ## Prompt
+ * The template is `options.prompt`, else a roll of the configured
+ * ANALYSIS_PROMPT selection (prompt-registry.ts). Its id and version are
+ * stamped on `analysis.promptVersion`.
+ * 
  * ## Model Used
- * - gemini-2.0-flash (vision + text)
+ * - The provider's analysis model (gemini-2.0-flash by default)
  * 
- * @param imageBase64 - Base64-encoded PNG image of the chart
+ * @param imageBase64 - Base64-encoded chart image (PNG, JPEG or WebP; see image-intake.ts)
  * @param userQuestion - Optional question about the chart
+ * @param options - Pipeline options (provider override, repair limit, signal, timeout)
  * @returns ChartAnalysis with story, zones, scenarios, etc.
  */
 export async function analyzeChart(
   imageBase64: string,
-  userQuestion?: string
+  userQuestion?: string,
+  options: ChartPipelineOptions = {}
 ): Promise<ChartAnalysis> {
-  logSection("CHART ANALYSIS STARTED");
-  console.log(`📝 User question: "${userQuestion || "(default)"}"`);
-  console.log(`🖼️ Image size: ${(imageBase64.length / 1024).toFixed(1)} KB`);
-  
-  const client = getAI();
-  if (!client) {
-    console.error("❌ API client not available");
+  const provider = resolveProvider(options.provider);
+  if (!provider) {
+    console.error("Model provider not available");
     return createEmptyAnalysis("API key not configured");
   }
 
+  const prompt = options.prompt ?? selectPrompt("analysis");
+  const trace = createTraceRecorder({
+    kind: "analysis",
+    promptVersion: promptKey(prompt),
+    provider: provider.name,
+    model: provider.models.analysis,
+  }, { echo: TRACE_ECHO });
+  // Every exit goes through here so the result carries its trace
+  const finish = (analysis: ChartAnalysis): ChartAnalysis => {
+    const done = trace.finish();
+    options.onTrace?.(done);
+    return { ...analysis, promptVersion: { id: prompt.id, version: prompt.version }, trace: done };
+  };
+  
+  trace.stage("Request");
+  trace.info(`User question: "${userQuestion || "(default)"}"`);
+  trace.info(`Image size: ${(imageBase64.length / 1024).toFixed(1)} KB`);
+
   const question = userQuestion || "What's the story on this chart? What are the key levels and what should I watch for?";
+  const profile = options.profile ?? DEFAULT_ANALYSIS_PROFILE;
+  const limiter = createCallLimiter(options.signal, options.timeoutMs ?? MODEL_CALL_TIMEOUTS.analysis);
+  const mimeType = detectImageMime(imageBase64) ?? "image/png";
 
   try {
-    logSubsection("Calling Gemini API for analysis");
-    console.log("🤖 Model: gemini-2.0-flash");
+    trace.stage("Calling model provider for analysis");
     
     const startTime = Date.now();
     
-    // === GEMINI API CALL ===
-    // This is the core API call structure for chart analysis
-    const response = await client.models.generateContent({
-      model: "gemini-2.0-flash",
-      contents: [
-        {
-          role: "user",
-          parts: [
-            // First part: the image
-            {
-              inlineData: {
-                mimeType: "image/png",
-                data: imageBase64,
-              },
-            },
-            // Second part: the prompt with user's question
-            { text: CHART_ANALYSIS_PROMPT.replace("{USER_QUESTION}", question) },
-          ],
-        },
-      ],
-    });
-    console.log(`⏱️ API response time: ${Date.now() - startTime}ms`);
-
-    // Extract text from response
-    const parts = response.candidates?.[0]?.content?.parts || [];
-    let text = "";
-    for (const part of parts) {
-      if (part.text) text += part.text;
+    // === MODEL CALL ===
+    // Image + prompt with the user's question, text back (streamed when a
+    // caller is waiting on partial sections)
+    const request: AnalyzeRequest = {
+      imageBase64,
+      mimeType,
+      prompt: prompt.template
+        .replace("{USER_QUESTION}", question)
+        .replace("{MAX_ZONES}", String(profile.maxZones))
+        .replace("{SCENARIO_COUNT}", String(profile.scenarioCount)),
+      responseSchema: CHART_ANALYSIS_RESPONSE_SCHEMA,
+      signal: limiter.next(),
+    };
+    const text = options.onPartial && provider.analyzeStream
+      ? await streamAnalysis(provider.analyzeStream(request), profile, options.onPartial, trace)
+      : (await provider.analyze(request)).text;
+    trace.response(text, Date.now() - startTime);
+
+    // Parse JSON, sending broken output back for repair (bounded)
+    const maxRepairAttempts = options.maxRepairAttempts ?? DEFAULT_MAX_REPAIR_ATTEMPTS;
+    const json = await parseJsonWithRepair(text, maxRepairAttempts, (broken, parseError) =>
+      provider.analyze({
+        imageBase64,
+        mimeType,
+        prompt: ANALYSIS_REPAIR_PROMPT
+          .replace("{PARSE_ERROR}", parseError)
+          .replace("{BROKEN_RESPONSE}", broken),
+        responseSchema: CHART_ANALYSIS_RESPONSE_SCHEMA,
+        signal: limiter.next(),
+      }).then(r => r.text),
+      trace
+    );
+    
+    if (!json.ok) {
+      // Either the repairs ran out, or a repair call itself failed - keep the count either way
+      let failure = "Failed to parse response";
+      if (json.error === undefined) {
+        trace.error(`JSON still unparseable after ${json.attempts} repair attempt(s)`);
+      } else {
+        failure = limiter.describeAbort("Analysis") ??
+          (json.error instanceof Error ? json.error.message : "Failed to analyze chart");
+        trace.error(`Repair attempt ${json.attempts} failed`, json.error);
+      }
+      return finish({ ...createEmptyAnalysis(failure), repairAttempts: json.attempts });
     }
 
-    logSubsection("Raw AI Response");
-    console.log("📄 Response length:", text.length, "chars");
-    console.log("📄 First 500 chars:", text.substring(0, 500));
-
     try {
-      // Parse JSON response (remove any markdown formatting)
-      const cleaned = text.replace(/```json\n?/g, "").replace(/```\n?/g, "").trim();
-      const parsed = JSON.parse(cleaned);
+      const { value: parsed, errors: fieldErrors } = parseChartAnalysis(json.value);
+      
+      // Field-level validation: bad fields were dropped, the rest is kept
+      trace.stage("Response Validation");
+      if (fieldErrors.length === 0) {
+        trace.info("All fields valid");
+      } else {
+        fieldErrors.forEach(e => trace.warn(`Field error ${e.path}: ${e.message} (got ${JSON.stringify(e.value)})`));
+      }
+      
+      trace.stage("Parsed Analysis Data");
+      trace.info(`Story: ${parsed.story?.substring(0, 100)}...`);
+      trace.info(`Current price: ${parsed.currentPrice}`);
+      trace.info(`Symbol: ${parsed.symbol}`);
+      trace.info(`Timeframe: ${parsed.timeframe}`);
       
-      logSubsection("Parsed Analysis Data");
-      console.log("📊 Story:", parsed.story?.substring(0, 100) + "...");
-      console.log("💰 Current Price from AI:", parsed.currentPrice);
-      console.log("🏷️ Symbol:", parsed.symbol);
-      console.log("⏰ Timeframe:", parsed.timeframe);
+      const currentPrice = parsed.currentPrice ?? 0;
       
-      const currentPrice = parsed.currentPrice || 0;
+      // ============================================
+      // Y-AXIS CALIBRATION
+      // Fit price → pixel row from the axis labels the model read.
+      // Done first: the plausibility gate needs the visible price range.
+      // ============================================
+      trace.stage("Y-Axis Calibration");
+      const yAxis = parsed.priceAxis
+        ? fitYAxisCalibration(parsed.priceAxis.labels, parsed.priceAxis.scale)
+        : null;
+      if (yAxis) {
+        trace.info(`${yAxis.scale} axis from ${yAxis.labels.length} labels (max residual ${(yAxis.maxResidual * 100).toFixed(2)}% of height)`);
+      } else if (parsed.priceAxis) {
+        trace.warn(`Calibration failed: ${parsed.priceAxis.labels.length} labels didn't fit a monotonic axis`);
+      } else {
+        trace.info(`Calibration: No axis labels read`);
+      }
       
       // ============================================
       // VALIDATION PIPELINE
       // ============================================
       
-      logSubsection("Key Zones - BEFORE Validation");
-      const rawZones: KeyZone[] = parsed.keyZones || [];
-      console.log(`📍 Raw zones from AI: ${rawZones.length}`);
+      trace.stage("Key Zones - BEFORE Validation");
+      const rawZones: KeyZone[] = parsed.keyZones;
+      trace.info(`Raw zones from AI: ${rawZones.length}`);
       rawZones.forEach((z, i) => {
-        console.log(`   Zone ${i + 1}: $${z.price} (${z.type}) - "${z.label}" - ${z.strength}`);
-      });
-      
-      let keyZones: KeyZone[] = rawZones.slice(0, 4);
-      
-      // GATE 1: Filter impossible values (negative, zero, or wildly high)
-      logSubsection("Validation Gate 1: Impossible Values");
-      const beforeGate1 = keyZones.length;
-      keyZones = keyZones.filter(z => {
-        if (z.price <= 0) {
-          console.log(`   ❌ FILTERED: $${z.price} - invalid (<=0)`);
-          return false;
-        }
-        if (currentPrice > 0 && z.price > currentPrice * 10) {
-          console.log(`   ❌ FILTERED: $${z.price} - too high (>10x current price $${currentPrice})`);
-          return false;
-        }
-        console.log(`   ✅ KEPT: $${z.price}`);
-        return true;
+        trace.info(`Zone ${i + 1}: $${z.price} (${z.type}) - "${z.label}" - ${z.strength}`);
       });
-      console.log(`   Result: ${beforeGate1} → ${keyZones.length} zones`);
       
-      // GATE 2: Proximity filter - DISABLED
-      // We allow zones close to current price (testing support/resistance)
-      logSubsection("Validation Gate 2: Proximity Filter (DISABLED)");
-      console.log("   ℹ️ Allowing zones close to current price (testing support/resistance)");
+      const validationIssues: ValidationIssue[] = [];
+      const reject = (gate: TraceGate, item: string, price: number, reason: string) => {
+        trace.gate({ gate, item, price, decision: "rejected", reason });
+        validationIssues.push({ item, price, action: "rejected", reason });
+      };
+      const flag = (gate: TraceGate, item: string, price: number, reason: string) => {
+        trace.gate({ gate, item, price, decision: "flagged", reason });
+        validationIssues.push({ item, price, action: "flagged", reason });
+      };
       
-      // GATE 3: Cap at 4 zones max
-      keyZones = keyZones.slice(0, 4);
+      const visibleRange = getVisiblePriceRange(yAxis, parsed.priceAxis?.labels);
+      const gated = gateZones(rawZones, { currentPrice, visibleRange, maxZones: profile.maxZones }, trace);
+      let keyZones = gated.keyZones;
+      validationIssues.push(...gated.issues);
       
-      logSubsection("Key Zones - AFTER Validation");
-      console.log(`📍 Final zones: ${keyZones.length}`);
+      trace.stage("Key Zones - AFTER Validation");
+      trace.info(`Final zones: ${keyZones.length}`);
       keyZones.forEach((z, i) => {
-        console.log(`   Zone ${i + 1}: $${z.price} (${z.type}) - "${z.label}"`);
+        trace.info(`Zone ${i + 1}: $${z.price} (${z.type}) - "${z.label}"`);
       });
       
       if (keyZones.length === 0) {
-        console.log("   ⚠️ WARNING: No zones survived validation!");
+        trace.warn("No zones survived validation");
       }
       
       // Parse and validate scenarios
-      logSubsection("Scenarios");
-      let scenarios: Scenario[] = (parsed.scenarios || []).slice(0, 2);
-      console.log(`📋 Raw scenarios from AI: ${scenarios.length}`);
+      trace.stage("Scenarios");
+      let scenarios: Scenario[] = parsed.scenarios.slice(0, profile.scenarioCount);
+      trace.info(`Raw scenarios from AI: ${scenarios.length}`);
       scenarios.forEach((s, i) => {
-        console.log(`   Scenario ${i + 1}: "${s.condition?.substring(0, 50)}..."`);
+        trace.info(`Scenario ${i + 1}: "${s.condition?.substring(0, 50)}..."`);
       });
       
       scenarios = scenarios.map(s => ({
@@ -768,8 +401,8 @@ export async function analyzeChart(
         implication: s.implication || "...the thesis would need to be re-evaluated",
       }));
       
-      // Ensure exactly 2 scenarios
-      while (scenarios.length < 2) {
+      // Ensure exactly profile.scenarioCount scenarios
+      while (scenarios.length < profile.scenarioCount) {
         scenarios.push({
           condition: "Unable to determine",
           implication: "Need more price action for clarity",
@@ -779,74 +412,250 @@ export async function analyzeChart(
       // ============================================
       // PARSE REGIME (Required - Layer 2)
       // ============================================
-      logSubsection("Regime Classification");
-      const rawRegime = parsed.regime || { type: "ranging", confidence: 0.5 };
-      const regime: Regime = {
-        type: rawRegime.type || "ranging",
-        confidence: Math.min(1, Math.max(0, rawRegime.confidence || 0.5)),
-      };
-      console.log(`🎯 Regime: ${regime.type} (confidence: ${(regime.confidence * 100).toFixed(0)}%)`);
+      trace.stage("Regime Classification");
+      const regime: Regime = parsed.regime || { type: "ranging", confidence: 0.5 };
+      trace.info(`Regime: ${regime.type} (confidence: ${(regime.confidence * 100).toFixed(0)}%)`);
       
       // ============================================
       // PARSE CONDITIONAL PATTERNS (Layer 3)
-      // These are only populated if detected with high confidence
+      // Confidence gating happens in validateAnalysis() with the profile
       // ============================================
-      logSubsection("Conditional Patterns (Layer 3)");
+      trace.stage("Conditional Patterns (Layer 3)");
       
-      // Range Box - only if confidence >= 0.7
       let rangeBox: RangeBox | undefined = undefined;
-      if (parsed.rangeBox && parsed.rangeBox.confidence >= 0.7) {
+      if (parsed.rangeBox) {
         rangeBox = {
           high: parsed.rangeBox.high,
           low: parsed.rangeBox.low,
           confidence: parsed.rangeBox.confidence,
         };
-        console.log(`📦 Range Box: $${rangeBox.low} - $${rangeBox.high} (conf: ${(rangeBox.confidence * 100).toFixed(0)}%)`);
-      } else if (parsed.rangeBox) {
-        console.log(`📦 Range Box FILTERED: conf ${(parsed.rangeBox.confidence * 100).toFixed(0)}% < 70% threshold`);
+        trace.info(`Range Box: $${rangeBox.low} - $${rangeBox.high} (conf: ${(rangeBox.confidence * 100).toFixed(0)}%)`);
       } else {
-        console.log(`📦 Range Box: Not detected`);
+        trace.info(`Range Box: Not detected`);
       }
       
-      // Pivots - only if confidence >= 0.7
       let pivots: Pivots | undefined = undefined;
-      if (parsed.pivots && parsed.pivots.confidence >= 0.7 && parsed.pivots.points?.length > 0) {
+      if (parsed.pivots && parsed.pivots.points.length > 0) {
         pivots = {
-          points: parsed.pivots.points.map((p: { price: number; label: string }) => ({
-            price: p.price,
-            label: p.label as "HH" | "HL" | "LH" | "LL",
-          })),
+          points: parsed.pivots.points,
           confidence: parsed.pivots.confidence,
         };
-        console.log(`📍 Pivots: ${pivots.points.length} points (conf: ${(pivots.confidence * 100).toFixed(0)}%)`);
-        pivots.points.forEach(p => console.log(`      ${p.label} @ $${p.price}`));
-      } else if (parsed.pivots) {
-        console.log(`📍 Pivots FILTERED: conf ${(parsed.pivots?.confidence * 100 || 0).toFixed(0)}% < 70% threshold`);
+        trace.info(`Pivots: ${pivots.points.length} points (conf: ${(pivots.confidence * 100).toFixed(0)}%)`);
+        pivots.points.forEach(p => trace.info(`${p.label} @ $${p.price}`));
       } else {
-        console.log(`📍 Pivots: Not detected`);
+        trace.info(`Pivots: Not detected`);
       }
       
-      // Fakeouts - only if confidence >= 0.7
       let fakeouts: Fakeout[] | undefined = undefined;
-      if (parsed.fakeouts && Array.isArray(parsed.fakeouts) && parsed.fakeouts.length > 0) {
-        const validFakeouts = parsed.fakeouts.filter((f: Fakeout) => f.confidence >= 0.7);
-        if (validFakeouts.length > 0) {
-          fakeouts = validFakeouts.map((f: Fakeout) => ({
-            level: f.level,
-            direction: f.direction as "above" | "below",
-            confidence: f.confidence,
-          }));
-          console.log(`⚡ Fakeouts: ${validFakeouts.length} detected`);
-          validFakeouts.forEach((f: Fakeout) => console.log(`      ${f.direction} $${f.level} (conf: ${(f.confidence * 100).toFixed(0)}%)`));
-        } else {
-          console.log(`⚡ Fakeouts FILTERED: all below 70% confidence threshold`);
+      if (parsed.fakeouts && parsed.fakeouts.length > 0) {
+        fakeouts = parsed.fakeouts;
+        trace.info(`Fakeouts: ${fakeouts.length} detected`);
+        fakeouts.forEach(f => trace.info(`${f.direction} $${f.level} (conf: ${(f.confidence * 100).toFixed(0)}%)`));
+      } else {
+        trace.info(`Fakeouts: Not detected`);
+      }
+      
+      let trendlines: Trendline[] | undefined = parsed.trendlines;
+      let channels: Channel[] | undefined = parsed.channels;
+      trace.info(`Trendlines: ${trendlines ? trendlines.length : 0}, Channels: ${channels ? channels.length : 0}`);
+      trendlines?.forEach(t => trace.info(`${t.type} '${t.label}' ${t.status}, ${t.anchors.length} anchors, ${t.touches} touches (conf: ${(t.confidence * 100).toFixed(0)}%)`));
+      channels?.forEach(c => trace.info(`${c.direction} channel ${c.status} (conf: ${(c.confidence * 100).toFixed(0)}%)`));
+      
+      let patterns: ChartPattern[] | undefined = parsed.patterns;
+      trace.info(`Patterns: ${patterns ? patterns.length : 0}`);
+      patterns?.forEach(p => trace.info(`${p.type} ${p.state}, breakout $${p.breakoutLevel} (conf: ${(p.confidence * 100).toFixed(0)}%)`));
+      
+      // ============================================
+      // INDICATOR PANES
+      // A divergence is only real if the price swings it cites do what it claims
+      // ============================================
+      trace.stage("Indicator Panes");
+      let indicators: IndicatorReadings | undefined = parsed.indicators;
+      if (indicators) {
+        trace.info(`Panes: ${indicators.panes.join(", ") || "none"}`);
+        if (indicators.rsi) trace.info(`RSI ${indicators.rsi.value} (${indicators.rsi.state})`);
+        if (indicators.macd) trace.info(`MACD cross: ${indicators.macd.cross}`);
+        if (indicators.volume) trace.info(`Volume: ${indicators.volume.trend}${indicators.volume.spike ? " (spike)" : ""}`);
+        
+        const divergences = (indicators.divergences ?? []).filter(d => {
+          const name = divergenceName(d);
+          const [first, second] = d.pricePoints;
+          if (!indicators!.panes.includes(d.indicator)) {
+            reject("indicator_pane", name, second.price, `No ${d.indicator.toUpperCase()} pane was found on the chart`);
+            return false;
+          }
+          const consistent = d.type === "bullish" ? second.price < first.price : second.price > first.price;
+          if (!consistent) {
+            reject("price_swing", name, second.price, d.type === "bullish"
+              ? `Price didn't make a lower low ($${formatPrice(first.price)} → $${formatPrice(second.price)})`
+              : `Price didn't make a higher high ($${formatPrice(first.price)} → $${formatPrice(second.price)})`);
+            return false;
+          }
+          if (isOutsideRange(visibleRange, first.price) || isOutsideRange(visibleRange, second.price)) {
+            reject("visible_range", name, second.price, describeRange(visibleRange!));
+            return false;
+          }
+          trace.gate({ gate: "price_swing", item: name, price: second.price, decision: "kept", reason: `$${first.price} → $${second.price}` });
+          return true;
+        });
+        indicators = { ...indicators, divergences: divergences.length > 0 ? divergences : undefined };
+      } else {
+        trace.info(`Panes: No indicator panes read`);
+      }
+      
+      // Same visible-range gate for the Layer 3 patterns
+      const outOfRange = (price: number) => isOutsideRange(visibleRange, price);
+      const rangeReason = visibleRange ? describeRange(visibleRange) : "";
+      if (visibleRange) {
+        if (rangeBox && (outOfRange(rangeBox.high) || outOfRange(rangeBox.low))) {
+          reject("visible_range", "Range box", outOfRange(rangeBox.high) ? rangeBox.high : rangeBox.low, rangeReason);
+          rangeBox = undefined;
+        }
+        if (pivots) {
+          const points = pivots.points.filter(p => {
+            if (!outOfRange(p.price)) return true;
+            reject("visible_range", `Pivot ${p.label}`, p.price, rangeReason);
+            return false;
+          });
+          pivots = points.length > 0 ? { ...pivots, points } : undefined;
+        }
+        if (fakeouts) {
+          const kept = fakeouts.filter(f => {
+            if (!outOfRange(f.level)) return true;
+            reject("visible_range", `Fakeout ${f.direction}`, f.level, rangeReason);
+            return false;
+          });
+          fakeouts = kept.length > 0 ? kept : undefined;
+        }
+        // A line is only as good as its anchors - one misread anchor tilts the whole line
+        const offAnchor = (anchors: TrendlineAnchor[]) => anchors.find(a => outOfRange(a.price));
+        if (trendlines) {
+          const kept = trendlines.filter(line => {
+            const anchor = offAnchor(line.anchors);
+            if (!anchor) return true;
+            reject("visible_range", trendlineName(line), anchor.price, rangeReason);
+            return false;
+          });
+          trendlines = kept.length > 0 ? kept : undefined;
+        }
+        if (channels) {
+          const kept = channels.filter(channel => {
+            const anchor = offAnchor(channel.upper.anchors) ?? offAnchor(channel.lower.anchors);
+            if (!anchor) return true;
+            reject("visible_range", channelName(channel), anchor.price, rangeReason);
+            return false;
+          });
+          channels = kept.length > 0 ? kept : undefined;
+        }
+        if (patterns) {
+          const kept = patterns.filter(pattern => {
+            const offPrice = [pattern.breakoutLevel, ...pattern.points.map(p => p.price)].find(outOfRange);
+            if (offPrice === undefined) return true;
+            reject("visible_range", patternName(pattern), offPrice, rangeReason);
+            return false;
+          });
+          patterns = kept.length > 0 ? kept : undefined;
         }
+      }
+      
+      // Wrong side of current price at the last candle - flagged, not dropped
+      // (same rule as zones: usually a line price has already broken)
+      const lastCandleX = parsed.timeAxis?.lastCandleX;
+      if (trendlines && currentPrice > 0 && lastCandleX !== undefined) {
+        trendlines = trendlines.map(line => {
+          const projected = trendlinePriceAt(line.anchors, lastCandleX);
+          const wrongSide = line.type === "support"
+            ? projected > currentPrice * (1 + SIDE_TOLERANCE_PCT)
+            : projected < currentPrice * (1 - SIDE_TOLERANCE_PCT);
+          if (!wrongSide) return line;
+          const warning = line.type === "support"
+            ? `Price ($${formatPrice(currentPrice)}) is below this support line (≈$${formatPrice(projected)} at the last candle) - likely broken`
+            : `Price ($${formatPrice(currentPrice)}) is above this resistance line (≈$${formatPrice(projected)} at the last candle) - likely broken`;
+          flag("broken_line", trendlineName(line), projected, warning);
+          return { ...line, warning };
+        });
+      }
+      
+      // "Confirmed" means price has left through the breakout level - flag it if price is back
+      if (patterns && currentPrice > 0) {
+        patterns = patterns.map(pattern => {
+          const bias = PATTERN_BIAS[pattern.type];
+          if (pattern.state !== "confirmed" || bias === "neutral") return pattern;
+          const backInside = bias === "bullish"
+            ? currentPrice < pattern.breakoutLevel * (1 - SIDE_TOLERANCE_PCT)
+            : currentPrice > pattern.breakoutLevel * (1 + SIDE_TOLERANCE_PCT);
+          if (!backInside) return pattern;
+          const warning = `Marked confirmed but price ($${formatPrice(currentPrice)}) is back ${bias === "bullish" ? "below" : "above"} the breakout level - may be failing`;
+          flag("failing_pattern", patternName(pattern), pattern.breakoutLevel, warning);
+          return { ...pattern, warning };
+        });
+      }
+      
+      // ============================================
+      // X-AXIS (TIME) CALIBRATION
+      // Stamp pivots, zone touches, fakeouts, trendline anchors and pattern points with approximate times
+      // ============================================
+      trace.stage("X-Axis Calibration");
+      const xAxis = parsed.timeAxis
+        ? fitXAxisCalibration(parsed.timeAxis.labels, parsed.timeAxis.lastCandleX)
+        : null;
+      if (xAxis) {
+        trace.info(`Time axis from ${xAxis.labels.length} labels (max residual ${(xAxis.maxResidual * 100).toFixed(2)}% of width)`);
+        if (xAxis.lastCandleTime !== undefined) {
+          trace.info(`Last candle: ${new Date(xAxis.lastCandleTime).toISOString()}`);
+        }
+      } else if (parsed.timeAxis) {
+        trace.warn(`Calibration failed: ${parsed.timeAxis.labels.length} labels didn't fit a left-to-right time axis`);
       } else {
-        console.log(`⚡ Fakeouts: Not detected`);
+        trace.info(`Calibration: No time labels read`);
+      }
+      
+      const timeAt = (x: number | undefined) =>
+        xAxis && x !== undefined ? new Date(xToTime(xAxis, x)).toISOString() : undefined;
+      
+      keyZones = keyZones.map(zone => {
+        if (!zone.touches?.length) return zone;
+        const touches = zone.touches.map(t => ({ x: t.x, time: timeAt(t.x) }));
+        const latest = touches.reduce((a, b) => (b.x > a.x ? b : a));
+        return { ...zone, touches, lastTestedAt: latest.time };
+      });
+      if (pivots) {
+        pivots.points = pivots.points.map(p => ({ ...p, time: timeAt(p.x) }));
       }
+      if (fakeouts) {
+        fakeouts = fakeouts.map(f => ({ ...f, time: timeAt(f.x) }));
+      }
+      const stampAnchors = (line: Trendline): Trendline => ({
+        ...line,
+        anchors: line.anchors.map(a => ({ ...a, time: timeAt(a.x) })),
+      });
+      trendlines = trendlines?.map(stampAnchors);
+      channels = channels?.map(c => ({ ...c, upper: stampAnchors(c.upper), lower: stampAnchors(c.lower) }));
+      patterns = patterns?.map(p => ({ ...p, points: p.points.map(point => ({ ...point, time: timeAt(point.x) })) }));
+      if (indicators?.divergences) {
+        indicators.divergences = indicators.divergences.map(d => ({
+          ...d,
+          pricePoints: [
+            { ...d.pricePoints[0], time: timeAt(d.pricePoints[0].x) },
+            { ...d.pricePoints[1], time: timeAt(d.pricePoints[1].x) },
+          ],
+        }));
+      }
+      
+      // Everything so far was read off pixels; OHLCV verification upgrades zones later
+      keyZones = keyZones.map(zone => ({ ...zone, dataSource: "image_only" as const }));
       
-      // Build final analysis object
-      const analysis: ChartAnalysis = {
+      // Band each zone by the chart's volatility; attached candles re-band later
+      const volatility = estimateVolatility(currentPrice, { candleRange: parsed.typicalCandleRange, timeframe: parsed.timeframe });
+      if (volatility) {
+        keyZones = bandZones(keyZones, volatility);
+        trace.info(`Zone bands: typical candle ${(volatility.rangePct * 100).toFixed(2)}% (${volatility.source})`);
+      } else {
+        trace.info(`Zone bands: no volatility read, renderers use the profile band`);
+      }
+      
+      // Build final analysis object, then gate patterns by the profile's thresholds
+      const { display: analysis } = validateAnalysis({
         story: parsed.story || "Unable to read chart story",
         currentContext: parsed.currentContext || "Current position unclear",
         keyZones,
@@ -856,34 +665,40 @@ export async function analyzeChart(
         rangeBox,
         pivots,
         fakeouts,
+        trendlines,
+        channels,
+        patterns,
+        indicators,
         currentPrice,
-        symbol: parsed.symbol || undefined,
-        timeframe: parsed.timeframe || undefined,
+        symbol: parsed.symbol,
+        timeframe: parsed.timeframe,
+        volatility: volatility ?? undefined,
+        yAxis: yAxis || undefined,
+        xAxis: xAxis || undefined,
         analyzedAt: new Date().toISOString(),
         success: true,
-      };
+        fieldErrors: fieldErrors.length > 0 ? fieldErrors : undefined,
+        repairAttempts: json.attempts,
+        validationIssues: validationIssues.length > 0 ? validationIssues : undefined,
+      }, profile, trace);
 
-      logSubsection("Final Analysis Summary");
-      console.log(`✅ Analysis complete`);
-      console.log(`   Story: ${analysis.story.substring(0, 80)}...`);
-      console.log(`   Current Price: $${analysis.currentPrice}`);
-      console.log(`   Regime: ${analysis.regime.type} (${(analysis.regime.confidence * 100).toFixed(0)}%)`);
-      console.log(`   Key Zones: ${analysis.keyZones.length}`);
-      console.log(`   Scenarios: ${analysis.scenarios.length}`);
-      console.log(`   Range Box: ${analysis.rangeBox ? 'Yes' : 'No'}`);
-      console.log(`   Pivots: ${analysis.pivots ? analysis.pivots.points.length : 0}`);
-      console.log(`   Fakeouts: ${analysis.fakeouts ? analysis.fakeouts.length : 0}`);
+      trace.stage("Final Analysis Summary");
+      trace.info(`Analysis complete: $${analysis.currentPrice}, ${analysis.regime.type} (${(analysis.regime.confidence * 100).toFixed(0)}%), ${analysis.keyZones.length} zones, ${analysis.scenarios.length} scenarios`);
       
-      return analysis;
+      return finish(analysis);
     } catch (parseError) {
-      console.error("❌ JSON Parse Error:", parseError);
-      console.error("❌ Raw text that failed to parse:", text.substring(0, 500));
-      return createEmptyAnalysis("Failed to parse response");
+      trace.error("Analysis build error", parseError);
+      return finish(createEmptyAnalysis("Failed to parse response"));
     }
   } catch (error: unknown) {
+    const aborted = limiter.describeAbort("Analysis");
+    if (aborted) {
+      trace.warn(aborted);
+      return finish(createEmptyAnalysis(aborted));
+    }
     const errorMessage = error instanceof Error ? error.message : "Failed to analyze chart";
-    console.error("❌ Analysis API Error:", error);
-    return createEmptyAnalysis(errorMessage);
+    trace.error("Analysis API error", error);
+    return finish(createEmptyAnalysis(errorMessage));
   }
 }
 
@@ -894,7 +709,7 @@ export async function analyzeChart(
 /**
  * Annotate a chart image with support/resistance zones.
  * 
- * This uses Gemini 3 Pro Image Preview to draw directly on the chart.
+ * This uses the provider's image model to draw directly on the chart.
  * It takes the analysis results and creates visual annotations.
  * 
  * ## Usage
@@ -908,7 +723,7 @@ export async function analyzeChart(
  * ```
  * 
  * ## Model Used
- * - gemini-3-pro-image-preview (image generation)
+ * - The provider's annotation model (gemini-3-pro-image-preview by default)
  * 
  * ## Fallback
  * If this fails, use generateAnnotationPlan() with ChartOverlayRenderer
@@ -916,33 +731,47 @@ export async function analyzeChart(
  * 
  * @param imageBase64 - Original chart image (base64)
  * @param analysis - ChartAnalysis from analyzeChart()
- * @returns Base64-encoded annotated image, or null if failed
+ * @param options - Pipeline options (provider override, signal, timeout, onTrace)
+ * @returns Base64-encoded annotated image, or null if failed, cancelled or timed out
  */
 export async function annotateChart(
   imageBase64: string, 
-  analysis: ChartAnalysis
+  analysis: ChartAnalysis,
+  options: ChartPipelineOptions = {}
 ): Promise<string | null> {
-  logSection("CHART ANNOTATION STARTED");
-  
-  const client = getAI();
-  if (!client) {
-    console.error("❌ API client not available for annotation");
+  const provider = resolveProvider(options.provider);
+  if (!provider) {
+    console.error("Model provider not available for annotation");
     return null;
   }
 
-  logSubsection("Building Annotation Instructions");
-  console.log(`📍 Zones to annotate: ${analysis.keyZones.length}`);
+  const prompt = options.prompt ?? selectPrompt("annotation");
+  const trace = createTraceRecorder({
+    kind: "annotation",
+    promptVersion: promptKey(prompt),
+    provider: provider.name,
+    model: provider.models.annotation,
+  }, { echo: TRACE_ECHO });
+  const finish = (image: string | null) => {
+    options.onTrace?.(trace.finish());
+    return image;
+  };
+
+  trace.stage("Building Annotation Instructions");
+  trace.info(`Zones to annotate: ${analysis.keyZones.length}`);
     
   // Build explicit zone instructions for the model
   const zoneInstructions = analysis.keyZones.map(zone => {
     const color = zone.type === "support" ? "GREEN" : "RED";
-    const instruction = `- ${color} zone at $${zone.price} (${zone.label})`;
-    console.log(`   ${instruction}`);
+    const instruction = zone.priceLow !== undefined && zone.priceHigh !== undefined
+      ? `- ${color} zone from $${zone.priceLow} to $${zone.priceHigh} (${zone.label}, level $${zone.price})`
+      : `- ${color} zone at $${zone.price} (${zone.label})`;
+    trace.info(`${instruction}`);
     return instruction;
   }).join("\n");
 
   if (analysis.keyZones.length === 0) {
-    console.log("   ⚠️ WARNING: No zones to annotate! Annotation may be empty.");
+    trace.warn("No zones to annotate - the annotation may be empty");
   }
 
   // Build range box instructions if present
@@ -953,7 +782,7 @@ RANGE BOX TO DRAW:
 - Draw a semi-transparent BLUE/PURPLE rectangle from $${analysis.rangeBox.low} (bottom) to $${analysis.rangeBox.high} (top)
 - This represents the trading range the asset is stuck in
 - Make it lighter opacity than the support/resistance zones`;
-    console.log(`📦 Range box: $${analysis.rangeBox.low} - $${analysis.rangeBox.high}`);
+    trace.info(`Range box: $${analysis.rangeBox.low} - $${analysis.rangeBox.high}`);
   }
 
   // Build pivot instructions if present
@@ -963,12 +792,38 @@ RANGE BOX TO DRAW:
 PIVOT MARKERS TO DRAW:
 ${analysis.pivots.points.map(p => `- ${p.label} at $${p.price}`).join("\n")}
 - Mark each with a DISTINCT hollow circle ⭕ (different from zones) and text label
-- Do NOT draw horizontal lines for pivots, just the marker
+- Do NOT draw horizontal lines for pivots, just the marker`;
+    trace.info(`Pivots: ${analysis.pivots.points.length} points`);
+  }
 
-OPTIONAL PATTERNS (If clearly visible):
-- If you see a clear Bull/Bear Flag, Wedge, or Channel, draw the trendlines in YELLOW
-- Keep them thin and clean`;
-    console.log(`📍 Pivots: ${analysis.pivots.points.length} points`);
+  // Build trendline/channel instructions if present
+  const describeLine = (anchors: TrendlineAnchor[]) =>
+    anchors.map(a => `$${a.price} at ${Math.round(a.x * 100)}% from the left`).join(", then ");
+  const lineInstructions = [
+    ...(analysis.trendlines ?? []).map(t =>
+      `- ${t.type === "support" ? "GREEN" : "RED"} ${t.status === "candidate" ? "DASHED" : "SOLID"} line "${t.label}" through ${describeLine(t.anchors)}`),
+    ...(analysis.channels ?? []).map(c =>
+      `- PURPLE ${c.direction} channel: top line through ${describeLine(c.upper.anchors)}; bottom line through ${describeLine(c.lower.anchors)}`),
+  ];
+  let trendlineInstruction = "";
+  if (lineInstructions.length > 0) {
+    trendlineInstruction = `
+TRENDLINES TO DRAW:
+${lineInstructions.join("\n")}
+- Thin straight lines through the listed points (wick highs for resistance, wick lows for support), extended to the right edge
+- DASHED lines are unconfirmed candidates - keep them lighter`;
+    trace.info(`Lines: ${lineInstructions.length}`);
+  }
+
+  // Build chart pattern instructions if present
+  let patternInstruction = "";
+  if (analysis.patterns && analysis.patterns.length > 0) {
+    patternInstruction = `
+CHART PATTERNS TO OUTLINE:
+${analysis.patterns.map(p => `- ${patternName(p).replace(/ pattern$/, "")} (${p.state}): connect ${p.points.map(point => `$${point.price}${point.label ? ` (${point.label})` : ""} at ${Math.round(point.x * 100)}% from the left`).join(" → ")}; dashed breakout line at $${p.breakoutLevel}`).join("\n")}
+- Thin YELLOW outline through the listed points with a small pattern label
+- Do NOT outline any pattern that is not listed`;
+    trace.info(`Patterns: ${analysis.patterns.length}`);
   }
 
   // Build the full user prompt
@@ -976,7 +831,7 @@ OPTIONAL PATTERNS (If clearly visible):
 
 ZONES TO DRAW (read the Y-axis to place these accurately):
 ${zoneInstructions || "- No specific zones provided, identify key levels from the chart"}
-${rangeBoxInstruction}${pivotInstruction}
+${rangeBoxInstruction}${pivotInstruction}${trendlineInstruction}${patternInstruction}
 
 Current price: $${analysis.currentPrice}
 
@@ -984,238 +839,337 @@ INSTRUCTIONS:
 1. Draw HORIZONTAL semi-transparent bands at each price level listed above
 2. GREEN/CYAN bands for support levels (below current price)
 3. RED/PINK bands for resistance levels (above current price)
-4. Each zone should be a band about 2-3% of the price range in height
+4. Each zone band spans exactly the price range listed for it (a thin band centred on the level if only one price is given)
 5. Add a small label near the right edge of each zone with the price
 6. Zones must span the full width of the chart
 7. Keep candles visible through the zones (semi-transparent)
-8. NO arrows, NO projections, NO trend lines - just horizontal zones and any range box specified
+8. NO arrows or projections - only the zones, range box, trendlines and patterns specified above
 
 The goal is a clean chart where a trader can immediately see the key price levels.`;
 
-  const fullPrompt = `${ANNOTATION_SYSTEM_INSTRUCTION}
+  const fullPrompt = `${prompt.template}
 
 ---
 
 USER REQUEST:
 ${userPrompt}`;
 
-  logSubsection("Full Prompt Being Sent");
-  console.log(fullPrompt);
+  // Version and size only: the trace is saved with the analysis in history,
+  // and the brief's zones/lines were recorded one by one above
+  trace.stage("Prompt");
+  trace.info(`${promptKey(prompt)}: ${fullPrompt.length} chars (${userPrompt.length}-char brief)`);
+
+  const limiter = createCallLimiter(options.signal, options.timeoutMs ?? MODEL_CALL_TIMEOUTS.annotation);
 
   try {
-    logSubsection("Calling Image Generation API");
-    console.log("🤖 Model: gemini-3-pro-image-preview");
+    trace.stage("Calling Image Generation API");
     
     const startTime = Date.now();
     
-    // === GEMINI IMAGE GENERATION API CALL ===
-    // This is the core structure for getting annotated images
-    const response = await client.models.generateContent({
-      model: "gemini-3-pro-image-preview",
-      contents: [
-        {
-          role: "user",
-          parts: [
-            // First part: the original chart image
-            {
-              inlineData: {
-                mimeType: "image/png",
-                data: imageBase64,
-              },
-            },
-            // Second part: annotation instructions
-            { text: fullPrompt },
-          ],
-        },
-      ],
-      config: {
-        // IMPORTANT: Request both TEXT and IMAGE response modalities
-        responseModalities: ["TEXT", "IMAGE"],
-      },
+    // === IMAGE GENERATION CALL ===
+    // Original chart + annotation instructions, edited image back
+    const response = await provider.annotate({
+      imageBase64,
+      mimeType: detectImageMime(imageBase64) ?? "image/png",
+      prompt: fullPrompt,
+      signal: limiter.next(),
     });
-    console.log(`⏱️ API response time: ${Date.now() - startTime}ms`);
+    trace.response(response.text, Date.now() - startTime);
 
-    // Extract the annotated image from response
-    const parts = response.candidates?.[0]?.content?.parts || [];
-    console.log(`📦 Response parts: ${parts.length}`);
-    
-    for (let i = 0; i < parts.length; i++) {
-      const part = parts[i];
-      console.log(`   Part ${i + 1}:`, {
-        hasText: !!part.text,
-        hasInlineData: !!part.inlineData,
-        inlineDataMimeType: part.inlineData?.mimeType,
-        inlineDataSize: part.inlineData?.data ? `${(part.inlineData.data.length / 1024).toFixed(1)} KB` : null,
-      });
-      
-      // Return the first image we find
-      if (part.inlineData?.data) {
-        console.log(`✅ Successfully got annotated image (${(part.inlineData.data.length / 1024).toFixed(1)} KB)`);
-        return part.inlineData.data;
-      }
+    if (response.image) {
+      trace.info(`Got annotated image (${(response.image.length / 1024).toFixed(1)} KB)`);
+      return finish(response.image);
     }
     
-    console.log("⚠️ No image data in response parts");
-    return null;
+    trace.warn("No image data in response");
+    return finish(null);
 
   } catch (error: unknown) {
-    const errorMessage = error instanceof Error ? error.message : "Unknown error";
-    console.error("❌ Annotation failed:", errorMessage);
-    return null;
+    const aborted = limiter.describeAbort("Annotation");
+    if (aborted) {
+      trace.warn(aborted);
+      return finish(null);
+    }
+    trace.error("Annotation failed", error);
+    return finish(null);
   }
 }
 
 // ============================================
-// CANVAS FALLBACK: ANNOTATION PLAN
+// HELPER FUNCTIONS
 // ============================================
 
 /**
- * Generate an annotation plan for canvas-based rendering.
- * 
- * Use this when Gemini image generation fails or is unavailable.
- * The returned plan can be passed to ChartOverlayRenderer component.
+ * Run the zone plausibility gates.
  * 
- * ## Usage
- * ```typescript
- * const analysis = await analyzeChart(imageBase64);
- * const plan = generateAnnotationPlan(analysis);
+ * Everything is gated first and capped last - a rejected misread
+ * shouldn't cost a real zone its slot.
  * 
- * // In React:
- * <ChartOverlayRenderer
- *   imageBase64={imageBase64}
- *   plan={plan}
- *   analysis={analysis}
- * />
- * ```
+ * 1. Impossible values (zero, negative, >10x the current price) - rejected
+ * 2. Proximity to current price - disabled
+ * 3. Outside the chart's visible price range - rejected
+ * 4. Support above / resistance below the current price - flagged
+ * 5. Cap at `maxZones`
  * 
- * @param analysis - ChartAnalysis from analyzeChart()
- * @returns AnnotationPlan for ChartOverlayRenderer
+ * @param trace - Records each gate decision (omitted for streamed partials, which are re-gated at the end)
  */
-export function generateAnnotationPlan(analysis: ChartAnalysis): AnnotationPlan {
-  logSubsection("Generating Canvas Annotation Plan");
+function gateZones(
+  rawZones: KeyZone[],
+  context: { currentPrice: number; visibleRange: VisiblePriceRange | null; maxZones: number },
+  trace?: TraceRecorder
+): { keyZones: KeyZone[]; issues: ValidationIssue[] } {
+  const { currentPrice, visibleRange } = context;
+  const issues: ValidationIssue[] = [];
+  const reject = (gate: TraceGate, item: string, price: number, reason: string) => {
+    trace?.gate({ gate, item, price, decision: "rejected", reason });
+    issues.push({ item, price, action: "rejected", reason });
+  };
+  let keyZones: KeyZone[] = [...rawZones];
   
-  const marks: AnnotationMark[] = [];
-  const theme: "dark" | "light" = "dark";
+  // GATE 1: Filter impossible values (negative, zero, or wildly high)
+  trace?.stage("Validation Gate 1: Impossible Values");
+  const beforeGate1 = keyZones.length;
+  keyZones = keyZones.filter(z => {
+    if (z.price <= 0) {
+      reject("impossible_value", zoneName(z), z.price, "Invalid price (zero or negative)");
+      return false;
+    }
+    if (currentPrice > 0 && z.price > currentPrice * 10) {
+      reject("impossible_value", zoneName(z), z.price, `More than 10x the current price ($${formatPrice(currentPrice)})`);
+      return false;
+    }
+    trace?.gate({ gate: "impossible_value", item: zoneName(z), price: z.price, decision: "kept" });
+    return true;
+  });
+  trace?.info(`Result: ${beforeGate1} → ${keyZones.length} zones`);
   
-  console.log(`📍 Creating marks for ${analysis.keyZones.length} zones`);
+  // GATE 2: Proximity filter - DISABLED
+  // We allow zones close to current price (testing support/resistance)
+  trace?.stage("Validation Gate 2: Proximity Filter (DISABLED)");
+  trace?.info("Allowing zones close to current price (testing support/resistance)");
   
-  // Add zone bands for each key level
-  for (const zone of analysis.keyZones) {
-    // Create a band around the price (0.8% of price)
-    const bandSize = zone.price * 0.008;
-    
-    // Opacity based on strength
-    const opacity = zone.strength === "strong" ? 0.22 : 
-                   zone.strength === "moderate" ? 0.16 : 0.10;
-    
-    console.log(`   Zone: $${zone.price} (${zone.type}) - band: $${(zone.price - bandSize).toFixed(2)} to $${(zone.price + bandSize).toFixed(2)}`);
-    
-    // Add the zone band
-    marks.push({
-      type: "zone",
-      role: zone.type,
-      priceHigh: zone.price + bandSize,
-      priceLow: zone.price - bandSize,
-      opacity,
-    });
-    
-    // Add label for the zone
-    marks.push({
-      type: "label",
-      role: zone.type,
-      price: zone.price,
-      text: zone.label,
+  // GATE 3: Visible price range - a level the chart can't show is a misread
+  // (e.g. 9,420 on a 94,200 chart)
+  trace?.stage("Validation Gate 3: Visible Price Range");
+  if (visibleRange) {
+    trace?.info(`Visible range: $${formatPrice(visibleRange.low)} - $${formatPrice(visibleRange.high)} (from ${visibleRange.source})`);
+    const beforeGate3 = keyZones.length;
+    keyZones = keyZones.filter(z => {
+      if (isOutsideRange(visibleRange, z.price)) {
+        reject("visible_range", zoneName(z), z.price, describeRange(visibleRange));
+        return false;
+      }
+      return true;
     });
+    trace?.info(`Result: ${beforeGate3} → ${keyZones.length} zones`);
+  } else {
+    trace?.info("Skipped: price axis not read");
   }
   
-  // Add range box if present
-  if (analysis.rangeBox) {
-    console.log(`   Range box: $${analysis.rangeBox.low} to $${analysis.rangeBox.high}`);
-    marks.push({
-      type: "range_box",
-      role: "range",
-      priceHigh: analysis.rangeBox.high,
-      priceLow: analysis.rangeBox.low,
-      opacity: 0.08, // Very light
+  // GATE 4: Wrong side of current price - flagged, not dropped
+  // (usually a broken level the model didn't relabel after a role flip)
+  trace?.stage("Validation Gate 4: Support/Resistance Side");
+  if (currentPrice > 0) {
+    keyZones = keyZones.map(z => {
+      const wrongSide = z.type === "support"
+        ? z.price > currentPrice * (1 + SIDE_TOLERANCE_PCT)
+        : z.price < currentPrice * (1 - SIDE_TOLERANCE_PCT);
+      if (!wrongSide) return z;
+      const warning = z.type === "support"
+        ? `Labeled support but sits above the current price ($${formatPrice(currentPrice)}) - likely acting as resistance`
+        : `Labeled resistance but sits below the current price ($${formatPrice(currentPrice)}) - likely acting as support`;
+      trace?.gate({ gate: "side", item: zoneName(z), price: z.price, decision: "flagged", reason: warning });
+      issues.push({ item: zoneName(z), price: z.price, action: "flagged", reason: warning });
+      return { ...z, warning };
     });
+  } else {
+    trace?.info("Skipped: no current price");
   }
   
-  // Add pivot markers if present
-  if (analysis.pivots && analysis.pivots.points.length > 0) {
-    for (const pivot of analysis.pivots.points) {
-      const role = `pivot_${pivot.label.toLowerCase()}` as "pivot_hh" | "pivot_hl" | "pivot_lh" | "pivot_ll";
-      console.log(`   Pivot: ${pivot.label} @ $${pivot.price}`);
-      marks.push({
-        type: "pivot",
-        role,
-        price: pivot.price,
-        text: pivot.label,
-      });
-    }
-  }
+  // GATE 5: Cap at the profile's zone limit
+  keyZones.slice(context.maxZones).forEach(z =>
+    trace?.gate({ gate: "zone_cap", item: zoneName(z), price: z.price, decision: "rejected", reason: `Over the ${context.maxZones}-zone limit` }));
+  keyZones = keyZones.slice(0, context.maxZones);
   
-  // Add fakeout markers if present
-  if (analysis.fakeouts && analysis.fakeouts.length > 0) {
-    for (const fakeout of analysis.fakeouts) {
-      const role = fakeout.direction === "above" ? "fakeout_above" : "fakeout_below";
-      console.log(`   Fakeout: ${fakeout.direction} @ $${fakeout.level}`);
-      marks.push({
-        type: "fakeout",
-        role,
-        price: fakeout.level,
-        text: `Fakeout ${fakeout.direction}`,
-      });
+  return { keyZones, issues };
+}
+
+/**
+ * Read a streamed analysis to the end, reporting each section as soon as
+ * it is complete and valid.
+ * 
+ * @returns The full response text, for the normal parse/repair path
+ */
+async function streamAnalysis(
+  chunks: AsyncIterable<string>,
+  profile: AnalysisProfile,
+  onPartial: (progress: AnalysisProgress) => void,
+  trace: TraceRecorder
+): Promise<string> {
+  let text = "";
+  let chunkCount = 0;
+  const reported = new Set<AnalysisSection>();
+  
+  for await (const chunk of chunks) {
+    text += chunk;
+    chunkCount++;
+    const fields = readCompleteFields(text);
+    const ready: Record<AnalysisSection, boolean> = {
+      story: fields.story !== undefined,
+      regime: fields.regime !== undefined,
+      zones: fields.keyZones !== undefined,
+      scenarios: fields.scenarios !== undefined,
+    };
+    const newSections = ANALYSIS_SECTIONS.filter(section => ready[section] && !reported.has(section));
+    if (newSections.length === 0) continue;
+    
+    const partial = buildPartialAnalysis(fields, ready, profile);
+    for (const section of newSections) {
+      trace.info(`Streamed section: ${section} (after ${chunkCount} chunks)`);
+      reported.add(section);
+      onPartial({ section, analysis: partial });
     }
   }
   
-  // Add current price line (dashed)
-  if (analysis.currentPrice > 0) {
-    console.log(`   Current price line: $${analysis.currentPrice}`);
-    marks.push({
-      type: "line",
-      role: "current_price",
-      price: analysis.currentPrice,
-      style: "dashed",
-    });
-  }
+  trace.info(`Stream complete: ${chunkCount} chunks, ${ANALYSIS_SECTIONS.length - reported.size} section(s) never completed`);
+  return text;
+}
+
+/**
+ * Validate the completed fields of a streaming response.
+ * Zones go through the same gates as the final result.
+ */
+function buildPartialAnalysis(
+  fields: Record<string, unknown>,
+  ready: Record<AnalysisSection, boolean>,
+  profile: AnalysisProfile
+): PartialAnalysis {
+  const { value: parsed } = parseChartAnalysis(fields);
+  const partial: PartialAnalysis = {
+    story: parsed.story,
+    currentContext: parsed.currentContext,
+    regime: parsed.regime,
+    currentPrice: parsed.currentPrice,
+    symbol: parsed.symbol,
+    timeframe: parsed.timeframe,
+    invalidation: parsed.invalidation,
+  };
   
-  console.log(`📊 Total marks created: ${marks.length}`);
+  if (ready.zones) {
+    const yAxis = parsed.priceAxis
+      ? fitYAxisCalibration(parsed.priceAxis.labels, parsed.priceAxis.scale)
+      : null;
+    const keyZones = gateZones(parsed.keyZones, {
+      currentPrice: parsed.currentPrice ?? 0,
+      visibleRange: getVisiblePriceRange(yAxis, parsed.priceAxis?.labels),
+      maxZones: profile.maxZones,
+    }).keyZones;
+    const volatility = estimateVolatility(parsed.currentPrice ?? 0, { candleRange: parsed.typicalCandleRange, timeframe: parsed.timeframe });
+    partial.keyZones = bandZones(keyZones, volatility);
+  }
+  if (ready.scenarios) {
+    partial.scenarios = parsed.scenarios.slice(0, profile.scenarioCount);
+  }
   
-  return {
-    theme,
-    story: analysis.story,
-    marks,
-  };
+  return partial;
 }
 
-// ============================================
-// HELPER FUNCTIONS
-// ============================================
+/** Price range the chart image can show, and what it was derived from */
+interface VisiblePriceRange {
+  low: number;
+  high: number;
+  source: "calibration" | "labels";
+}
 
 /**
- * Create an empty/failed analysis result.
- * Used when API calls fail or return invalid data.
+ * Price range the chart image can actually show.
  * 
- * @param error - Error message to include
- * @returns ChartAnalysis with success: false
+ * From the Y-axis calibration when available (prices at the image's top
+ * and bottom edges), otherwise from the raw axis labels padded by a
+ * quarter of their span. Null when the axis wasn't read.
  */
-function createEmptyAnalysis(error?: string): ChartAnalysis {
-  console.log(`⚠️ Creating empty analysis with error: ${error}`);
-  return {
-    story: error || "Unable to analyze chart",
-    currentContext: "Unknown",
-    keyZones: [],
-    scenarios: [
-      { condition: "Unable to determine", implication: "Analysis failed" },
-      { condition: "Unable to determine", implication: "Analysis failed" },
-    ],
-    invalidation: "Unknown",
-    regime: { type: "ranging", confidence: 0 },
-    currentPrice: 0,
-    analyzedAt: new Date().toISOString(),
-    success: false,
-    error,
-  };
+function getVisiblePriceRange(
+  yAxis: YAxisCalibration | null,
+  labels: AxisLabelReading[] | undefined
+): VisiblePriceRange | null {
+  if (yAxis) {
+    return { low: Math.max(0, yToPrice(yAxis, 1)), high: yToPrice(yAxis, 0), source: "calibration" };
+  }
+  if (labels && labels.length >= 2) {
+    const prices = labels.map(l => l.price);
+    const min = Math.min(...prices);
+    const max = Math.max(...prices);
+    const padding = (max - min) * 0.25;
+    if (padding > 0) return { low: Math.max(0, min - padding), high: max + padding, source: "labels" };
+  }
+  return null;
+}
+
+function isOutsideRange(range: VisiblePriceRange | null, price: number): boolean {
+  return range !== null && (price < range.low || price > range.high);
+}
+
+function describeRange(range: VisiblePriceRange): string {
+  return `Outside the chart's visible price range ($${formatPrice(range.low)}–$${formatPrice(range.high)})`;
+}
+
+/** "Support 'Range low'" - how a zone is named in validation issues */
+function zoneName(zone: KeyZone): string {
+  return `${zone.type === "support" ? "Support" : "Resistance"} '${zone.label}'`;
+}
+
+/** Format a price for messages without float noise (94,200 / 22.4 / 0.000123) */
+function formatPrice(price: number): string {
+  return price.toLocaleString("en-US", { maximumSignificantDigits: 6 });
+}
+
+/**
+ * Parse model output as JSON, asking for a repair on failure.
+ * 
+ * Markdown fences are stripped before each attempt. On a parse error the
+ * broken text and error message go to `repair`, whose output is tried
+ * next - up to `maxAttempts` times.
+ * 
+ * @param text - Raw model output
+ * @param maxAttempts - Maximum repair round-trips (0 disables repair)
+ * @param repair - Sends broken text + parse error to the model, returns new text
+ * @param trace - Records each parse failure and repair round-trip
+ * @returns Parsed value and the number of repairs used, or the last failure
+ *   (with `error` if a repair call threw - a timeout or API error - counting
+ *   that call as an attempt)
+ */
+async function parseJsonWithRepair(
+  text: string,
+  maxAttempts: number,
+  repair: (broken: string, parseError: string) => Promise<string>,
+  trace: TraceRecorder
+): Promise<
+  | { ok: true; value: unknown; attempts: number }
+  | { ok: false; attempts: number; lastText: string; error?: unknown }
+> {
+  let current = text;
+  for (let attempts = 0; ; attempts++) {
+    try {
+      const cleaned = current.replace(/```json\n?/g, "").replace(/```\n?/g, "").trim();
+      const value = JSON.parse(cleaned);
+      if (attempts > 0) trace.info(`JSON repaired after ${attempts} attempt(s)`);
+      return { ok: true, value, attempts };
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : String(error);
+      trace.warn(`JSON parse failed (attempt ${attempts + 1}): ${message}`);
+      if (attempts >= maxAttempts) {
+        return { ok: false, attempts, lastText: current };
+      }
+      trace.stage(`Repair Attempt ${attempts + 1}/${maxAttempts}`);
+      try {
+        current = await repair(current, message);
+      } catch (repairError) {
+        trace.repair({ parseError: message });
+        return { ok: false, attempts: attempts + 1, lastText: current, error: repairError };
+      }
+      trace.repair({ parseError: message, response: current });
+    }
+  }
 }
 
 // ============================================
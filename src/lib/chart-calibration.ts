@@ -0,0 +1,311 @@
+/**
+ * Chart Calibration Module
+ * ========================
+ *
+ * Maps prices to pixel rows and times to pixel columns on the original
+ * screenshot, so overlay marks land on the candles instead of on a guessed
+ * plot area, and pivots/touches/fakeouts can carry timestamps.
+ *
+ * The analysis model reads a handful of price-axis labels together with
+ * the vertical position of each label (as a fraction of image height).
+ * fitYAxisCalibration() fits a line through those readings, in either
+ * price space (linear axis) or log-price space (log axis):
+ *
+ * ```
+ * y = intercept + slope * price          (linear)
+ * y = intercept + slope * ln(price)      (log)
+ * ```
+ *
+ * The time axis works the same way with label timestamps and horizontal
+ * positions, always linear (fitXAxisCalibration()).
+ *
+ * Positions are normalized (0 = top/left edge, 1 = bottom/right edge), so
+ * the same calibration works at any display size - multiply by the canvas
+ * height or width.
+ *
+ * ## Usage
+ * ```typescript
+ * const yAxis = fitYAxisCalibration([{ price: 98000, y: 0.25 }, { price: 94000, y: 0.59 }]);
+ * if (yAxis) {
+ *   const pixelY = priceToY(yAxis, 96150) * canvas.height;
+ * }
+ * ```
+ *
+ * This module is pure (no model calls) and safe to import anywhere.
+ *
+ * @module chart-calibration
+ */
+
+// ============================================
+// TYPES
+// ============================================
+
+/** How the price axis is spaced */
+export type PriceScale = "linear" | "log";
+
+/**
+ * One price label read off the Y-axis.
+ */
+export interface AxisLabelReading {
+  /** Price printed on the label */
+  price: number;
+  /** Vertical center of the label (0 = top of image, 1 = bottom) */
+  y: number;
+}
+
+/**
+ * Fitted price → vertical position mapping.
+ */
+export interface YAxisCalibration {
+  /** Axis spacing the fit was done in */
+  scale: PriceScale;
+  /** Change in y per unit of price (or ln price); negative, since y grows downward */
+  slope: number;
+  /** y at price 1 (log) or price 0 (linear) */
+  intercept: number;
+  /** Labels the fit was built from (outliers removed) */
+  labels: AxisLabelReading[];
+  /** Largest distance between a label and the fitted line, as a fraction of image height */
+  maxResidual: number;
+}
+
+/**
+ * One label read off the time (X) axis.
+ */
+export interface TimeAxisLabelReading {
+  /** Timestamp the label stands for (epoch ms) */
+  time: number;
+  /** Horizontal center of the label (0 = left of image, 1 = right) */
+  x: number;
+}
+
+/**
+ * Fitted time → horizontal position mapping.
+ */
+export interface XAxisCalibration {
+  /** Change in x per millisecond; positive, since time runs left to right */
+  slope: number;
+  /** x at epoch 0 */
+  intercept: number;
+  /** Labels the fit was built from (outliers removed) */
+  labels: TimeAxisLabelReading[];
+  /** Largest distance between a label and the fitted line, as a fraction of image width */
+  maxResidual: number;
+  /** Time of the latest candle on the chart (epoch ms), if its position was read */
+  lastCandleTime?: number;
+}
+
+// ============================================
+// FIT TUNING
+// ============================================
+
+export const Y_AXIS_FIT = {
+  /** Labels needed before a fit is attempted */
+  minLabels: 2,
+  /** Labels needed before the scale is auto-detected (2 points fit both perfectly) */
+  minLabelsForScaleDetection: 3,
+  /** A label further than this from the line is treated as a misread (fraction of image height) */
+  outlierResidual: 0.02,
+  /** Fits worse than this are rejected outright */
+  maxResidual: 0.05,
+};
+
+export const X_AXIS_FIT = {
+  /** Labels needed before a fit is attempted */
+  minLabels: 2,
+  /** A label further than this from the line is treated as a misread (fraction of image width) */
+  outlierResidual: 0.02,
+  /** Looser than the Y-axis: session gaps (weekends, overnight) bend a time axis slightly */
+  maxResidual: 0.08,
+};
+
+// ============================================
+// FITTING
+// ============================================
+
+/**
+ * Fit a price → y mapping from axis label readings.
+ *
+ * When `scale` isn't given and there are enough labels, both linear and
+ * log fits are tried and the tighter one wins. With 4+ labels, the single
+ * worst label is dropped if it sits off the line (one misread digit
+ * shouldn't skew the whole axis).
+ *
+ * @param labels - Price labels and their vertical positions
+ * @param scale - Axis scale if known (e.g. the model saw a "log" toggle)
+ * @returns Calibration, or null if the labels can't produce a sane fit
+ */
+export function fitYAxisCalibration(labels: AxisLabelReading[], scale?: PriceScale): YAxisCalibration | null {
+  // One reading per price, only on-image positions
+  const byPrice = new Map<number, AxisLabelReading>();
+  for (const label of labels) {
+    if (label.price > 0 && label.y >= 0 && label.y <= 1 && !byPrice.has(label.price)) {
+      byPrice.set(label.price, label);
+    }
+  }
+  const readings = [...byPrice.values()];
+  if (readings.length < Y_AXIS_FIT.minLabels) return null;
+
+  const scales: PriceScale[] = scale
+    ? [scale]
+    : readings.length >= Y_AXIS_FIT.minLabelsForScaleDetection
+      ? ["linear", "log"]
+      : ["linear"];
+
+  let best: YAxisCalibration | null = null;
+  for (const candidate of scales) {
+    // Higher prices sit higher on the image, i.e. smaller y
+    const fit = fitAxis(
+      readings.map(r => ({ u: toAxisSpace(candidate, r.price), v: r.y })),
+      "decreasing",
+      Y_AXIS_FIT.outlierResidual
+    );
+    if (fit && (!best || fit.maxResidual < best.maxResidual)) {
+      best = {
+        scale: candidate,
+        slope: fit.slope,
+        intercept: fit.intercept,
+        labels: fit.kept.map(i => readings[i]),
+        maxResidual: fit.maxResidual,
+      };
+    }
+  }
+
+  if (!best || best.maxResidual > Y_AXIS_FIT.maxResidual) return null;
+  return best;
+}
+
+/**
+ * Fit a time → x mapping from time-axis label readings.
+ *
+ * Time is treated as linear across the visible window. That's exact for
+ * 24/7 markets and close enough for session-based ones at the resolution
+ * we need ("~3 days ago", which candle to put a marker on).
+ *
+ * @param labels - Label timestamps and their horizontal positions
+ * @param lastCandleX - Horizontal position of the latest candle, if read
+ * @returns Calibration, or null if the labels can't produce a sane fit
+ */
+export function fitXAxisCalibration(labels: TimeAxisLabelReading[], lastCandleX?: number): XAxisCalibration | null {
+  // One reading per timestamp, only on-image positions
+  const byTime = new Map<number, TimeAxisLabelReading>();
+  for (const label of labels) {
+    if (Number.isFinite(label.time) && label.x >= 0 && label.x <= 1 && !byTime.has(label.time)) {
+      byTime.set(label.time, label);
+    }
+  }
+  const readings = [...byTime.values()];
+  if (readings.length < X_AXIS_FIT.minLabels) return null;
+
+  // Later times sit further right, i.e. larger x
+  const fit = fitAxis(
+    readings.map(r => ({ u: r.time, v: r.x })),
+    "increasing",
+    X_AXIS_FIT.outlierResidual
+  );
+  if (!fit || fit.maxResidual > X_AXIS_FIT.maxResidual) return null;
+
+  const calibration: XAxisCalibration = {
+    slope: fit.slope,
+    intercept: fit.intercept,
+    labels: fit.kept.map(i => readings[i]),
+    maxResidual: fit.maxResidual,
+  };
+  if (lastCandleX !== undefined && lastCandleX >= 0 && lastCandleX <= 1) {
+    calibration.lastCandleTime = xToTime(calibration, lastCandleX);
+  }
+  return calibration;
+}
+
+interface LineFit {
+  slope: number;
+  intercept: number;
+  maxResidual: number;
+  /** Indexes of the points the final fit used */
+  kept: number[];
+}
+
+/**
+ * Least-squares line through (u, v), dropping the single worst point when
+ * there are 4+ points and it sits more than `outlierResidual` off the line.
+ */
+function fitAxis(
+  points: { u: number; v: number }[],
+  direction: "increasing" | "decreasing",
+  outlierResidual: number
+): LineFit | null {
+  const all = points.map((_, i) => i);
+  const fit = fitLine(points, all, direction);
+  if (!fit || points.length < 4 || fit.maxResidual <= outlierResidual) return fit;
+
+  const residual = (i: number) => Math.abs(fit.intercept + fit.slope * points[i].u - points[i].v);
+  const worst = all.reduce((a, b) => (residual(b) > residual(a) ? b : a));
+  return fitLine(points, all.filter(i => i !== worst), direction) ?? fit;
+}
+
+/**
+ * Least-squares line through the selected points.
+ * Rejects fits whose slope has the wrong sign for the axis.
+ */
+function fitLine(
+  points: { u: number; v: number }[],
+  indexes: number[],
+  direction: "increasing" | "decreasing"
+): LineFit | null {
+  const n = indexes.length;
+  const meanU = indexes.reduce((s, i) => s + points[i].u, 0) / n;
+  const meanV = indexes.reduce((s, i) => s + points[i].v, 0) / n;
+
+  let suu = 0;
+  let suv = 0;
+  for (const i of indexes) {
+    suu += (points[i].u - meanU) ** 2;
+    suv += (points[i].u - meanU) * (points[i].v - meanV);
+  }
+  if (suu === 0) return null;
+
+  const slope = suv / suu;
+  if (direction === "decreasing" ? !(slope < 0) : !(slope > 0)) return null;
+
+  const intercept = meanV - slope * meanU;
+  const maxResidual = Math.max(...indexes.map(i => Math.abs(intercept + slope * points[i].u - points[i].v)));
+  return { slope, intercept, maxResidual, kept: indexes };
+}
+
+// ============================================
+// MAPPING
+// ============================================
+
+/**
+ * Vertical position of a price (0 = top of image, 1 = bottom).
+ * Prices outside the labelled range extrapolate past 0/1.
+ */
+export function priceToY(calibration: Pick<YAxisCalibration, "scale" | "slope" | "intercept">, price: number): number {
+  return calibration.intercept + calibration.slope * toAxisSpace(calibration.scale, price);
+}
+
+/**
+ * Price at a vertical position (inverse of priceToY).
+ */
+export function yToPrice(calibration: Pick<YAxisCalibration, "scale" | "slope" | "intercept">, y: number): number {
+  const x = (y - calibration.intercept) / calibration.slope;
+  return calibration.scale === "log" ? Math.exp(x) : x;
+}
+
+/**
+ * Horizontal position of a time (0 = left of image, 1 = right).
+ */
+export function timeToX(calibration: Pick<XAxisCalibration, "slope" | "intercept">, time: number): number {
+  return calibration.intercept + calibration.slope * time;
+}
+
+/**
+ * Time (epoch ms) at a horizontal position (inverse of timeToX).
+ */
+export function xToTime(calibration: Pick<XAxisCalibration, "slope" | "intercept">, x: number): number {
+  return (x - calibration.intercept) / calibration.slope;
+}
+
+function toAxisSpace(scale: PriceScale, price: number): number {
+  return scale === "log" ? Math.log(price) : price;
+}
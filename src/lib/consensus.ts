@@ -0,0 +1,321 @@
+/**
+ * Consensus Analysis Module
+ * =========================
+ *
+ * A single analyzeChart() call gives slightly different zones every run.
+ * Consensus mode runs N analyses of the same chart in parallel and keeps
+ * only what they agree on:
+ *
+ * 1. **Zones** - every sample's zones are pooled and clustered by price
+ *    (within a tolerance) and type. A cluster survives if it appears in at
+ *    least `quorum` samples; its confidence is the share of requested
+ *    samples that contain it.
+ * 2. **Regime** - majority vote over the samples' regime types.
+ * 3. **Narrative** - story, scenarios and invalidation come from the most
+ *    confident sample that voted with the majority.
+ *
+ * Failed samples count against agreement. If fewer samples succeed than the
+ * quorum, nothing can be agreed on: the result is the most confident sample
+ * as-is, marked `consensus.degraded`.
+ *
+ * The result's trace describes the consensus run - each sample's outcome,
+ * the quorum decision on every zone cluster and the regime vote - not any
+ * one sample.
+ *
+ * ## Usage
+ * ```typescript
+ * const analysis = await analyzeChartConsensus(imageBase64, question, { samples: 3 });
+ * analysis.keyZones[0].confidence; // 1 = all samples agreed
+ * analysis.consensus;              // { samples: 3, succeeded: 3, quorum: 2, ... }
+ * ```
+ *
+ * @module consensus
+ */
+
+import { analyzeChart, ChartPipelineOptions, TRACE_ECHO } from "./chart-analysis";
+import { ChartAnalysis, KeyZone, Regime } from "./analysis-result";
+import { createTraceRecorder, TraceRecorder } from "./analysis-trace";
+import { resolveProvider } from "./model-provider";
+import { DEFAULT_ANALYSIS_PROFILE } from "./analysis-profile";
+import { clusterByPrice, median } from "./price-clustering";
+import { promptKey, selectPrompt } from "./prompt-registry";
+import { decimalPlaces, shiftBand } from "./zone-bands";
+
+// ============================================
+// OPTIONS
+// ============================================
+
+export interface ConsensusOptions extends ChartPipelineOptions {
+  /** Number of parallel analyses (default 3) */
+  samples?: number;
+  /** Zones within this fraction of each other are the same level (default 0.005 = 0.5%) */
+  tolerancePct?: number;
+  /** Samples a zone must appear in to be kept (default: majority of requested samples) */
+  quorum?: number;
+}
+
+export const CONSENSUS_DEFAULTS = {
+  samples: 3,
+  tolerancePct: 0.005,
+};
+
+// ============================================
+// ZONE CLUSTERING
+// ============================================
+
+/**
+ * A group of zones from different sources that sit at the same level.
+ */
+export interface ZoneCluster {
+  /** Representative zone (median price, label from the closest member) */
+  zone: KeyZone;
+  /** Indexes of the sources (samples, timeframes...) that contain this level */
+  sources: number[];
+  /** Every member zone, tagged with its source */
+  members: { source: number; zone: KeyZone }[];
+}
+
+const STRENGTH_RANK: Record<KeyZone["strength"], number> = { weak: 1, moderate: 2, strong: 3 };
+
+/**
+ * Cluster zones from several sources by price and type.
+ *
+ * Zones are merged with clusterByPrice() (within `tolerancePct` of the
+ * running cluster median). Support and resistance are clustered separately.
+ *
+ * @param sources - One zone list per source
+ * @param tolerancePct - Relative price tolerance for merging
+ * @returns Clusters sorted by number of agreeing sources, then strength
+ */
+export function clusterZones(sources: KeyZone[][], tolerancePct: number): ZoneCluster[] {
+  const clusters: ZoneCluster[] = [];
+
+  for (const type of ["support", "resistance"] as const) {
+    const pooled = sources
+      .flatMap((zones, source) => zones.filter(z => z.type === type).map(zone => ({ source, zone })));
+    for (const members of clusterByPrice(pooled, m => m.zone.price, tolerancePct)) {
+      clusters.push(buildCluster(members));
+    }
+  }
+
+  return clusters.sort((a, b) =>
+    b.sources.length - a.sources.length ||
+    STRENGTH_RANK[b.zone.strength] - STRENGTH_RANK[a.zone.strength]
+  );
+}
+
+function buildCluster(members: { source: number; zone: KeyZone }[]): ZoneCluster {
+  const price = median(members.map(m => m.zone.price));
+  const closest = members.reduce((best, m) =>
+    Math.abs(m.zone.price - price) < Math.abs(best.zone.price - price) ? m : best
+  );
+  // Strongest member wins: a level one sample rated "strong" is still strong
+  const strength = members.reduce<KeyZone["strength"]>(
+    (best, m) => (STRENGTH_RANK[m.zone.strength] > STRENGTH_RANK[best] ? m.zone.strength : best),
+    "weak"
+  );
+
+  const rounded = roundLike(price, closest.zone.price);
+
+  return {
+    zone: { ...closest.zone, price: rounded, ...shiftBand(closest.zone, rounded), strength },
+    sources: [...new Set(members.map(m => m.source))].sort((a, b) => a - b),
+    members,
+  };
+}
+
+// ============================================
+// REGIME VOTE
+// ============================================
+
+/**
+ * Majority vote over regime types.
+ * Ties go to the type with the higher average confidence.
+ *
+ * @returns Winning regime (average confidence of its voters) and vote share
+ */
+export function voteRegime(regimes: Regime[]): { regime: Regime; agreement: number } {
+  const votes = new Map<Regime["type"], number[]>();
+  for (const regime of regimes) {
+    votes.set(regime.type, [...(votes.get(regime.type) || []), regime.confidence]);
+  }
+
+  let winner: { type: Regime["type"]; confidences: number[] } | null = null;
+  for (const [type, confidences] of votes) {
+    if (
+      !winner ||
+      confidences.length > winner.confidences.length ||
+      (confidences.length === winner.confidences.length && mean(confidences) > mean(winner.confidences))
+    ) {
+      winner = { type, confidences };
+    }
+  }
+
+  if (!winner) return { regime: { type: "ranging", confidence: 0 }, agreement: 0 };
+  return {
+    regime: { type: winner.type, confidence: mean(winner.confidences) },
+    agreement: winner.confidences.length / regimes.length,
+  };
+}
+
+// ============================================
+// CONSENSUS ANALYSIS
+// ============================================
+
+/**
+ * Run several analyses in parallel and merge them into one.
+ *
+ * Every sample uses the same prompt template, rolled once for the request.
+ *
+ * @param imageBase64 - Base64-encoded chart image
+ * @param userQuestion - Optional question about the chart
+ * @param options - Sample count, tolerance, quorum and pipeline options
+ * @returns Merged ChartAnalysis with `consensus` metadata
+ */
+export async function analyzeChartConsensus(
+  imageBase64: string,
+  userQuestion?: string,
+  options: ConsensusOptions = {}
+): Promise<ChartAnalysis> {
+  const samples = Math.max(1, Math.floor(options.samples ?? CONSENSUS_DEFAULTS.samples));
+  const prompt = options.prompt ?? selectPrompt("analysis");
+  const provider = resolveProvider(options.provider);
+  const trace = createTraceRecorder({
+    kind: "analysis",
+    promptVersion: promptKey(prompt),
+    provider: provider?.name ?? "none",
+    model: provider?.models.analysis ?? "none",
+  }, { echo: TRACE_ECHO });
+
+  // Sample traces are summarized into the consensus trace, not reported one by one
+  const results = await Promise.all(
+    Array.from({ length: samples }, () =>
+      analyzeChart(imageBase64, userQuestion, { ...options, prompt, onTrace: undefined }))
+  );
+  const succeeded = results.filter(r => r.success);
+
+  trace.stage("Consensus Samples");
+  results.forEach((result, i) => {
+    const took = result.trace ? ` in ${result.trace.totalMs}ms` : "";
+    if (result.success) trace.info(`Sample ${i + 1}: ${result.keyZones.length} zones, regime ${result.regime.type}${took}`);
+    else trace.warn(`Sample ${i + 1} failed: ${result.story}${took}`);
+  });
+
+  const finish = (analysis: ChartAnalysis): ChartAnalysis => {
+    const done = trace.finish();
+    options.onTrace?.(done);
+    return { ...analysis, trace: done };
+  };
+
+  if (succeeded.length === 0) {
+    trace.error("No samples succeeded");
+    return finish(results[0]);
+  }
+
+  return finish(mergeAnalyses(succeeded, {
+    samples,
+    tolerancePct: options.tolerancePct,
+    quorum: options.quorum,
+    maxZones: options.profile?.maxZones,
+  }, trace));
+}
+
+/**
+ * Merge successful analyses of the same chart.
+ *
+ * Quorum and agreement are measured against the requested sample count,
+ * so failed samples count as not agreeing.
+ *
+ * @param analyses - Successful samples (at least one)
+ * @param options - Requested sample count (default: analyses.length), tolerance, quorum and zone cap (default: profile maxZones)
+ * @param trace - Records the quorum decision on each cluster and the regime vote (optional)
+ * @returns Merged ChartAnalysis with `consensus` metadata
+ */
+export function mergeAnalyses(
+  analyses: ChartAnalysis[],
+  options: { samples?: number; tolerancePct?: number; quorum?: number; maxZones?: number } = {},
+  trace?: TraceRecorder
+): ChartAnalysis {
+  const tolerancePct = options.tolerancePct ?? CONSENSUS_DEFAULTS.tolerancePct;
+  const samples = Math.max(analyses.length, options.samples ?? analyses.length);
+  const quorum = Math.min(samples, options.quorum ?? Math.floor(samples / 2) + 1);
+
+  trace?.stage("Consensus Merge");
+  trace?.info(`Quorum: ${quorum} of ${samples} requested samples (${analyses.length} succeeded)`);
+
+  // Too few samples left to agree on anything: one sample's read, labeled as such
+  if (analyses.length < quorum) {
+    const best = analyses.reduce((a, b) => (b.regime.confidence > a.regime.confidence ? b : a));
+    trace?.warn(`Only ${analyses.length} sample(s) succeeded - below quorum, showing the most confident sample unmerged`);
+    return {
+      ...best,
+      consensus: {
+        samples,
+        succeeded: analyses.length,
+        quorum,
+        tolerancePct,
+        regimeAgreement: 1 / samples,
+        degraded: true,
+      },
+    };
+  }
+
+  // Zones: keep clusters that reached quorum
+  const clusters = clusterZones(analyses.map(a => a.keyZones), tolerancePct);
+  const maxZones = options.maxZones ?? DEFAULT_ANALYSIS_PROFILE.maxZones;
+  const keyZones: KeyZone[] = [];
+  for (const cluster of clusters) {
+    const item = `${cluster.zone.type === "support" ? "Support" : "Resistance"} '${cluster.zone.label}'`;
+    const found = `in ${cluster.sources.length}/${samples} samples`;
+    if (cluster.sources.length < quorum) {
+      trace?.gate({ gate: "quorum", item, price: cluster.zone.price, decision: "rejected", reason: `Only ${found}` });
+    } else if (keyZones.length >= maxZones) {
+      trace?.gate({ gate: "zone_cap", item, price: cluster.zone.price, decision: "rejected", reason: `Over the ${maxZones}-zone cap (${found})` });
+    } else {
+      trace?.gate({ gate: "quorum", item, price: cluster.zone.price, decision: "kept", reason: `Found ${found}` });
+      keyZones.push({ ...cluster.zone, confidence: cluster.sources.length / samples });
+    }
+  }
+
+  // Regime: majority vote
+  const vote = voteRegime(analyses.map(a => a.regime));
+  const { regime } = vote;
+  const agreement = (vote.agreement * analyses.length) / samples;
+  trace?.info(`Regime vote: ${regime.type} with ${Math.round(agreement * samples)}/${samples} samples`);
+
+  // Narrative: most confident sample that agrees with the majority
+  const base = analyses
+    .filter(a => a.regime.type === regime.type)
+    .reduce((best, a) => (a.regime.confidence > best.regime.confidence ? a : best));
+
+  return {
+    ...base,
+    keyZones,
+    regime,
+    currentPrice: median(analyses.map(a => a.currentPrice).filter(p => p > 0)) || base.currentPrice,
+    consensus: {
+      samples,
+      succeeded: analyses.length,
+      quorum,
+      tolerancePct,
+      regimeAgreement: agreement,
+      degraded: false,
+    },
+  };
+}
+
+// ============================================
+// HELPERS
+// ============================================
+
+function mean(values: number[]): number {
+  return values.length === 0 ? 0 : values.reduce((sum, v) => sum + v, 0) / values.length;
+}
+
+/**
+ * Round a computed price to the precision of a reference price, so a
+ * median of 94,200 and 94,250 reads 94,225 rather than 94225.000001.
+ */
+function roundLike(value: number, reference: number): number {
+  return Number(value.toFixed(decimalPlaces(reference)));
+}
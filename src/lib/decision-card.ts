@@ -0,0 +1,203 @@
+/**
+ * Decision Card Module
+ * ====================
+ *
+ * Turns each free-text scenario into a trade frame computed from the
+ * analysis' own numbers, so the card can show risk next to reward:
+ *
+ * | Level   | Where it comes from                                                  |
+ * |---------|----------------------------------------------------------------------|
+ * | Entry   | The price in the scenario condition ("...above $98,500"), tied to    |
+ * |         | the key zone at that price if there is one                           |
+ * | Stop    | Just beyond the invalidation level when it sits on the losing side   |
+ * |         | of the entry, otherwise beyond the far edge of the nearest opposing  |
+ * |         | zone's band                                                          |
+ * | Targets | T1 and T2 at the next key zones past the entry                       |
+ *
+ * "above" conditions are framed as longs, "below" conditions as shorts.
+ * Scenarios whose condition names no price can't be framed and are
+ * returned separately.
+ *
+ * Everything here is pure and runs in the browser.
+ *
+ * ## Usage
+ * ```typescript
+ * const card = buildDecisionCard(analysis, profile.minRiskReward);
+ * card.frames[0].riskReward;   // 2.4
+ * card.frames[0].belowMinimum; // false
+ * ```
+ *
+ * @module decision-card
+ */
+
+import type { ChartAnalysis, KeyZone, Scenario } from "./analysis-result";
+import { readCondition } from "./analysis-diff";
+
+// ============================================
+// TYPES
+// ============================================
+
+/**
+ * One price in a trade frame.
+ */
+export interface TradeLevel {
+  price: number;
+  /** Signed move from the current price (0.012 = +1.2%) */
+  distancePct: number;
+  /** Key zone the level was taken from, if any */
+  zone?: KeyZone;
+}
+
+/**
+ * The stop for a trade, and why it sits where it does.
+ */
+export interface TradeStop extends TradeLevel {
+  source: "invalidation" | "zone";
+}
+
+/**
+ * A scenario with computed entry, stop, targets and risk/reward.
+ */
+export interface TradeFrame {
+  scenario: Scenario;
+  direction: "long" | "short";
+  entry: TradeLevel;
+  /** Null when nothing on the losing side of the entry could serve as a stop */
+  stop: TradeStop | null;
+  /** Up to two targets, nearest first */
+  targets: TradeLevel[];
+  /** Reward to T1 divided by risk to the stop; null without a stop or target */
+  riskReward: number | null;
+  /** riskReward is known and under the minimum */
+  belowMinimum: boolean;
+}
+
+/**
+ * Trade frames for every scenario of an analysis.
+ */
+export interface DecisionCard {
+  frames: TradeFrame[];
+  /** Scenarios whose condition has no readable price or direction */
+  unframed: Scenario[];
+  /** The minimum R:R the frames were checked against */
+  minRiskReward: number;
+}
+
+// ============================================
+// TOLERANCES
+// ============================================
+
+/** A zone this close to the condition's price is the entry zone */
+const ENTRY_MATCH_PCT = 0.005;
+
+/** Zones closer than this to the entry don't count as stops or targets */
+const SAME_LEVEL_PCT = 0.002;
+
+/** How far beyond the invalidation level or zone the stop goes */
+const STOP_BUFFER_PCT = 0.003;
+
+// ============================================
+// BUILDING
+// ============================================
+
+/**
+ * Frame every scenario of an analysis.
+ *
+ * @param analysis - The analysis shown in the card
+ * @param minRiskReward - Frames under this R:R are flagged
+ */
+export function buildDecisionCard(analysis: ChartAnalysis, minRiskReward: number): DecisionCard {
+  const frames: TradeFrame[] = [];
+  const unframed: Scenario[] = [];
+
+  for (const scenario of analysis.scenarios) {
+    const frame = frameScenario(scenario, analysis, minRiskReward);
+    if (frame) frames.push(frame);
+    else unframed.push(scenario);
+  }
+
+  return { frames, unframed, minRiskReward };
+}
+
+/**
+ * Frame one scenario.
+ *
+ * @returns The frame, or null if the condition has no price or direction
+ */
+export function frameScenario(scenario: Scenario, analysis: ChartAnalysis, minRiskReward: number): TradeFrame | null {
+  const condition = readCondition(scenario.condition);
+  if (!condition) return null;
+
+  const direction = condition.direction === "above" ? "long" : "short";
+  const currentPrice = analysis.currentPrice;
+  const level = (price: number, zone?: KeyZone): TradeLevel => ({
+    price,
+    distancePct: currentPrice > 0 ? (price - currentPrice) / currentPrice : 0,
+    ...(zone ? { zone } : {}),
+  });
+
+  const entryPrice = condition.level;
+  const entryZone = analysis.keyZones.find(z => Math.abs(z.price - entryPrice) / entryPrice <= ENTRY_MATCH_PCT);
+  const entry = level(entryPrice, entryZone);
+
+  const stopLevel = findStop(direction, entryPrice, analysis);
+  const stop: TradeStop | null = stopLevel ? { ...level(stopLevel.price, stopLevel.zone), source: stopLevel.source } : null;
+
+  const targets = zonesBeyond(analysis.keyZones, entryPrice, direction === "long" ? "above" : "below")
+    .slice(0, 2)
+    .map(zone => level(zone.price, zone));
+
+  const risk = stop ? Math.abs(entryPrice - stop.price) : 0;
+  const riskReward = stop && targets.length > 0 && risk > 0 ? Math.abs(targets[0].price - entryPrice) / risk : null;
+
+  return {
+    scenario,
+    direction,
+    entry,
+    stop,
+    targets,
+    riskReward,
+    belowMinimum: riskReward !== null && riskReward < minRiskReward,
+  };
+}
+
+/**
+ * Where a stop for a trade entered at `entryPrice` goes: just beyond the
+ * invalidation level if it is on the losing side of the entry, otherwise
+ * just beyond the far edge of the nearest opposing key zone's band.
+ *
+ * @returns The stop price and its source, or null if neither exists
+ */
+export function findStop(
+  direction: "long" | "short",
+  entryPrice: number,
+  analysis: Pick<ChartAnalysis, "invalidation" | "keyZones">
+): { price: number; source: "invalidation" | "zone"; zone?: KeyZone } | null {
+  const losingSide = direction === "long" ? "below" : "above";
+  const beyond = (price: number) => price * (direction === "long" ? 1 - STOP_BUFFER_PCT : 1 + STOP_BUFFER_PCT);
+
+  const invalidation = analysis.invalidation ? readCondition(analysis.invalidation) : null;
+  if (invalidation && isBeyond(invalidation.level, entryPrice, losingSide)) {
+    return { price: beyond(invalidation.level), source: "invalidation" };
+  }
+
+  const zone = zonesBeyond(analysis.keyZones, entryPrice, losingSide)[0];
+  if (!zone) return null;
+  // Beyond the far edge of the zone's band, not just its level
+  const edge = (direction === "long" ? zone.priceLow : zone.priceHigh) ?? zone.price;
+  return { price: beyond(edge), source: "zone", zone };
+}
+
+/**
+ * Zones past `price` on one side (by more than SAME_LEVEL_PCT), nearest first.
+ */
+function zonesBeyond(zones: KeyZone[], price: number, side: "above" | "below"): KeyZone[] {
+  return zones
+    .filter(zone => isBeyond(zone.price, price, side))
+    .sort((a, b) => Math.abs(a.price - price) - Math.abs(b.price - price));
+}
+
+function isBeyond(level: number, price: number, side: "above" | "below"): boolean {
+  const gap = (level - price) / price;
+  return side === "above" ? gap > SAME_LEVEL_PCT : gap < -SAME_LEVEL_PCT;
+}
@@ -0,0 +1,347 @@
+/**
+ * Evaluation Module
+ * =================
+ *
+ * Scores analyses against hand-labeled charts, so a prompt or model change
+ * can be measured instead of eyeballed. The runner (scripts/evaluate.ts)
+ * handles files and providers; everything here is pure.
+ *
+ * | Metric          | How                                                         |
+ * |-----------------|-------------------------------------------------------------|
+ * | Zone precision  | Matched zones / zones the model reported                    |
+ * | Zone recall     | Matched zones / labeled zones                               |
+ * | Regime accuracy | Runs whose regime type equals the label                     |
+ * | Price error     | abs(read - labeled) / labeled current price                 |
+ *
+ * A reported zone matches a labeled one when their prices are within
+ * `tolerancePct` of the labeled price; each zone matches at most once,
+ * closest pairs first. Precision and recall are pooled over all charts
+ * (a failed run counts as zero zones found).
+ *
+ * ## Usage
+ * ```typescript
+ * const score = scoreCase("btc-4h.png", analysis, truth, 0.005);
+ * const run = buildRun({ label: "baseline", ... }, [score]);
+ * const report = formatComparisonReport(baselineRun, candidateRun);
+ * ```
+ *
+ * @module evaluation
+ */
+
+import type { ChartAnalysis, KeyZone, Regime } from "./analysis-result";
+import { REGIME_TYPES } from "./analysis-schema";
+
+// ============================================
+// TYPES
+// ============================================
+
+/**
+ * A zone a human marked on the chart. Without `type` only the price is scored.
+ */
+export interface LabeledZone {
+  price: number;
+  type?: KeyZone["type"];
+}
+
+/**
+ * Hand-labeled answer for one chart image.
+ */
+export interface GroundTruth {
+  zones: LabeledZone[];
+  regime: Regime["type"];
+  currentPrice: number;
+}
+
+export type GroundTruthResult =
+  | { ok: true; truth: GroundTruth }
+  | { ok: false; error: string };
+
+/**
+ * How one analysis did against its label.
+ */
+export interface CaseScore {
+  /** Image file name */
+  id: string;
+  success: boolean;
+  error?: string;
+  predictedZones: number;
+  labeledZones: number;
+  matchedZones: number;
+  /** Matched zones whose support/resistance type disagrees with the label */
+  typeMismatches: number;
+  /** Null when the model reported no zones */
+  precision: number | null;
+  /** Null when the chart has no labeled zones */
+  recall: number | null;
+  expectedRegime: Regime["type"];
+  predictedRegime?: Regime["type"];
+  regimeCorrect: boolean;
+  /** abs(read - labeled) / labeled; null when no price was read */
+  priceError: number | null;
+  latencyMs?: number;
+}
+
+/**
+ * Pooled scores for a whole run.
+ */
+export interface RunSummary {
+  cases: number;
+  failures: number;
+  zonePrecision: number;
+  zoneRecall: number;
+  zoneF1: number;
+  regimeAccuracy: number;
+  /** Over charts where a price was read; null if none was */
+  meanPriceError: number | null;
+  medianPriceError: number | null;
+  meanLatencyMs: number | null;
+}
+
+/**
+ * One evaluation run: what ran, and how it scored.
+ */
+export interface EvalRun {
+  /** Name given on the command line ("baseline", "prompt-v2", ...) */
+  label: string;
+  promptVersion: string;
+  provider: string;
+  model: string;
+  tolerancePct: number;
+  /** ISO timestamp */
+  startedAt: string;
+  cases: CaseScore[];
+  summary: RunSummary;
+}
+
+// ============================================
+// DEFAULTS
+// ============================================
+
+export const EVAL_DEFAULTS = {
+  /** Zone match tolerance as a fraction of the labeled price (0.005 = 0.5%) */
+  tolerancePct: 0.005,
+};
+
+// ============================================
+// GROUND TRUTH
+// ============================================
+
+/**
+ * Validate one chart's label from the ground-truth file.
+ *
+ * @param value - `{ zones: [{ price, type? }], regime, currentPrice }`
+ */
+export function parseGroundTruth(value: unknown): GroundTruthResult {
+  if (!value || typeof value !== "object" || Array.isArray(value)) return { ok: false, error: "label must be an object" };
+  const raw = value as Record<string, unknown>;
+
+  if (typeof raw.currentPrice !== "number" || !(raw.currentPrice > 0)) {
+    return { ok: false, error: "currentPrice must be a positive number" };
+  }
+  if (typeof raw.regime !== "string" || !REGIME_TYPES.includes(raw.regime as Regime["type"])) {
+    return { ok: false, error: `regime must be one of ${REGIME_TYPES.join(", ")}` };
+  }
+  if (!Array.isArray(raw.zones)) return { ok: false, error: "zones must be an array" };
+
+  const zones: LabeledZone[] = [];
+  for (const [i, zone] of raw.zones.entries()) {
+    const price = typeof zone === "number" ? zone : (zone as Record<string, unknown> | null)?.price;
+    if (typeof price !== "number" || !(price > 0)) return { ok: false, error: `zones[${i}].price must be a positive number` };
+    const type = typeof zone === "object" ? (zone as Record<string, unknown>).type : undefined;
+    if (type !== undefined && type !== "support" && type !== "resistance") {
+      return { ok: false, error: `zones[${i}].type must be "support" or "resistance"` };
+    }
+    zones.push(type ? { price, type } : { price });
+  }
+
+  return { ok: true, truth: { zones, regime: raw.regime as Regime["type"], currentPrice: raw.currentPrice } };
+}
+
+// ============================================
+// SCORING
+// ============================================
+
+/**
+ * Score one analysis against its label.
+ *
+ * @param id - Image file name
+ * @param analysis - Result of analyzeChart() for the image
+ * @param truth - The image's label
+ * @param tolerancePct - Zone match tolerance (fraction of the labeled price)
+ */
+export function scoreCase(id: string, analysis: ChartAnalysis, truth: GroundTruth, tolerancePct: number): CaseScore {
+  const predicted = analysis.success ? analysis.keyZones : [];
+  const matches = matchZones(predicted, truth.zones, tolerancePct);
+  const priceRead = analysis.success && analysis.currentPrice > 0 ? analysis.currentPrice : null;
+
+  return {
+    id,
+    success: analysis.success,
+    ...(analysis.error ? { error: analysis.error } : {}),
+    predictedZones: predicted.length,
+    labeledZones: truth.zones.length,
+    matchedZones: matches.length,
+    typeMismatches: matches.filter(([zone, label]) => label.type && label.type !== zone.type).length,
+    precision: predicted.length > 0 ? matches.length / predicted.length : null,
+    recall: truth.zones.length > 0 ? matches.length / truth.zones.length : null,
+    expectedRegime: truth.regime,
+    predictedRegime: analysis.success ? analysis.regime.type : undefined,
+    regimeCorrect: analysis.success && analysis.regime.type === truth.regime,
+    priceError: priceRead === null ? null : Math.abs(priceRead - truth.currentPrice) / truth.currentPrice,
+    latencyMs: analysis.trace?.latencyMs,
+  };
+}
+
+/**
+ * Pair reported zones with labeled zones within tolerance, closest first,
+ * each zone used at most once.
+ */
+function matchZones(predicted: KeyZone[], labeled: LabeledZone[], tolerancePct: number): [KeyZone, LabeledZone][] {
+  const candidates: { p: number; l: number; distance: number }[] = [];
+  predicted.forEach((zone, p) => {
+    labeled.forEach((label, l) => {
+      const distance = Math.abs(zone.price - label.price) / label.price;
+      if (distance <= tolerancePct) candidates.push({ p, l, distance });
+    });
+  });
+  candidates.sort((a, b) => a.distance - b.distance);
+
+  const usedPredicted = new Set<number>();
+  const usedLabeled = new Set<number>();
+  const matches: [KeyZone, LabeledZone][] = [];
+  for (const { p, l } of candidates) {
+    if (usedPredicted.has(p) || usedLabeled.has(l)) continue;
+    usedPredicted.add(p);
+    usedLabeled.add(l);
+    matches.push([predicted[p], labeled[l]]);
+  }
+  return matches;
+}
+
+/**
+ * Pool case scores into run-level metrics.
+ */
+export function summarizeRun(cases: CaseScore[]): RunSummary {
+  const sum = (values: number[]) => values.reduce((total, v) => total + v, 0);
+  const matched = sum(cases.map(c => c.matchedZones));
+  const predicted = sum(cases.map(c => c.predictedZones));
+  const labeled = sum(cases.map(c => c.labeledZones));
+  const precision = predicted > 0 ? matched / predicted : 0;
+  const recall = labeled > 0 ? matched / labeled : 0;
+  const priceErrors = cases.map(c => c.priceError).filter((e): e is number => e !== null);
+  const latencies = cases.map(c => c.latencyMs).filter((ms): ms is number => ms !== undefined);
+
+  return {
+    cases: cases.length,
+    failures: cases.filter(c => !c.success).length,
+    zonePrecision: precision,
+    zoneRecall: recall,
+    zoneF1: precision + recall > 0 ? (2 * precision * recall) / (precision + recall) : 0,
+    regimeAccuracy: cases.length > 0 ? cases.filter(c => c.regimeCorrect).length / cases.length : 0,
+    meanPriceError: priceErrors.length > 0 ? sum(priceErrors) / priceErrors.length : null,
+    medianPriceError: median(priceErrors),
+    meanLatencyMs: latencies.length > 0 ? sum(latencies) / latencies.length : null,
+  };
+}
+
+/**
+ * Assemble a run from its header and case scores.
+ */
+export function buildRun(header: Omit<EvalRun, "cases" | "summary">, cases: CaseScore[]): EvalRun {
+  return { ...header, cases, summary: summarizeRun(cases) };
+}
+
+// ============================================
+// REPORTS
+// ============================================
+
+/**
+ * One-line summary for the console.
+ */
+export function formatRunSummary(run: EvalRun): string {
+  const s = run.summary;
+  return `${run.label}: ${s.cases} charts, P ${percent(s.zonePrecision)} R ${percent(s.zoneRecall)} F1 ${percent(s.zoneF1)}, ` +
+    `regime ${percent(s.regimeAccuracy)}, price error ${s.meanPriceError === null ? "-" : percent(s.meanPriceError, 2)}, ` +
+    `${s.failures} failed`;
+}
+
+/**
+ * Markdown report comparing a candidate run with a baseline, overall and per chart.
+ */
+export function formatComparisonReport(baseline: EvalRun, candidate: EvalRun): string {
+  const b = baseline.summary;
+  const c = candidate.summary;
+  const rows: [string, string, string, string][] = [
+    ["Prompt", baseline.promptVersion, candidate.promptVersion, ""],
+    ["Model", `${baseline.provider} / ${baseline.model}`, `${candidate.provider} / ${candidate.model}`, ""],
+    ["Charts", String(b.cases), String(c.cases), ""],
+    ["Failures", String(b.failures), String(c.failures), signed(c.failures - b.failures, String)],
+    ["Zone precision", percent(b.zonePrecision), percent(c.zonePrecision), points(c.zonePrecision - b.zonePrecision)],
+    ["Zone recall", percent(b.zoneRecall), percent(c.zoneRecall), points(c.zoneRecall - b.zoneRecall)],
+    ["Zone F1", percent(b.zoneF1), percent(c.zoneF1), points(c.zoneF1 - b.zoneF1)],
+    ["Regime accuracy", percent(b.regimeAccuracy), percent(c.regimeAccuracy), points(c.regimeAccuracy - b.regimeAccuracy)],
+    ["Mean price error", optional(b.meanPriceError, e => percent(e, 2)), optional(c.meanPriceError, e => percent(e, 2)),
+      b.meanPriceError !== null && c.meanPriceError !== null ? points(c.meanPriceError - b.meanPriceError, 2) : ""],
+    ["Median price error", optional(b.medianPriceError, e => percent(e, 2)), optional(c.medianPriceError, e => percent(e, 2)), ""],
+    ["Mean latency", optional(b.meanLatencyMs, ms => `${Math.round(ms)}ms`), optional(c.meanLatencyMs, ms => `${Math.round(ms)}ms`), ""],
+  ];
+
+  const lines = [
+    `# Evaluation: ${baseline.label} vs ${candidate.label}`,
+    "",
+    `Zone tolerance ±${percent(candidate.tolerancePct, 2)}. Baseline run ${baseline.startedAt}, candidate run ${candidate.startedAt}.`,
+    "",
+    `| Metric | ${baseline.label} | ${candidate.label} | Change |`,
+    "|---|---|---|---|",
+    ...rows.map(row => `| ${row.join(" | ")} |`),
+    "",
+    "## Per chart",
+    "",
+    "| Chart | Recall | Precision | Regime | Price error |",
+    "|---|---|---|---|---|",
+  ];
+
+  const baselineCases = new Map(baseline.cases.map(score => [score.id, score]));
+  const candidateCases = new Map(candidate.cases.map(score => [score.id, score]));
+  const ids = [...new Set([...baselineCases.keys(), ...candidateCases.keys()])].sort();
+  for (const id of ids) {
+    const before = baselineCases.get(id);
+    const after = candidateCases.get(id);
+    const cell = (read: (score: CaseScore) => string) =>
+      `${before ? read(before) : "-"} → ${after ? read(after) : "-"}`;
+    lines.push(`| ${id} | ${cell(s => optional(s.recall, percent))} | ${cell(s => optional(s.precision, percent))} | ` +
+      `${cell(s => (s.success ? `${s.predictedRegime}${s.regimeCorrect ? "" : " ✗"}` : "failed"))} | ` +
+      `${cell(s => optional(s.priceError, e => percent(e, 2)))} |`);
+  }
+
+  return lines.join("\n") + "\n";
+}
+
+// ============================================
+// HELPERS
+// ============================================
+
+function median(values: number[]): number | null {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[mid - 1] + sorted[mid]) / 2 : sorted[mid];
+}
+
+/** 0.625 → "62.5%" */
+function percent(fraction: number, decimals = 1): string {
+  return `${(fraction * 100).toFixed(decimals)}%`;
+}
+
+/** Difference of two fractions in percentage points: "+4.2 pts" */
+function points(delta: number, decimals = 1): string {
+  return signed(delta * 100, value => `${value.toFixed(decimals)} pts`);
+}
+
+function signed(value: number, format: (value: number) => string): string {
+  return `${value > 0 ? "+" : value < 0 ? "-" : "±"}${format(Math.abs(value))}`;
+}
+
+function optional<T>(value: T | null, format: (value: T) => string): string {
+  return value === null ? "-" : format(value);
+}
@@ -2,23 +2,25 @@
  * Gemini API Client Module
  * ========================
  * 
- * This module provides a wrapper around Google's Gemini AI models for:
+ * This module provides the conversational and free-form helpers on top of
+ * the configured ChartModelProvider (Gemini by default):
  * - Chart image analysis with optional image generation
  * - Conversational chat with history
  * - Image-to-text and text-to-image capabilities
  * 
  * ## Models Used
  * 
- * | Use Case              | Model                        | Notes                          |
- * |-----------------------|------------------------------|--------------------------------|
- * | Chart Analysis        | gemini-2.0-flash             | Fast, good vision understanding|
- * | Image Generation      | gemini-3-pro-image-preview   | Can draw on images             |
- * | Chat/Follow-up        | gemini-2.0-flash             | Conversational, fast           |
+ * Models are owned by the provider - see providers/gemini-provider.ts for
+ * the Gemini defaults, or set CHART_MODEL_PROVIDER=mock to run offline.
  * 
  * ## Setup
  * 
  * 1. Get an API key from https://aistudio.google.com/apikey
- * 2. Set environment variable: NEXT_PUBLIC_GOOGLE_AI_KEY=your_key
+ * 2. Set the server-only environment variable: GOOGLE_AI_KEY=your_key
+ * 
+ * These functions call the model provider directly and must only run on
+ * the server. Browser code goes through /api/chat via requestChat() in
+ * api-client.ts.
  * 
  * ## Basic Usage
  * 
@@ -33,38 +35,19 @@
  * ```
  * 
  * @module gemini
- * @requires @google/genai
  */
 
-"use client";
-
-import { GoogleGenAI } from "@google/genai";
-
-// ============================================
-// CLIENT SINGLETON
-// ============================================
-
-/** API key from environment */
-const API_KEY = process.env.NEXT_PUBLIC_GOOGLE_AI_KEY;
+import "server-only";
 
-/** Singleton Gemini client instance */
-let ai: GoogleGenAI | null = null;
-
-/**
- * Get or create the Gemini AI client singleton.
- * 
- * @returns GoogleGenAI instance or null if API key not configured
- */
-function getAI() {
-  if (!API_KEY) {
-    console.error("Google AI API key not configured");
-    return null;
-  }
-  if (!ai) {
-    ai = new GoogleGenAI({ apiKey: API_KEY });
-  }
-  return ai;
-}
+import {
+  ChartModelProvider,
+  createCallLimiter,
+  MODEL_CALL_TIMEOUTS,
+  ModelMessage,
+  ModelPart,
+  resolveProvider,
+} from "./model-provider";
+import { detectImageMime } from "./image-intake";
 
 // ============================================
 // TYPE DEFINITIONS
@@ -85,23 +68,15 @@ export interface GeminiResponse {
 }
 
 /**
- * Internal type for Gemini content parts.
- * Can contain text, images, or both.
- */
-interface ContentPart {
-  text?: string;
-  inlineData?: {
-    mimeType: string;
-    data: string;
-  };
-}
-
-/**
- * Internal type for Gemini conversation messages.
+ * Options shared by the chat helpers.
  */
-interface ContentMessage {
-  role: string;
-  parts: ContentPart[];
+export interface ChatOptions {
+  /** Provider to use instead of the configured one (CHART_MODEL_PROVIDER) */
+  provider?: ChartModelProvider;
+  /** Cancels the call */
+  signal?: AbortSignal;
+  /** Time limit for the model call in ms (default: MODEL_CALL_TIMEOUTS.chat) */
+  timeoutMs?: number;
 }
 
 // ============================================
@@ -139,13 +114,14 @@ interface ContentMessage {
  * }
  * ```
  * 
- * @param imageBase64 - Base64-encoded PNG image of the chart
+ * @param imageBase64 - Base64-encoded chart image (PNG, JPEG or WebP)
  * @param prompt - Analysis prompt (optional, has sensible default)
+ * @param options - Provider override
  * @returns GeminiResponse with text and optionally generatedImage
  */
-export async function analyzeChartImage(imageBase64: string, prompt?: string): Promise<GeminiResponse> {
-  const client = getAI();
-  if (!client) {
+export async function analyzeChartImage(imageBase64: string, prompt?: string, options: ChatOptions = {}): Promise<GeminiResponse> {
+  const provider = resolveProvider(options.provider);
+  if (!provider) {
     return { text: "", success: false, error: "API key not configured" };
   }
 
@@ -153,54 +129,21 @@ export async function analyzeChartImage(imageBase64: string, prompt?: string): P
     const analysisPrompt = prompt || 
       "Analyze this trading chart and draw technical analysis on it. Add support levels, resistance levels, and trendlines. Return the annotated chart.";
 
-    // === GEMINI API CALL WITH IMAGE RESPONSE ===
-    // Key: Set responseModalities to include "IMAGE" for annotation
-    const response = await client.models.generateContent({
-      model: "gemini-2.0-flash",
-      contents: [
-        {
-          role: "user",
-          parts: [
-            // Include the image first
-            {
-              inlineData: {
-                mimeType: "image/png",
-                data: imageBase64,
-              },
-            },
-            // Then the prompt
-            { text: analysisPrompt },
-          ],
-        },
-      ],
-      config: {
-        // Request both text and image in the response
-        responseModalities: ["TEXT", "IMAGE"],
-      },
+    // === IMAGE-CAPABLE MODEL CALL ===
+    // The provider's annotation model can return text, an image, or both
+    const { text, image: generatedImage } = await provider.annotate({
+      imageBase64,
+      mimeType: detectImageMime(imageBase64) ?? "image/png",
+      prompt: analysisPrompt,
     });
 
-    let text = "";
-    let generatedImage: string | undefined;
-
-    // Parse response parts - may contain text, image, or both
-    const parts = response.candidates?.[0]?.content?.parts || [];
-    
-    for (const part of parts) {
-      if (part.text) {
-        text += part.text;
-      }
-      if (part.inlineData?.data) {
-        generatedImage = part.inlineData.data;
-      }
-    }
-
     return { text, generatedImage, success: true };
   } catch (error: unknown) {
     const errorMessage = error instanceof Error ? error.message : "Unknown error";
     console.error("Gemini image API error:", errorMessage);
     
     // Fallback to text-only analysis
-    return fallbackTextAnalysis(imageBase64, prompt);
+    return fallbackTextAnalysis(provider, imageBase64, prompt);
   }
 }
 
@@ -209,16 +152,12 @@ export async function analyzeChartImage(imageBase64: string, prompt?: string): P
  * Uses the standard model without image generation.
  * 
  * @internal
+ * @param provider - Provider that failed the image call
  * @param imageBase64 - Base64-encoded chart image
  * @param prompt - Analysis prompt
  * @returns GeminiResponse with text only
  */
-async function fallbackTextAnalysis(imageBase64: string, prompt?: string): Promise<GeminiResponse> {
-  const client = getAI();
-  if (!client) {
-    return { text: "", success: false, error: "API key not configured" };
-  }
-
+async function fallbackTextAnalysis(provider: ChartModelProvider, imageBase64: string, prompt?: string): Promise<GeminiResponse> {
   try {
     const analysisPrompt = prompt || `Analyze this trading chart. Identify:
 1. Key support levels (with prices)
@@ -230,33 +169,12 @@ async function fallbackTextAnalysis(imageBase64: string, prompt?: string): Promi
 Be specific with price levels.`;
 
     // Standard text-only response (no IMAGE modality)
-    const response = await client.models.generateContent({
-      model: "gemini-2.0-flash",
-      contents: [
-        {
-          role: "user",
-          parts: [
-            {
-              inlineData: {
-                mimeType: "image/png",
-                data: imageBase64,
-              },
-            },
-            { text: analysisPrompt },
-          ],
-        },
-      ],
+    const { text } = await provider.analyze({
+      imageBase64,
+      mimeType: detectImageMime(imageBase64) ?? "image/png",
+      prompt: analysisPrompt,
     });
 
-    const parts = response.candidates?.[0]?.content?.parts || [];
-    let text = "";
-    
-    for (const part of parts) {
-      if (part.text) {
-        text += part.text;
-      }
-    }
-
     return { text, success: true };
   } catch (error: unknown) {
     const errorMessage = error instanceof Error ? error.message : "Failed to analyze chart";
@@ -287,7 +205,7 @@ export interface ChatMessage {
 }
 
 /**
- * Have a multi-turn conversation with Gemini.
+ * Have a multi-turn conversation with the configured model.
  * 
  * This function maintains conversation context by passing
  * the full message history to the model. You can also provide
@@ -316,20 +234,25 @@ export interface ChatMessage {
  * 
  * @param messages - Array of conversation messages
  * @param systemContext - Optional context to prime the conversation
- * @returns GeminiResponse with the model's reply
+ * @param options - Provider override, abort signal and timeout
+ * @returns GeminiResponse with the model's reply (error "Chat cancelled" or
+ *   "Chat timed out after Ns" when aborted)
  */
 export async function chatWithHistory(
   messages: ChatMessage[],
-  systemContext?: string
+  systemContext?: string,
+  options: ChatOptions = {}
 ): Promise<GeminiResponse> {
-  const client = getAI();
-  if (!client) {
+  const provider = resolveProvider(options.provider);
+  if (!provider) {
     return { text: "", success: false, error: "API key not configured" };
   }
 
+  const limiter = createCallLimiter(options.signal, options.timeoutMs ?? MODEL_CALL_TIMEOUTS.chat);
+
   try {
     // Build contents array with conversation history
-    const contents: ContentMessage[] = [];
+    const contents: ModelMessage[] = [];
     
     // Inject system context as first exchange if provided
     // This primes the model with relevant information
@@ -346,13 +269,13 @@ export async function chatWithHistory(
     
     // Add all conversation messages
     for (const msg of messages) {
-      const parts: ContentPart[] = [];
+      const parts: ModelPart[] = [];
       
       // Add image if present (images must come before text)
       if (msg.image) {
         parts.push({
           inlineData: {
-            mimeType: "image/png",
+            mimeType: detectImageMime(msg.image) ?? "image/png",
             data: msg.image,
           },
         });
@@ -368,23 +291,12 @@ export async function chatWithHistory(
     }
 
     // Make the API call with full conversation history
-    const response = await client.models.generateContent({
-      model: "gemini-2.0-flash",
-      contents,
-    });
-
-    // Extract response text
-    const responseParts = response.candidates?.[0]?.content?.parts || [];
-    let text = "";
-    
-    for (const part of responseParts) {
-      if (part.text) {
-        text += part.text;
-      }
-    }
+    const { text } = await provider.chat({ contents, signal: limiter.next() });
 
     return { text, success: true };
   } catch (error: unknown) {
+    const aborted = limiter.describeAbort("Chat");
+    if (aborted) return { text: "", success: false, error: aborted };
     const errorMessage = error instanceof Error ? error.message : "Failed to get response";
     console.error("Gemini chat error:", errorMessage);
     return { 
@@ -410,33 +322,3 @@ export async function chatWithHistory(
 export async function chat(message: string, imageBase64?: string): Promise<GeminiResponse> {
   return chatWithHistory([{ role: "user", content: message, image: imageBase64 }]);
 }
-
-/**
- * Convert a File object to base64 string.
- * 
- * Useful for handling file uploads before sending to Gemini.
- * 
- * ## Example
- * 
- * ```typescript
- * const handleUpload = async (file: File) => {
- *   const base64 = await fileToBase64(file);
- *   const analysis = await analyzeChartImage(base64);
- * };
- * ```
- * 
- * @param file - File object from input or drag-drop
- * @returns Promise resolving to base64 string (without data URL prefix)
- */
-export function fileToBase64(file: File): Promise<string> {
-  return new Promise((resolve, reject) => {
-    const reader = new FileReader();
-    reader.readAsDataURL(file);
-    reader.onload = () => {
-      // Extract just the base64 data (remove "data:image/png;base64," prefix)
-      const base64 = (reader.result as string).split(",")[1];
-      resolve(base64);
-    };
-    reader.onerror = (error) => reject(error);
-  });
-}
@@ -0,0 +1,406 @@
+/**
+ * Image Intake Module
+ * ===================
+ *
+ * Prepares a pasted or uploaded chart screenshot before it is analyzed:
+ *
+ * 1. **Detect** the real format from the file's magic bytes (the clipboard
+ *    and file pickers don't always say, and the data URL prefix is dropped)
+ * 2. **Trim** uniform borders (window padding, letterboxing) and bands of
+ *    browser/OS chrome (tab strip, address bar, taskbar) at the top and bottom
+ * 3. **Downscale** so the longest side fits `maxDimension`
+ * 4. **Normalize** to a format the model accepts (PNG, or JPEG for JPEG input)
+ *
+ * prepareChartImage() returns the prepared image and the ImageTransform it
+ * applied. Everything the model returns (price axis y, touch x...) is in
+ * the prepared image's coordinates; mapToOriginal() maps it back.
+ *
+ * detectImageMime(), imageDataUrl() and the coordinate mapping helpers are
+ * pure and safe on the server.
+ * prepareChartImage() needs a DOM canvas and runs in the browser.
+ *
+ * ## Usage
+ * ```typescript
+ * const intake = await prepareChartImage(await fileToBase64(file));
+ * if (intake.ok) {
+ *   const analysis = await requestAnalysis(intake.image.base64);
+ *   analysis.imageTransform = intake.transform;
+ * }
+ * ```
+ *
+ * @module image-intake
+ */
+
+// ============================================
+// TYPES
+// ============================================
+
+export type ImageMime = "image/png" | "image/jpeg" | "image/webp" | "image/gif" | "image/bmp";
+
+/** Formats the model providers accept as-is */
+export const MODEL_IMAGE_MIMES: ImageMime[] = ["image/png", "image/jpeg", "image/webp"];
+
+/**
+ * A rectangle in image pixels.
+ */
+export interface PixelRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * What prepareChartImage() did to the image.
+ * Stored on the analysis so coordinates can be mapped back.
+ */
+export interface ImageTransform {
+  /** The image as received */
+  original: { width: number; height: number; mimeType: ImageMime };
+  /** Region of the original that was kept, in original pixels */
+  crop: PixelRect;
+  /** Which edges had browser/OS chrome removed (beyond plain borders) */
+  chrome: { top: boolean; bottom: boolean };
+  /** Output pixels per original pixel (1 = not resized) */
+  scale: number;
+  /** The image sent to the model */
+  output: { width: number; height: number; mimeType: ImageMime };
+}
+
+/**
+ * Options for prepareChartImage().
+ */
+export interface ImageIntakeOptions {
+  /** Longest side of the output in px */
+  maxDimension?: number;
+  /** Trim uniform borders */
+  trimBorders?: boolean;
+  /** Trim browser/OS chrome bands at the top and bottom */
+  trimChrome?: boolean;
+}
+
+export type ImageIntakeResult =
+  | {
+      ok: true;
+      image: { base64: string; mimeType: ImageMime; width: number; height: number };
+      transform: ImageTransform;
+    }
+  | { ok: false; error: string };
+
+/**
+ * RGBA pixels, as returned by CanvasRenderingContext2D.getImageData().
+ */
+export interface PixelBuffer {
+  data: Uint8ClampedArray;
+  width: number;
+  height: number;
+}
+
+// ============================================
+// DEFAULTS
+// ============================================
+
+/**
+ * 1600px keeps axis labels legible while cutting a retina capture's
+ * payload by roughly 4x.
+ */
+export const IMAGE_INTAKE_DEFAULTS: Required<ImageIntakeOptions> = {
+  maxDimension: 1600,
+  trimBorders: true,
+  trimChrome: true,
+};
+
+/** Max per-channel difference for two pixels to count as the same color */
+const COLOR_TOLERANCE = 12;
+
+/** Max per-channel difference between a chrome band and the chart background */
+const CHROME_COLOR_DISTANCE = 24;
+
+/** Chrome bands taller than this fraction of the image are left alone */
+const MAX_CHROME_FRACTION = 0.25;
+
+/** A row needs this share of one color to count as a chrome row */
+const CHROME_DOMINANCE = 0.5;
+
+/** Trimming that would keep less than this fraction of a side is skipped */
+const MIN_KEPT_FRACTION = 0.3;
+
+// ============================================
+// FORMAT DETECTION
+// ============================================
+
+/**
+ * Detect the image format from its first bytes.
+ *
+ * @param base64 - Base64-encoded image (no data URL prefix)
+ * @returns The MIME type, or null if it isn't a recognized image
+ */
+export function detectImageMime(base64: string): ImageMime | null {
+  let header: string;
+  try {
+    // 16 base64 chars = 12 bytes, enough for every signature below
+    header = atob(base64.slice(0, 16));
+  } catch {
+    return null;
+  }
+  const bytes = Array.from(header, (char) => char.charCodeAt(0));
+  const startsWith = (signature: number[], offset = 0) =>
+    signature.every((byte, i) => bytes[offset + i] === byte);
+
+  if (startsWith([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) return "image/png";
+  if (startsWith([0xff, 0xd8, 0xff])) return "image/jpeg";
+  if (startsWith([0x52, 0x49, 0x46, 0x46]) && startsWith([0x57, 0x45, 0x42, 0x50], 8)) return "image/webp";
+  if (header.startsWith("GIF87a") || header.startsWith("GIF89a")) return "image/gif";
+  if (header.startsWith("BM")) return "image/bmp";
+  return null;
+}
+
+/**
+ * Build a data URL using the image's real format.
+ *
+ * @param base64 - Base64-encoded image
+ */
+export function imageDataUrl(base64: string): string {
+  return `data:${detectImageMime(base64) ?? "image/png"};base64,${base64}`;
+}
+
+// ============================================
+// COORDINATE MAPPING
+// ============================================
+
+/**
+ * Map a normalized point (0-1) in the prepared image back to a normalized
+ * point in the original image.
+ *
+ * @param transform - Transform from prepareChartImage()
+ * @param point - `x`/`y` as fractions of the prepared image's width/height
+ */
+export function mapToOriginal(transform: ImageTransform, point: { x: number; y: number }): { x: number; y: number } {
+  const { crop, original } = transform;
+  return {
+    x: (crop.x + point.x * crop.width) / original.width,
+    y: (crop.y + point.y * crop.height) / original.height,
+  };
+}
+
+/**
+ * "1600×900 → 1280×651, kept x 0%–100% y 10%–100%" - what intake did, in
+ * terms of the original screenshot.
+ */
+export function describeTransform(transform: ImageTransform): string {
+  const topLeft = mapToOriginal(transform, { x: 0, y: 0 });
+  const bottomRight = mapToOriginal(transform, { x: 1, y: 1 });
+  const pct = (value: number) => `${Math.round(value * 100)}%`;
+  const { original, output } = transform;
+  return `${original.width}×${original.height} → ${output.width}×${output.height}, kept x ${pct(topLeft.x)}–${pct(bottomRight.x)} y ${pct(topLeft.y)}–${pct(bottomRight.y)}`;
+}
+
+// ============================================
+// CONTENT BOUNDS
+// ============================================
+
+/**
+ * Find the part of a screenshot that holds the chart.
+ *
+ * Uniform borders are rows/columns at the edges where every pixel is the
+ * same color. Chrome is a band at the top or bottom whose dominant color
+ * differs from the chart's background (a light tab strip over a dark
+ * chart, a taskbar); it is only removed if it is shorter than
+ * MAX_CHROME_FRACTION of the image.
+ *
+ * @param pixels - RGBA pixels of the whole image
+ * @param options - Which trims to apply
+ * @returns The rectangle to keep and which edges had chrome removed
+ */
+export function findContentBounds(
+  pixels: PixelBuffer,
+  options: Pick<ImageIntakeOptions, "trimBorders" | "trimChrome"> = {}
+): { crop: PixelRect; chrome: { top: boolean; bottom: boolean } } {
+  const { width, height } = pixels;
+  const full = { crop: { x: 0, y: 0, width, height }, chrome: { top: false, bottom: false } };
+  const trimBorders = options.trimBorders ?? IMAGE_INTAKE_DEFAULTS.trimBorders;
+  const trimChrome = options.trimChrome ?? IMAGE_INTAKE_DEFAULTS.trimChrome;
+
+  let top = 0;
+  let bottom = height;
+  let left = 0;
+  let right = width;
+
+  if (trimBorders) {
+    while (top < bottom - 1 && isUniform(pixels, "row", top, left, right)) top++;
+    while (bottom - 1 > top && isUniform(pixels, "row", bottom - 1, left, right)) bottom--;
+    while (left < right - 1 && isUniform(pixels, "column", left, top, bottom)) left++;
+    while (right - 1 > left && isUniform(pixels, "column", right - 1, top, bottom)) right--;
+  }
+
+  const chrome = { top: false, bottom: false };
+  if (trimChrome && bottom - top > 4) {
+    const background = dominantColor(pixels, left, right, top + Math.floor((bottom - top) / 4), top + Math.ceil(((bottom - top) * 3) / 4));
+    const maxBand = Math.floor((bottom - top) * MAX_CHROME_FRACTION);
+
+    let band = 0;
+    while (band <= maxBand && isChromeRow(pixels, top + band, left, right, background)) band++;
+    if (band > 0 && band <= maxBand) {
+      top += band;
+      chrome.top = true;
+    }
+
+    band = 0;
+    while (band <= maxBand && isChromeRow(pixels, bottom - 1 - band, left, right, background)) band++;
+    if (band > 0 && band <= maxBand) {
+      bottom -= band;
+      chrome.bottom = true;
+    }
+  }
+
+  // Almost nothing left means the "border" was the chart itself (e.g. a blank image)
+  const keptWidth = right - left;
+  const keptHeight = bottom - top;
+  if (keptWidth < width * MIN_KEPT_FRACTION || keptHeight < height * MIN_KEPT_FRACTION) return full;
+
+  return { crop: { x: left, y: top, width: keptWidth, height: keptHeight }, chrome };
+}
+
+/**
+ * Whether every pixel in a row (or column) segment matches its first pixel.
+ */
+function isUniform(pixels: PixelBuffer, axis: "row" | "column", index: number, from: number, to: number): boolean {
+  const first = pixelAt(pixels, axis, index, from);
+  for (let i = from + 1; i < to; i++) {
+    if (colorDistance(first, pixelAt(pixels, axis, index, i)) > COLOR_TOLERANCE) return false;
+  }
+  return true;
+}
+
+/**
+ * Whether a row is dominated by one color that isn't the chart background.
+ */
+function isChromeRow(pixels: PixelBuffer, y: number, left: number, right: number, background: Rgb): boolean {
+  const { color, share } = dominantColorWithShare(pixels, left, right, y, y + 1);
+  return share >= CHROME_DOMINANCE && colorDistance(color, background) > CHROME_COLOR_DISTANCE;
+}
+
+// ============================================
+// COLOR HELPERS
+// ============================================
+
+type Rgb = [number, number, number];
+
+function pixelAt(pixels: PixelBuffer, axis: "row" | "column", index: number, offset: number): Rgb {
+  const [x, y] = axis === "row" ? [offset, index] : [index, offset];
+  const i = (y * pixels.width + x) * 4;
+  return [pixels.data[i], pixels.data[i + 1], pixels.data[i + 2]];
+}
+
+function colorDistance(a: Rgb, b: Rgb): number {
+  return Math.max(Math.abs(a[0] - b[0]), Math.abs(a[1] - b[1]), Math.abs(a[2] - b[2]));
+}
+
+function dominantColor(pixels: PixelBuffer, left: number, right: number, top: number, bottom: number): Rgb {
+  return dominantColorWithShare(pixels, left, right, top, bottom).color;
+}
+
+/**
+ * Most common color in a region, bucketed to 16 levels per channel and
+ * sampled on a grid of at most ~400 columns for speed.
+ *
+ * @returns The bucket's center color and the share of samples it covers
+ */
+function dominantColorWithShare(
+  pixels: PixelBuffer,
+  left: number,
+  right: number,
+  top: number,
+  bottom: number
+): { color: Rgb; share: number } {
+  const counts = new Uint32Array(4096);
+  const step = Math.max(1, Math.floor((right - left) / 400));
+  const rowStep = Math.max(1, Math.floor((bottom - top) / 200));
+  let samples = 0;
+  for (let y = top; y < bottom; y += rowStep) {
+    for (let x = left; x < right; x += step) {
+      const [r, g, b] = pixelAt(pixels, "row", y, x);
+      counts[((r >> 4) << 8) | ((g >> 4) << 4) | (b >> 4)]++;
+      samples++;
+    }
+  }
+
+  let best = 0;
+  for (let bucket = 1; bucket < counts.length; bucket++) {
+    if (counts[bucket] > counts[best]) best = bucket;
+  }
+  return {
+    color: [((best >> 8) << 4) + 8, (((best >> 4) & 15) << 4) + 8, ((best & 15) << 4) + 8],
+    share: samples > 0 ? counts[best] / samples : 0,
+  };
+}
+
+// ============================================
+// BROWSER PIPELINE
+// ============================================
+
+/**
+ * Run the full intake: detect, trim, downscale and normalize.
+ *
+ * Images that need no trimming or resizing and are already in a model
+ * format are passed through byte-for-byte.
+ *
+ * @param base64 - Base64-encoded image (no data URL prefix)
+ * @param options - Max dimension and which trims to apply
+ */
+export async function prepareChartImage(base64: string, options: ImageIntakeOptions = {}): Promise<ImageIntakeResult> {
+  const maxDimension = options.maxDimension ?? IMAGE_INTAKE_DEFAULTS.maxDimension;
+
+  const mimeType = detectImageMime(base64);
+  if (!mimeType) return { ok: false, error: "Unrecognized image format (use PNG, JPEG or WebP)" };
+
+  const image = new Image();
+  image.src = `data:${mimeType};base64,${base64}`;
+  try {
+    await image.decode();
+  } catch {
+    return { ok: false, error: "Couldn't decode the image" };
+  }
+
+  const width = image.naturalWidth;
+  const height = image.naturalHeight;
+  const source = document.createElement("canvas");
+  source.width = width;
+  source.height = height;
+  const sourceContext = source.getContext("2d", { willReadFrequently: true });
+  if (!sourceContext) return { ok: false, error: "Canvas not available" };
+  sourceContext.drawImage(image, 0, 0);
+
+  const { crop, chrome } = findContentBounds(sourceContext.getImageData(0, 0, width, height), options);
+  const scale = Math.min(1, maxDimension / Math.max(crop.width, crop.height));
+  const outputWidth = Math.max(1, Math.round(crop.width * scale));
+  const outputHeight = Math.max(1, Math.round(crop.height * scale));
+
+  const untouched = scale === 1 && crop.width === width && crop.height === height;
+  const outputMime: ImageMime = untouched && MODEL_IMAGE_MIMES.includes(mimeType)
+    ? mimeType
+    : mimeType === "image/jpeg" ? "image/jpeg" : "image/png";
+
+  const transform: ImageTransform = {
+    original: { width, height, mimeType },
+    crop,
+    chrome,
+    scale,
+    output: { width: outputWidth, height: outputHeight, mimeType: outputMime },
+  };
+
+  if (untouched && outputMime === mimeType) {
+    return { ok: true, image: { base64, mimeType, width, height }, transform };
+  }
+
+  const output = document.createElement("canvas");
+  output.width = outputWidth;
+  output.height = outputHeight;
+  const outputContext = output.getContext("2d");
+  if (!outputContext) return { ok: false, error: "Canvas not available" };
+  outputContext.imageSmoothingQuality = "high";
+  outputContext.drawImage(source, crop.x, crop.y, crop.width, crop.height, 0, 0, outputWidth, outputHeight);
+
+  const encoded = output.toDataURL(outputMime, 0.92).split(",")[1];
+  return { ok: true, image: { base64: encoded, mimeType: outputMime, width: outputWidth, height: outputHeight }, transform };
+}
@@ -0,0 +1,228 @@
+/**
+ * Level Engine Module
+ * ===================
+ *
+ * Deterministic support/resistance detection from OHLCV candles - a second
+ * opinion on the vision model that can't hallucinate a level.
+ *
+ * ## Pipeline
+ *
+ * 1. **Swings** - a swing high is a candle whose high is the highest of the
+ *    `swingLookback` candles on each side; swing lows mirror that.
+ * 2. **Clustering** - swing prices are merged with clusterByPrice() (within
+ *    `tolerancePct` of the running cluster median, as in consensus mode).
+ *    Each swing in a cluster is one touch.
+ * 3. **Classification** - clusters above the last close are resistance,
+ *    below are support. Strength follows `KeyZone.strength`: weak (1),
+ *    moderate (2), strong (3+ touches).
+ * 4. **Cross-check** - each AI zone is matched to the nearest structural
+ *    zone within tolerance. Unmatched AI zones are flagged as having no
+ *    structural backing; strong structural zones no AI zone matched are
+ *    reported as missed.
+ *
+ * ## Usage
+ * ```typescript
+ * const checked = applyStructuralCheck(analysis, candles);
+ * checked.keyZones[0].structurallyBacked; // false = nothing in the data here
+ * checked.structure?.missed;              // strong levels the model skipped
+ * ```
+ *
+ * Pure TypeScript, runs in the browser alongside zone-verification.ts.
+ *
+ * @module level-engine
+ */
+
+import type { ChartAnalysis, KeyZone } from "./analysis-result";
+import type { Candle } from "./ohlcv";
+import { clusterByPrice, median } from "./price-clustering";
+import { strengthFromTouches } from "./zone-verification";
+
+// ============================================
+// TYPES
+// ============================================
+
+/**
+ * A local high or low in the candle data.
+ */
+export interface SwingPoint {
+  /** Index into the candle array */
+  index: number;
+  /** Candle time (epoch ms) */
+  time: number;
+  /** The swing high's high or swing low's low */
+  price: number;
+  kind: "high" | "low";
+}
+
+/**
+ * A level found from swing structure alone.
+ */
+export interface StructuralZone {
+  /** Median swing price */
+  price: number;
+  /** Relative to the last close */
+  type: KeyZone["type"];
+  /** Swings in the cluster */
+  touches: number;
+  strength: KeyZone["strength"];
+  /** Lowest swing price in the cluster */
+  bandLow: number;
+  /** Highest swing price in the cluster */
+  bandHigh: number;
+  /** ISO time of the most recent swing in the cluster */
+  lastTestedAt: string;
+}
+
+/**
+ * Result of cross-checking AI zones against structure.
+ * Stored on the analysis as `analysis.structure`.
+ */
+export interface StructuralCheck {
+  /** Every structural zone found, strongest first */
+  zones: StructuralZone[];
+  /** Strong structural zones that no AI zone matched */
+  missed: StructuralZone[];
+  /** AI zones with no structural zone within tolerance */
+  unbackedCount: number;
+  /** Swings detected */
+  swings: number;
+}
+
+export interface LevelEngineOptions {
+  /** Candles on each side a swing must beat (default 3) */
+  swingLookback?: number;
+  /** Swings within this fraction of each other are one level (default 0.005 = 0.5%) */
+  tolerancePct?: number;
+}
+
+export const LEVEL_ENGINE_DEFAULTS = {
+  swingLookback: 3,
+  tolerancePct: 0.005,
+};
+
+// ============================================
+// SWING DETECTION
+// ============================================
+
+/**
+ * Find swing highs and lows.
+ * The last `lookback` candles can't be confirmed yet and are skipped.
+ */
+export function findSwings(candles: Candle[], lookback = LEVEL_ENGINE_DEFAULTS.swingLookback): SwingPoint[] {
+  const swings: SwingPoint[] = [];
+
+  for (let i = lookback; i < candles.length - lookback; i++) {
+    let isHigh = true;
+    let isLow = true;
+    for (let j = i - lookback; j <= i + lookback && (isHigh || isLow); j++) {
+      if (j === i) continue;
+      if (candles[j].high >= candles[i].high) isHigh = false;
+      if (candles[j].low <= candles[i].low) isLow = false;
+    }
+    if (isHigh) swings.push({ index: i, time: candles[i].time, price: candles[i].high, kind: "high" });
+    if (isLow) swings.push({ index: i, time: candles[i].time, price: candles[i].low, kind: "low" });
+  }
+
+  return swings;
+}
+
+// ============================================
+// LEVEL DETECTION
+// ============================================
+
+/**
+ * Detect structural support/resistance zones.
+ *
+ * @param candles - Candles sorted by time
+ * @param options - Swing lookback and clustering tolerance
+ * @returns Zones sorted by touches (then proximity to the last close)
+ */
+export function detectLevels(candles: Candle[], options: LevelEngineOptions = {}): StructuralZone[] {
+  if (candles.length === 0) return [];
+  return clusterSwings(
+    findSwings(candles, options.swingLookback),
+    candles[candles.length - 1].close,
+    options.tolerancePct ?? LEVEL_ENGINE_DEFAULTS.tolerancePct
+  );
+}
+
+function clusterSwings(swings: SwingPoint[], lastClose: number, tolerancePct: number): StructuralZone[] {
+  const zones = clusterByPrice(swings, s => s.price, tolerancePct).map(cluster => buildZone(cluster, lastClose));
+  return zones.sort((a, b) =>
+    b.touches - a.touches ||
+    Math.abs(a.price - lastClose) - Math.abs(b.price - lastClose)
+  );
+}
+
+function buildZone(cluster: SwingPoint[], lastClose: number): StructuralZone {
+  const price = median(cluster.map(s => s.price));
+  return {
+    price,
+    type: price >= lastClose ? "resistance" : "support",
+    touches: cluster.length,
+    strength: strengthFromTouches(cluster.length) ?? "weak",
+    bandLow: Math.min(...cluster.map(s => s.price)),
+    bandHigh: Math.max(...cluster.map(s => s.price)),
+    lastTestedAt: new Date(Math.max(...cluster.map(s => s.time))).toISOString(),
+  };
+}
+
+// ============================================
+// CROSS-CHECK
+// ============================================
+
+/**
+ * Find the structural zone that backs an AI zone, if any.
+ * The band is widened by the tolerance on both sides.
+ */
+export function findBacking(
+  zone: KeyZone,
+  structural: StructuralZone[],
+  tolerancePct = LEVEL_ENGINE_DEFAULTS.tolerancePct
+): StructuralZone | null {
+  let best: StructuralZone | null = null;
+  for (const level of structural) {
+    const tolerance = level.price * tolerancePct;
+    if (zone.price < level.bandLow - tolerance || zone.price > level.bandHigh + tolerance) continue;
+    if (!best || Math.abs(level.price - zone.price) < Math.abs(best.price - zone.price)) best = level;
+  }
+  return best;
+}
+
+/**
+ * Cross-check an analysis' zones against structure found in the candles.
+ *
+ * @param analysis - Analysis from analyzeChart() (optionally already verified)
+ * @param candles - Imported candles (sorted by time)
+ * @param options - Swing lookback and clustering tolerance
+ * @returns A copy with `structurallyBacked` on each zone and `analysis.structure`
+ */
+export function applyStructuralCheck(
+  analysis: ChartAnalysis,
+  candles: Candle[],
+  options: LevelEngineOptions = {}
+): ChartAnalysis {
+  if (candles.length === 0) return analysis;
+  const tolerancePct = options.tolerancePct ?? LEVEL_ENGINE_DEFAULTS.tolerancePct;
+
+  const swings = findSwings(candles, options.swingLookback);
+  const zones = clusterSwings(swings, candles[candles.length - 1].close, tolerancePct);
+  const matched = new Set<StructuralZone>();
+
+  const keyZones = analysis.keyZones.map(zone => {
+    const backing = findBacking(zone, zones, tolerancePct);
+    if (backing) matched.add(backing);
+    return { ...zone, structurallyBacked: backing !== null };
+  });
+
+  return {
+    ...analysis,
+    keyZones,
+    structure: {
+      zones,
+      missed: zones.filter(z => z.strength === "strong" && !matched.has(z)),
+      unbackedCount: keyZones.filter(z => !z.structurallyBacked).length,
+      swings: swings.length,
+    },
+  };
+}
@@ -0,0 +1,252 @@
+/**
+ * Model Provider Module
+ * =====================
+ *
+ * The seam between the chart pipeline and whatever model backs it.
+ * analyzeChart(), annotateChart() and chatWithHistory() build prompts and
+ * parse results; a ChartModelProvider only moves bytes to a model and back.
+ *
+ * ## Providers
+ *
+ * | Name     | Module                          | Notes                              |
+ * |----------|---------------------------------|------------------------------------|
+ * | gemini   | providers/gemini-provider.ts    | Default. Needs GOOGLE_AI_KEY       |
+ * | mock     | providers/mock-provider.ts      | Deterministic fixtures, no network |
+ *
+ * Select with the server-only `CHART_MODEL_PROVIDER` environment variable
+ * (defaults to "gemini"). Pipeline functions also accept an explicit
+ * provider, which wins over the environment.
+ *
+ * ## Adding a Provider
+ * ```typescript
+ * const myProvider: ChartModelProvider = {
+ *   name: "my-provider",
+ *   models: { analysis: "...", annotation: "...", chat: "..." },
+ *   analyze: async (request) => ({ text: "..." }),
+ *   annotate: async (request) => ({ text: "", image: "..." }),
+ *   chat: async (request) => ({ text: "..." }),
+ * };
+ * ```
+ *
+ * `analyzeStream` is optional. Without it, streaming callers fall back to
+ * `analyze` and get every section at once.
+ *
+ * ## Cancellation
+ * Every request carries an optional `signal`. Providers must stop work and
+ * reject once it aborts. Pipeline functions build these signals with
+ * createCallLimiter(), which combines the caller's signal with a per-call
+ * timeout (MODEL_CALL_TIMEOUTS).
+ *
+ * @module model-provider
+ */
+
+import "server-only";
+import { createGeminiProvider } from "./providers/gemini-provider";
+import { createMockProvider } from "./providers/mock-provider";
+
+// ============================================
+// MESSAGE TYPES
+// ============================================
+
+/**
+ * A single part of a model message: text, an inline image, or both.
+ */
+export interface ModelPart {
+  text?: string;
+  inlineData?: {
+    mimeType: string;
+    data: string;
+  };
+}
+
+/**
+ * One turn in a model conversation.
+ */
+export interface ModelMessage {
+  role: "user" | "model";
+  parts: ModelPart[];
+}
+
+// ============================================
+// REQUEST / RESPONSE TYPES
+// ============================================
+
+/**
+ * Vision + text request: one image and a prompt, text back.
+ */
+export interface AnalyzeRequest {
+  /** Base64-encoded chart image */
+  imageBase64: string;
+  /** MIME type of the image */
+  mimeType: string;
+  /** Full prompt text */
+  prompt: string;
+  /**
+   * JSON Schema the response must follow. Providers with structured output
+   * enforce it; others may ignore it (the caller validates either way).
+   */
+  responseSchema?: object;
+  /** Aborts the call (caller cancellation or timeout) */
+  signal?: AbortSignal;
+}
+
+/**
+ * Image editing request: one image and instructions, image back.
+ */
+export interface AnnotateRequest {
+  /** Base64-encoded chart image to draw on */
+  imageBase64: string;
+  /** MIME type of the image */
+  mimeType: string;
+  /** Full annotation prompt */
+  prompt: string;
+  /** Aborts the call (caller cancellation or timeout) */
+  signal?: AbortSignal;
+}
+
+/**
+ * Multi-turn conversation request.
+ */
+export interface ChatRequest {
+  /** Full conversation, oldest first */
+  contents: ModelMessage[];
+  /** Aborts the call (caller cancellation or timeout) */
+  signal?: AbortSignal;
+}
+
+/**
+ * What every provider call returns.
+ */
+export interface ModelResponse {
+  /** Concatenated text parts of the response */
+  text: string;
+  /** First base64 image in the response, if any */
+  image?: string;
+}
+
+// ============================================
+// PROVIDER INTERFACE
+// ============================================
+
+/**
+ * A backend that can analyze, annotate and chat about chart images.
+ * Implementations throw on transport/API errors; callers decide how to
+ * degrade.
+ */
+export interface ChartModelProvider {
+  /** Provider identifier, e.g. "gemini" or "mock" */
+  readonly name: string;
+  /** Model used for each call type (for logging) */
+  readonly models: {
+    analysis: string;
+    annotation: string;
+    chat: string;
+  };
+  /** Vision + text analysis */
+  analyze(request: AnalyzeRequest): Promise<ModelResponse>;
+  /** Vision + text analysis, yielding text chunks as they are generated */
+  analyzeStream?(request: AnalyzeRequest): AsyncIterable<string>;
+  /** Draw on the image and return the edited image */
+  annotate(request: AnnotateRequest): Promise<ModelResponse>;
+  /** Multi-turn conversation */
+  chat(request: ChatRequest): Promise<ModelResponse>;
+}
+
+// ============================================
+// CANCELLATION & TIMEOUTS
+// ============================================
+
+/** Default time limit for a single model call, in ms */
+export const MODEL_CALL_TIMEOUTS = {
+  analysis: 60_000,
+  /** Image generation is the slowest call */
+  annotation: 120_000,
+  chat: 45_000,
+};
+
+/**
+ * Hands out one signal per model call and remembers why the last one
+ * aborted, so callers can tell a user cancel from a timeout.
+ */
+export interface CallLimiter {
+  /** Signal for the next call: the caller's signal plus a fresh timeout */
+  next(): AbortSignal;
+  /**
+   * "<what> cancelled" or "<what> timed out after Ns" if the last call
+   * was aborted, else null
+   */
+  describeAbort(what: string): string | null;
+}
+
+/**
+ * Create a CallLimiter.
+ *
+ * @param signal - Caller's signal (e.g. the HTTP request's)
+ * @param timeoutMs - Time limit applied to each call separately
+ */
+export function createCallLimiter(signal: AbortSignal | undefined, timeoutMs: number): CallLimiter {
+  let last: AbortSignal | null = null;
+  return {
+    next() {
+      const timeout = AbortSignal.timeout(timeoutMs);
+      last = signal ? AbortSignal.any([signal, timeout]) : timeout;
+      return last;
+    },
+    describeAbort(what) {
+      if (signal?.aborted) return `${what} cancelled`;
+      if (!last?.aborted) return null;
+      const reason: unknown = last.reason;
+      return reason instanceof Error && reason.name === "TimeoutError"
+        ? `${what} timed out after ${timeoutMs / 1000}s`
+        : `${what} cancelled`;
+    },
+  };
+}
+
+// ============================================
+// PROVIDER SELECTION
+// ============================================
+
+export type ModelProviderName = "gemini" | "mock";
+
+/** Cached provider for the configured name */
+let cached: { name: ModelProviderName; provider: ChartModelProvider } | null = null;
+
+/**
+ * Get the provider configured by `CHART_MODEL_PROVIDER`.
+ *
+ * @returns The provider, or null if it isn't configured (e.g. missing API key)
+ */
+export function getModelProvider(): ChartModelProvider | null {
+  const name = resolveProviderName(process.env.CHART_MODEL_PROVIDER);
+  if (cached?.name === name) return cached.provider;
+
+  let provider: ChartModelProvider;
+  if (name === "mock") {
+    provider = createMockProvider();
+  } else {
+    const apiKey = process.env.GOOGLE_AI_KEY;
+    if (!apiKey) {
+      console.error("Google AI API key not configured");
+      return null;
+    }
+    provider = createGeminiProvider(apiKey);
+  }
+
+  cached = { name, provider };
+  return provider;
+}
+
+/**
+ * Use the explicit provider if given, else the configured one.
+ */
+export function resolveProvider(explicit?: ChartModelProvider): ChartModelProvider | null {
+  return explicit ?? getModelProvider();
+}
+
+function resolveProviderName(value: string | undefined): ModelProviderName {
+  if (!value || value === "gemini") return "gemini";
+  if (value === "mock") return "mock";
+  console.warn(`Unknown CHART_MODEL_PROVIDER "${value}", falling back to gemini`);
+  return "gemini";
+}
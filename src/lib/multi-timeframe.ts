@@ -0,0 +1,220 @@
+/**
+ * Multi-Timeframe Analysis Module
+ * ===============================
+ *
+ * Analyzes 2-4 screenshots of the same symbol on different timeframes
+ * (e.g. 1D, 4H, 1H) and combines them into a top-down read:
+ *
+ * 1. **Per-timeframe reads** - each screenshot goes through analyzeChart()
+ *    in parallel; the timeframe label comes from the chart itself.
+ * 2. **Alignment** - the regimes are reduced to a direction (up, down,
+ *    ranging) and compared: aligned, mixed or conflicting.
+ * 3. **Cross-timeframe zones** - every timeframe's zones are clustered with
+ *    clusterZones() (as in consensus mode, with a wider tolerance); a level
+ *    reported on several timeframes ranks first.
+ *
+ * The returned ChartAnalysis is the lowest timeframe's (the execution
+ * chart: its story, zones and overlay), with `multiTimeframe` attached.
+ * Charts whose timeframe label can't be read are never picked over a
+ * labeled one; if no label is readable, the first chart submitted leads.
+ *
+ * ## Usage
+ * ```typescript
+ * const analysis = await analyzeMultiTimeframe([daily, fourHour, hourly]);
+ * analysis.multiTimeframe?.alignment; // "aligned" | "mixed" | "conflicting"
+ * analysis.multiTimeframe?.zones[0];  // { price: 94200, timeframes: ["1D", "4H"], ... }
+ * ```
+ *
+ * @module multi-timeframe
+ */
+
+import { analyzeChart, ChartPipelineOptions } from "./chart-analysis";
+import {
+  ChartAnalysis,
+  createEmptyAnalysis,
+  MULTI_TIMEFRAME_LIMITS,
+  MultiTimeframeInfo,
+  MultiTimeframeZone,
+  Regime,
+  TimeframeRead,
+} from "./analysis-result";
+import { clusterZones } from "./consensus";
+import { selectPrompt } from "./prompt-registry";
+import { timeframeMinutes } from "./timeframe";
+
+// ============================================
+// OPTIONS
+// ============================================
+
+export interface MultiTimeframeOptions extends ChartPipelineOptions {
+  /** Zones within this fraction of each other are the same level (default 0.01 = 1%) */
+  tolerancePct?: number;
+  /** Most levels kept in the merged zone list (default 8) */
+  maxZones?: number;
+}
+
+export const MULTI_TIMEFRAME_DEFAULTS = {
+  /** Wider than consensus: a daily level and an hourly level are rarely read at the same tick */
+  tolerancePct: 0.01,
+  maxZones: 8,
+};
+
+// ============================================
+// ALIGNMENT
+// ============================================
+
+type Direction = "up" | "down" | "ranging";
+
+const REGIME_DIRECTION: Record<Regime["type"], Direction> = {
+  trending_up: "up",
+  breakout: "up",
+  trending_down: "down",
+  breakdown: "down",
+  ranging: "ranging",
+};
+
+/**
+ * Classify how a set of regimes fit together and describe it in one line.
+ *
+ * @param reads - Timeframe label and regime, highest timeframe first
+ */
+export function describeAlignment(
+  reads: { timeframe: string; regime: Regime }[]
+): { alignment: MultiTimeframeInfo["alignment"]; summary: string } {
+  const groups: Record<Direction, string[]> = { up: [], down: [], ranging: [] };
+  for (const read of reads) groups[REGIME_DIRECTION[read.regime.type]].push(read.timeframe);
+
+  const directions = (Object.keys(groups) as Direction[]).filter(d => groups[d].length > 0);
+  const phrase = (direction: Direction) => {
+    const list = joinList(groups[direction]);
+    const plural = groups[direction].length > 1;
+    return direction === "ranging"
+      ? `${list} ${plural ? "are" : "is"} ranging`
+      : `${list} point${plural ? "" : "s"} ${direction}`;
+  };
+
+  if (directions.length <= 1) {
+    const direction = directions[0] ?? "ranging";
+    const all = reads.length === 2 ? "both" : "all";
+    return {
+      alignment: "aligned",
+      summary: direction === "ranging"
+        ? `${joinList(groups.ranging)} are ${all} ranging`
+        : `${joinList(groups[direction])} ${all} point ${direction}`,
+    };
+  }
+
+  if (groups.up.length > 0 && groups.down.length > 0) {
+    const rest = groups.ranging.length > 0 ? `; ${phrase("ranging")}` : "";
+    return { alignment: "conflicting", summary: `${phrase("up")} while ${phrase("down")}${rest}` };
+  }
+
+  const trend: Direction = groups.up.length > 0 ? "up" : "down";
+  return { alignment: "mixed", summary: `${phrase(trend)}, ${phrase("ranging")}` };
+}
+
+// ============================================
+// MULTI-TIMEFRAME ANALYSIS
+// ============================================
+
+/**
+ * Analyze several timeframes of one symbol and combine them.
+ *
+ * Every timeframe uses the same prompt template, rolled once for the request.
+ *
+ * @param images - 2-4 base64-encoded screenshots, any order
+ * @param userQuestion - Optional question, asked of every timeframe
+ * @param options - Tolerance, zone cap and pipeline options (streaming is not used)
+ * @returns The lowest timeframe's ChartAnalysis with `multiTimeframe` attached
+ */
+export async function analyzeMultiTimeframe(
+  images: string[],
+  userQuestion?: string,
+  options: MultiTimeframeOptions = {}
+): Promise<ChartAnalysis> {
+  const { min, max } = MULTI_TIMEFRAME_LIMITS;
+  if (images.length < min || images.length > max) {
+    return createEmptyAnalysis(`Multi-timeframe analysis needs ${min}-${max} charts`);
+  }
+  const prompt = options.prompt ?? selectPrompt("analysis");
+
+  const results = await Promise.all(
+    images.map(image => analyzeChart(image, userQuestion, { ...options, prompt, onPartial: undefined }))
+  );
+  return mergeTimeframes(results, options);
+}
+
+/**
+ * Combine per-timeframe analyses (in submission order) into one.
+ *
+ * @param analyses - One analysis per screenshot, failed ones included
+ * @param options - Tolerance and zone cap for the merged zone list
+ * @returns The lowest successful timeframe's analysis with `multiTimeframe`
+ *   attached, or the first failure if none succeeded
+ */
+export function mergeTimeframes(
+  analyses: ChartAnalysis[],
+  options: { tolerancePct?: number; maxZones?: number } = {}
+): ChartAnalysis {
+  const tolerancePct = options.tolerancePct ?? MULTI_TIMEFRAME_DEFAULTS.tolerancePct;
+  const maxZones = options.maxZones ?? MULTI_TIMEFRAME_DEFAULTS.maxZones;
+
+  // Highest timeframe first; unreadable timeframes keep submission order at the end
+  const ordered = analyses
+    .map((analysis, imageIndex) => ({
+      analysis,
+      imageIndex,
+      timeframe: analysis.timeframe?.trim() || `Chart ${imageIndex + 1}`,
+      minutes: timeframeMinutes(analysis.timeframe),
+    }))
+    .sort((a, b) => (b.minutes ?? -1) - (a.minutes ?? -1));
+
+  const succeeded = ordered.filter(r => r.analysis.success);
+  if (succeeded.length === 0) return analyses[0];
+
+  // Primary = lowest readable timeframe; an unlabeled chart could be any
+  // timeframe, so it only leads when no label could be read at all
+  const warnings: string[] = [];
+  const labeled = succeeded.filter(r => r.minutes !== null);
+  const primary = labeled.length > 0
+    ? labeled[labeled.length - 1]
+    : succeeded.reduce((first, r) => (r.imageIndex < first.imageIndex ? r : first));
+  if (labeled.length === 0) {
+    warnings.push("No timeframe labels could be read - the first chart is used as the execution chart");
+  }
+  const symbols = new Set(succeeded.map(r => r.analysis.symbol).filter(Boolean));
+  if (symbols.size > 1) {
+    warnings.push(`Charts show different symbols: ${[...symbols].join(", ")} - the timeframes may not be comparable`);
+  }
+
+  const { alignment, summary } = describeAlignment(succeeded.map(r => ({ timeframe: r.timeframe, regime: r.analysis.regime })));
+
+  const zones: MultiTimeframeZone[] = clusterZones(succeeded.map(r => r.analysis.keyZones), tolerancePct)
+    .slice(0, maxZones)
+    .map(c => ({ ...c.zone, timeframes: c.sources.map(source => succeeded[source].timeframe) }));
+
+  const timeframes: TimeframeRead[] = ordered.map(r => ({
+    timeframe: r.timeframe,
+    imageIndex: r.imageIndex,
+    primary: r === primary,
+    success: r.analysis.success,
+    error: r.analysis.error,
+    regime: r.analysis.regime,
+    currentPrice: r.analysis.currentPrice,
+  }));
+
+  return {
+    ...primary.analysis,
+    multiTimeframe: { timeframes, alignment, summary, zones, warnings },
+  };
+}
+
+// ============================================
+// HELPERS
+// ============================================
+
+/** "1D", "1D and 4H", "1D, 4H and 1H" */
+function joinList(items: string[]): string {
+  if (items.length <= 1) return items.join("");
+  return `${items.slice(0, -1).join(", ")} and ${items[items.length - 1]}`;
+}
@@ -0,0 +1,270 @@
+/**
+ * OHLCV Import Module
+ * ===================
+ *
+ * Parses candle data exported from exchanges or TradingView so zones can be
+ * checked against real prices instead of pixels.
+ *
+ * ## Accepted Formats
+ *
+ * **CSV** (comma, semicolon or tab separated), with or without a header:
+ * ```
+ * time,open,high,low,close,Volume          <- TradingView "Export chart data"
+ * 1733788800,96100,96950,95800,96700,1234
+ * ```
+ * Header names are matched loosely (`date`, `timestamp`, `Open time`, `o`...).
+ * Without a header the column order is time, open, high, low, close, volume.
+ *
+ * **JSON**:
+ * - Array of objects: `[{ "time": ..., "open": ..., ... }]` (same loose keys)
+ * - Array of arrays: `[[openTime, open, high, low, close, volume, ...]]` (Binance klines)
+ * - Column object: `{ "t": [...], "o": [...], "h": [...], "l": [...], "c": [...], "v": [...] }` (UDF)
+ * - Any of the above wrapped in `{ "candles" | "data" | "bars" | "result": ... }`
+ *
+ * Times may be unix seconds, unix milliseconds or date strings.
+ *
+ * ## Usage
+ * ```typescript
+ * const result = parseOhlcv(await file.text(), file.name);
+ * if (result.ok) {
+ *   console.log(`${result.candles.length} candles`);
+ * }
+ * ```
+ *
+ * @module ohlcv
+ */
+
+// ============================================
+// TYPES
+// ============================================
+
+/**
+ * One OHLCV bar.
+ */
+export interface Candle {
+  /** Bar open time (epoch ms) */
+  time: number;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume?: number;
+}
+
+export type OhlcvParseResult =
+  | { ok: true; candles: Candle[]; skippedRows: number }
+  | { ok: false; error: string };
+
+/**
+ * What data an analysis was checked against.
+ * Stored on the analysis; the candles themselves are not.
+ */
+export interface OhlcvSummary {
+  /** Name of the imported file */
+  fileName?: string;
+  /** Number of candles used */
+  candles: number;
+  /** ISO time of the first candle */
+  from: string;
+  /** ISO time of the last candle */
+  to: string;
+}
+
+// ============================================
+// COLUMN MATCHING
+// ============================================
+
+type Column = keyof Candle;
+
+const COLUMN_ALIASES: Record<Column, string[]> = {
+  time: ["time", "date", "datetime", "timestamp", "opentime", "t", "ts"],
+  open: ["open", "o"],
+  high: ["high", "h"],
+  low: ["low", "l"],
+  close: ["close", "c", "last", "price"],
+  volume: ["volume", "vol", "v", "basevolume"],
+};
+
+/** Column order assumed for headerless CSV and array-of-arrays JSON */
+const POSITIONAL_COLUMNS: Column[] = ["time", "open", "high", "low", "close", "volume"];
+
+function matchColumn(name: string): Column | null {
+  const normalized = name.toLowerCase().replace(/[^a-z]/g, "");
+  for (const column of POSITIONAL_COLUMNS) {
+    if (COLUMN_ALIASES[column].includes(normalized)) return column;
+  }
+  return null;
+}
+
+// ============================================
+// PARSING
+// ============================================
+
+/**
+ * Parse OHLCV text (CSV or JSON).
+ *
+ * Rows that can't be read, or whose high/low don't bracket open/close,
+ * are skipped and counted. Candles are returned sorted by time with
+ * duplicate timestamps removed.
+ *
+ * @param text - File contents
+ * @param fileName - Used to pick the format when the content is ambiguous
+ */
+export function parseOhlcv(text: string, fileName?: string): OhlcvParseResult {
+  const trimmed = text.trim();
+  if (!trimmed) return { ok: false, error: "File is empty" };
+
+  const looksJson = fileName?.toLowerCase().endsWith(".json") || /^[[{]/.test(trimmed);
+  let rows: Partial<Record<Column, unknown>>[];
+
+  if (looksJson) {
+    let json: unknown;
+    try {
+      json = JSON.parse(trimmed);
+    } catch {
+      return { ok: false, error: "File is not valid JSON" };
+    }
+    const jsonRows = rowsFromJson(json);
+    if (!jsonRows) return { ok: false, error: "Unrecognized JSON layout - expected an array of candles" };
+    rows = jsonRows;
+  } else {
+    const csvRows = rowsFromCsv(trimmed);
+    if (!csvRows) return { ok: false, error: "CSV needs time, open, high, low and close columns" };
+    rows = csvRows;
+  }
+
+  const byTime = new Map<number, Candle>();
+  let skippedRows = 0;
+  for (const row of rows) {
+    const candle = toCandle(row);
+    if (candle) byTime.set(candle.time, candle);
+    else skippedRows++;
+  }
+
+  const candles = [...byTime.values()].sort((a, b) => a.time - b.time);
+  if (candles.length === 0) return { ok: false, error: "No valid candles found" };
+  return { ok: true, candles, skippedRows };
+}
+
+/**
+ * Read and parse an OHLCV file picked in the browser.
+ */
+export async function readOhlcvFile(file: File): Promise<OhlcvParseResult> {
+  try {
+    return parseOhlcv(await file.text(), file.name);
+  } catch {
+    return { ok: false, error: "Could not read file" };
+  }
+}
+
+/**
+ * Summarize candles for storage on an analysis.
+ */
+export function summarizeOhlcv(candles: Candle[], fileName?: string): OhlcvSummary {
+  return {
+    fileName,
+    candles: candles.length,
+    from: new Date(candles[0].time).toISOString(),
+    to: new Date(candles[candles.length - 1].time).toISOString(),
+  };
+}
+
+function rowsFromCsv(text: string): Partial<Record<Column, unknown>>[] | null {
+  const lines = text.split(/\r?\n/).filter(line => line.trim());
+  const delimiter = [",", ";", "\t"].reduce((best, d) =>
+    lines[0].split(d).length > lines[0].split(best).length ? d : best
+  );
+  const split = (line: string) => line.split(delimiter).map(cell => cell.trim().replace(/^"|"$/g, ""));
+
+  // Header row if any first-row cell names a known column
+  const first = split(lines[0]);
+  const hasHeader = first.some(cell => matchColumn(cell) !== null);
+  const columns: (Column | null)[] = hasHeader ? first.map(matchColumn) : POSITIONAL_COLUMNS;
+
+  const required: Column[] = ["time", "open", "high", "low", "close"];
+  if (!required.every(c => columns.includes(c))) return null;
+
+  return lines.slice(hasHeader ? 1 : 0).map(line => {
+    const cells = split(line);
+    const row: Partial<Record<Column, unknown>> = {};
+    columns.forEach((column, i) => {
+      // First matching column wins when a header repeats a role
+      if (column && row[column] === undefined) row[column] = cells[i];
+    });
+    return row;
+  });
+}
+
+function rowsFromJson(json: unknown): Partial<Record<Column, unknown>>[] | null {
+  if (Array.isArray(json)) {
+    return json.map(item => {
+      if (Array.isArray(item)) {
+        const row: Partial<Record<Column, unknown>> = {};
+        POSITIONAL_COLUMNS.forEach((column, i) => (row[column] = item[i]));
+        return row;
+      }
+      if (typeof item === "object" && item !== null) {
+        const row: Partial<Record<Column, unknown>> = {};
+        for (const [key, value] of Object.entries(item)) {
+          const column = matchColumn(key);
+          if (column && row[column] === undefined) row[column] = value;
+        }
+        return row;
+      }
+      return {};
+    });
+  }
+
+  if (typeof json !== "object" || json === null) return null;
+  const obj = json as Record<string, unknown>;
+
+  for (const key of ["candles", "data", "bars", "result"]) {
+    if (obj[key] !== undefined) return rowsFromJson(obj[key]);
+  }
+
+  // Column-oriented (UDF): { t: [], o: [], h: [], l: [], c: [], v?: [] }
+  const columns: Partial<Record<Column, unknown[]>> = {};
+  for (const [key, value] of Object.entries(obj)) {
+    const column = matchColumn(key);
+    if (column && Array.isArray(value)) columns[column] = value;
+  }
+  if (!columns.time || !columns.open || !columns.high || !columns.low || !columns.close) return null;
+  return columns.time.map((_, i) => {
+    const row: Partial<Record<Column, unknown>> = {};
+    for (const column of POSITIONAL_COLUMNS) row[column] = columns[column]?.[i];
+    return row;
+  });
+}
+
+function toCandle(row: Partial<Record<Column, unknown>>): Candle | null {
+  const time = parseTime(row.time);
+  const open = parseNumber(row.open);
+  const high = parseNumber(row.high);
+  const low = parseNumber(row.low);
+  const close = parseNumber(row.close);
+  if (time === null || open === null || high === null || low === null || close === null) return null;
+  if (high < Math.max(open, close, low) || low > Math.min(open, close)) return null;
+
+  const volume = parseNumber(row.volume);
+  return volume === null ? { time, open, high, low, close } : { time, open, high, low, close, volume };
+}
+
+function parseNumber(value: unknown): number | null {
+  const num = typeof value === "number" ? value : typeof value === "string" ? parseFloat(value.replace(/,/g, "")) : NaN;
+  return Number.isFinite(num) ? num : null;
+}
+
+/**
+ * Unix seconds, unix ms, or a date string → epoch ms.
+ * Numbers below 1e11 are seconds (1e11 s is the year 5138; 1e11 ms is 1973).
+ */
+function parseTime(value: unknown): number | null {
+  if (typeof value === "string" && /^\d+(\.\d+)?$/.test(value.trim())) value = parseFloat(value);
+  if (typeof value === "number") {
+    if (!Number.isFinite(value) || value <= 0) return null;
+    return value < 1e11 ? value * 1000 : value;
+  }
+  if (typeof value !== "string") return null;
+  const ms = Date.parse(value);
+  return Number.isFinite(ms) ? ms : null;
+}
@@ -0,0 +1,221 @@
+/**
+ * Position Sizing Module
+ * ======================
+ *
+ * Answers "how big?" for the current read: the position that loses exactly
+ * the chosen share of the account if the stop is hit.
+ *
+ * | Input        | Where it comes from                                          |
+ * |--------------|--------------------------------------------------------------|
+ * | Entry        | The analysis' current price                                  |
+ * | Stop         | Beyond the invalidation level, else the nearest opposing     |
+ * |              | key zone (same rule as the decision card, see findStop())    |
+ * | Account/risk | SizingSettings, persisted in localStorage                    |
+ * | Leverage     | SizingSettings; 1 = spot, above 1 = perp with isolated margin |
+ *
+ * For leveraged positions the liquidation price is estimated from the
+ * leverage and a flat maintenance margin. Exchanges differ (tiers, fees,
+ * funding), so it's flagged as an estimate in the UI.
+ *
+ * ## Usage
+ * ```typescript
+ * const result = sizePosition(analysis, { accountSize: 10000, riskPct: 1, leverage: 5 });
+ * if (result.ok) {
+ *   result.position.size;       // 0.42 (units of the asset)
+ *   result.position.lossAtStop; // 100
+ * }
+ * ```
+ *
+ * @module position-sizing
+ */
+
+import type { ChartAnalysis } from "./analysis-result";
+import { readCondition } from "./analysis-diff";
+import { findStop } from "./decision-card";
+
+// ============================================
+// TYPES
+// ============================================
+
+/**
+ * User's account settings for sizing.
+ */
+export interface SizingSettings {
+  /** Account equity in quote currency (USD) */
+  accountSize: number;
+  /** Share of the account lost at the stop, in percent (1 = 1%) */
+  riskPct: number;
+  /** 1 for spot; above 1 for a leveraged perp */
+  leverage: number;
+}
+
+export type SizingSettingsResult =
+  | { ok: true; settings: SizingSettings }
+  | { ok: false; error: string };
+
+/**
+ * A sized position for the current read.
+ */
+export interface PositionSize {
+  direction: "long" | "short";
+  entry: number;
+  stop: number;
+  stopSource: "invalidation" | "zone";
+  /** Distance from entry to stop as a fraction of entry (0.02 = 2%) */
+  stopDistancePct: number;
+  /** Units of the asset */
+  size: number;
+  /** size × entry */
+  notional: number;
+  /** Collateral needed: notional / leverage */
+  margin: number;
+  leverage: number;
+  /** Dollar loss if the stop is hit */
+  lossAtStop: number;
+  /** Estimated liquidation price (leveraged positions only) */
+  liquidationPrice?: number;
+  /** Human-readable problems: liquidation before or near the stop, margin above account */
+  warnings: string[];
+}
+
+export type PositionSizeResult =
+  | { ok: true; position: PositionSize }
+  | { ok: false; error: string };
+
+// ============================================
+// DEFAULTS & LIMITS
+// ============================================
+
+export const DEFAULT_SIZING_SETTINGS: SizingSettings = {
+  accountSize: 10000,
+  riskPct: 1,
+  leverage: 1,
+};
+
+/** Allowed range for each setting (inclusive) */
+export const SIZING_LIMITS = {
+  accountSize: { min: 1, max: 1e9 },
+  riskPct: { min: 0.1, max: 10 },
+  leverage: { min: 1, max: 125 },
+};
+
+/** Flat maintenance margin used for the liquidation estimate */
+const MAINTENANCE_MARGIN = 0.005;
+
+/** Warn when liquidation sits less than this share of the stop distance beyond the stop */
+const LIQUIDATION_BUFFER = 0.5;
+
+// ============================================
+// SETTINGS
+// ============================================
+
+/**
+ * Validate (possibly stale or partial) stored settings and fill in defaults.
+ *
+ * @param value - Settings from localStorage or a form
+ */
+export function parseSizingSettings(value: unknown): SizingSettingsResult {
+  if (value === undefined || value === null) return { ok: true, settings: DEFAULT_SIZING_SETTINGS };
+  if (typeof value !== "object" || Array.isArray(value)) return { ok: false, error: "sizing settings must be an object" };
+  const raw = value as Record<string, unknown>;
+
+  const settings = { ...DEFAULT_SIZING_SETTINGS };
+  for (const key of Object.keys(SIZING_LIMITS) as (keyof SizingSettings)[]) {
+    const field = raw[key];
+    if (field === undefined) continue;
+    const { min, max } = SIZING_LIMITS[key];
+    if (typeof field !== "number" || !Number.isFinite(field) || field < min || field > max) {
+      return { ok: false, error: `sizing.${key} must be a number from ${min} to ${max}` };
+    }
+    settings[key] = field;
+  }
+  return { ok: true, settings };
+}
+
+// ============================================
+// SIZING
+// ============================================
+
+/**
+ * Which side the read favours: the side the invalidation would prove wrong,
+ * falling back to the regime.
+ */
+export function inferDirection(analysis: Pick<ChartAnalysis, "invalidation" | "regime" | "currentPrice">): "long" | "short" {
+  const invalidation = analysis.invalidation ? readCondition(analysis.invalidation) : null;
+  if (invalidation && analysis.currentPrice > 0) {
+    if (invalidation.direction === "below" && invalidation.level < analysis.currentPrice) return "long";
+    if (invalidation.direction === "above" && invalidation.level > analysis.currentPrice) return "short";
+  }
+  return analysis.regime.type === "trending_down" || analysis.regime.type === "breakdown" ? "short" : "long";
+}
+
+/**
+ * Size a position entered at the current price.
+ *
+ * @param analysis - The analysis shown in the card
+ * @param settings - Account size, risk % and leverage
+ * @param direction - Side to size (default: inferDirection())
+ */
+export function sizePosition(
+  analysis: Pick<ChartAnalysis, "invalidation" | "keyZones" | "regime" | "currentPrice">,
+  settings: SizingSettings,
+  direction: "long" | "short" = inferDirection(analysis)
+): PositionSizeResult {
+  const entry = analysis.currentPrice;
+  if (!(entry > 0)) return { ok: false, error: "No current price to size from" };
+
+  const stop = findStop(direction, entry, analysis);
+  if (!stop) {
+    return { ok: false, error: `No invalidation level or key zone ${direction === "long" ? "below" : "above"} price to place a stop` };
+  }
+
+  const { accountSize, riskPct, leverage } = settings;
+  const riskPerUnit = Math.abs(entry - stop.price);
+  const lossAtStop = accountSize * (riskPct / 100);
+  const size = lossAtStop / riskPerUnit;
+  const notional = size * entry;
+  const margin = notional / leverage;
+  const warnings: string[] = [];
+
+  if (margin > accountSize) {
+    warnings.push(`Needs $${Math.round(margin).toLocaleString()} margin - more than the account at ${leverage}x`);
+  }
+
+  let liquidationPrice: number | undefined;
+  if (leverage > 1) {
+    const move = 1 / leverage - MAINTENANCE_MARGIN;
+    liquidationPrice = direction === "long" ? entry * (1 - move) : entry * (1 + move);
+    const liquidationBeyondStop = direction === "long" ? stop.price - liquidationPrice : liquidationPrice - stop.price;
+    if (liquidationBeyondStop <= 0) {
+      warnings.push(`Liquidation (~$${formatLevel(liquidationPrice)}) comes before the stop - lower the leverage`);
+    } else if (liquidationBeyondStop < riskPerUnit * LIQUIDATION_BUFFER) {
+      warnings.push(`Liquidation (~$${formatLevel(liquidationPrice)}) sits close beyond the stop - slippage could reach it`);
+    }
+  }
+
+  return {
+    ok: true,
+    position: {
+      direction,
+      entry,
+      stop: stop.price,
+      stopSource: stop.source,
+      stopDistancePct: riskPerUnit / entry,
+      size,
+      notional,
+      margin,
+      leverage,
+      lossAtStop,
+      liquidationPrice,
+      warnings,
+    },
+  };
+}
+
+/**
+ * Format a price level for display: 2 decimals, or up to 6 below $1 so a
+ * sub-dollar stop doesn't read "$0".
+ */
+export function formatLevel(price: number): string {
+  return price.toLocaleString("en-US", { maximumFractionDigits: price < 1 ? 6 : 2 });
+}
@@ -0,0 +1,61 @@
+/**
+ * Price Clustering Module
+ * =======================
+ *
+ * The one greedy clustering rule shared by every place that groups
+ * prices into levels, so their tolerance handling can't drift apart:
+ *
+ * | Caller           | Groups                                         |
+ * |------------------|------------------------------------------------|
+ * | consensus.ts     | Zones from several samples (and timeframes)    |
+ * | level-engine.ts  | Swing highs/lows from OHLCV candles            |
+ *
+ * Items are sorted by price and merged while each next price stays within
+ * `tolerancePct` of the running cluster's median.
+ *
+ * ## Usage
+ * ```typescript
+ * clusterByPrice([{ p: 100 }, { p: 100.3 }, { p: 105 }], item => item.p, 0.005);
+ * // [[{ p: 100 }, { p: 100.3 }], [{ p: 105 }]]
+ * ```
+ *
+ * @module price-clustering
+ */
+
+/**
+ * Group items whose prices sit within a relative tolerance of each other.
+ *
+ * @param items - Anything with a price, in any order
+ * @param priceOf - Reads an item's price
+ * @param tolerancePct - Relative distance from the cluster median that still merges (0.005 = 0.5%)
+ * @returns Clusters from lowest to highest price, each in price order
+ */
+export function clusterByPrice<T>(items: T[], priceOf: (item: T) => number, tolerancePct: number): T[][] {
+  const sorted = [...items].sort((a, b) => priceOf(a) - priceOf(b));
+  const clusters: T[][] = [];
+
+  let current: T[] = [];
+  for (const item of sorted) {
+    if (current.length > 0) {
+      const center = median(current.map(priceOf));
+      if (Math.abs(priceOf(item) - center) > center * tolerancePct) {
+        clusters.push(current);
+        current = [];
+      }
+    }
+    current.push(item);
+  }
+  if (current.length > 0) clusters.push(current);
+
+  return clusters;
+}
+
+/**
+ * Median of a list of numbers (0 for an empty list).
+ */
+export function median(values: number[]): number {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
@@ -0,0 +1,214 @@
+/**
+ * Prompt Registry Module
+ * ======================
+ *
+ * Named, versioned prompt templates for the chart pipeline, and which of
+ * them a run uses. Every analysis records the template it was produced with
+ * (`analysis.promptVersion`, the trace header and saved history), so a
+ * regression can be traced to one prompt change.
+ *
+ * ## Templates
+ *
+ * | Key                | Kind       | Module                         |
+ * |--------------------|------------|--------------------------------|
+ * | chart-analysis@1   | analysis   | prompts/chart-analysis-v1.ts   |
+ * | chart-annotation@1 | annotation | prompts/chart-annotation-v1.ts |
+ *
+ * A registered version is never edited in place. To change a prompt, copy
+ * its file to the next version, register it below and select it.
+ *
+ * ## Selection
+ * Server-only environment variables, `ANALYSIS_PROMPT` and
+ * `ANNOTATION_PROMPT`, pick the template per kind. Either one key, or a
+ * weighted A/B split that is rolled once per request:
+ *
+ * ```bash
+ * ANALYSIS_PROMPT=chart-analysis@2
+ * ANALYSIS_PROMPT="chart-analysis@1:80,chart-analysis@2:20"
+ * ```
+ *
+ * A bare id ("chart-analysis") means its latest version; weights default
+ * to 1. Unset or invalid values fall back to DEFAULT_PROMPTS. Pipeline
+ * functions also accept an explicit template, which wins over the
+ * environment.
+ *
+ * @module prompt-registry
+ */
+
+import { CHART_ANALYSIS_PROMPT_V1 } from "./prompts/chart-analysis-v1";
+import { CHART_ANNOTATION_INSTRUCTION_V1 } from "./prompts/chart-annotation-v1";
+
+// ============================================
+// TYPES
+// ============================================
+
+/** Which pipeline step a template is written for */
+export type PromptKind = "analysis" | "annotation";
+
+/**
+ * Identifies one version of a prompt; stamped on results.
+ */
+export interface PromptVersion {
+  /** Template name, e.g. "chart-analysis" */
+  id: string;
+  /** Bumped for every change to the text */
+  version: number;
+}
+
+/**
+ * A registered prompt template.
+ */
+export interface PromptTemplate extends PromptVersion {
+  kind: PromptKind;
+  /** What changed in this version */
+  description: string;
+  /** The prompt text, with the kind's {PLACEHOLDERS} */
+  template: string;
+}
+
+/**
+ * Templates to choose between, each with a relative weight.
+ */
+export type PromptSelection = { prompt: PromptTemplate; weight: number }[];
+
+// ============================================
+// REGISTRY
+// ============================================
+
+export const PROMPT_REGISTRY: readonly PromptTemplate[] = [
+  {
+    id: "chart-analysis",
+    version: 1,
+    kind: "analysis",
+    description: "Layered story/zones/scenarios prompt with Y-axis calibration and conditional structure",
+    template: CHART_ANALYSIS_PROMPT_V1,
+  },
+  {
+    id: "chart-annotation",
+    version: 1,
+    kind: "annotation",
+    description: "Zone bands, range box, trendlines and patterns at exact prices; no projections",
+    template: CHART_ANNOTATION_INSTRUCTION_V1,
+  },
+];
+
+/** Used when the environment selects nothing (or something invalid) */
+export const DEFAULT_PROMPTS: Record<PromptKind, string> = {
+  analysis: "chart-analysis@1",
+  annotation: "chart-annotation@1",
+};
+
+/** Environment variable that selects each kind's template */
+export const PROMPT_ENV_VARS: Record<PromptKind, string> = {
+  analysis: "ANALYSIS_PROMPT",
+  annotation: "ANNOTATION_PROMPT",
+};
+
+// ============================================
+// LOOKUP
+// ============================================
+
+/**
+ * "id@version" - the form used in traces, eval runs and configuration.
+ */
+export function promptKey(ref: PromptVersion): string {
+  return `${ref.id}@${ref.version}`;
+}
+
+/**
+ * Look up a template by "id@version", or by bare id for its latest version.
+ */
+export function getPrompt(key: string): PromptTemplate | undefined {
+  const [id, version] = key.trim().split("@");
+  if (version === undefined) {
+    return PROMPT_REGISTRY
+      .filter(p => p.id === id)
+      .reduce<PromptTemplate | undefined>((latest, p) => (!latest || p.version > latest.version ? p : latest), undefined);
+  }
+  return PROMPT_REGISTRY.find(p => p.id === id && String(p.version) === version);
+}
+
+/**
+ * All registered templates of one kind, oldest first.
+ */
+export function listPrompts(kind: PromptKind): PromptTemplate[] {
+  return PROMPT_REGISTRY
+    .filter(p => p.kind === kind)
+    .sort((a, b) => a.id.localeCompare(b.id) || a.version - b.version);
+}
+
+// ============================================
+// SELECTION
+// ============================================
+
+/**
+ * Parse a selection: "key" or "key:weight,key:weight".
+ *
+ * @param value - e.g. "chart-analysis@1:80,chart-analysis@2:20"
+ * @param kind - Every template must be of this kind
+ */
+export function parsePromptSelection(
+  value: string,
+  kind: PromptKind
+): { ok: true; selection: PromptSelection } | { ok: false; error: string } {
+  const selection: PromptSelection = [];
+  for (const part of value.split(",")) {
+    const [key, weightText] = part.split(":");
+    const prompt = getPrompt(key);
+    if (!prompt) return { ok: false, error: `Unknown prompt "${key.trim()}"` };
+    if (prompt.kind !== kind) return { ok: false, error: `"${promptKey(prompt)}" is an ${prompt.kind} prompt, not ${kind}` };
+
+    const weight = weightText === undefined ? 1 : Number(weightText);
+    if (!Number.isFinite(weight) || weight < 0) return { ok: false, error: `Invalid weight "${weightText}" for "${key.trim()}"` };
+    selection.push({ prompt, weight });
+  }
+  if (!selection.some(s => s.weight > 0)) return { ok: false, error: "At least one prompt needs a positive weight" };
+  return { ok: true, selection };
+}
+
+/**
+ * Pick one template from a weighted selection.
+ *
+ * @param selection - From parsePromptSelection()
+ * @param roll - Uniform number in [0, 1) (default: Math.random())
+ */
+export function pickPrompt(selection: PromptSelection, roll = Math.random()): PromptTemplate {
+  const total = selection.reduce((sum, s) => sum + s.weight, 0);
+  let remaining = roll * total;
+  for (const s of selection) {
+    if (s.weight > 0 && remaining < s.weight) return s.prompt;
+    remaining -= s.weight;
+  }
+  return selection.filter(s => s.weight > 0).at(-1)!.prompt;
+}
+
+/** Parsed selection per kind, keyed by the environment value it came from */
+const cached: Partial<Record<PromptKind, { value: string | undefined; selection: PromptSelection }>> = {};
+
+/**
+ * The configured selection for a kind (ANALYSIS_PROMPT / ANNOTATION_PROMPT,
+ * else DEFAULT_PROMPTS).
+ */
+export function getPromptSelection(kind: PromptKind): PromptSelection {
+  const envVar = PROMPT_ENV_VARS[kind];
+  const value = typeof process !== "undefined" ? process.env[envVar] : undefined;
+  const hit = cached[kind];
+  if (hit && hit.value === value) return hit.selection;
+
+  let selection: PromptSelection = [{ prompt: getPrompt(DEFAULT_PROMPTS[kind])!, weight: 1 }];
+  if (value) {
+    const parsed = parsePromptSelection(value, kind);
+    if (parsed.ok) selection = parsed.selection;
+    else console.warn(`Invalid ${envVar} (${parsed.error}), falling back to ${DEFAULT_PROMPTS[kind]}`);
+  }
+
+  cached[kind] = { value, selection };
+  return selection;
+}
+
+/**
+ * Roll the configured selection for one request.
+ */
+export function selectPrompt(kind: PromptKind, roll?: number): PromptTemplate {
+  return pickPrompt(getPromptSelection(kind), roll);
+}
@@ -0,0 +1,127 @@
+/**
+ * Gemini Provider
+ * ===============
+ *
+ * ChartModelProvider backed by Google's Gemini models.
+ *
+ * | Call      | Model                        | Notes                          |
+ * |-----------|------------------------------|--------------------------------|
+ * | analyze   | gemini-2.0-flash             | Fast, good vision understanding|
+ * |           |                              | (also streamed: analyzeStream) |
+ * | annotate  | gemini-3-pro-image-preview   | Can draw on images             |
+ * | chat      | gemini-2.0-flash             | Conversational, fast           |
+ *
+ * @module providers/gemini-provider
+ * @requires @google/genai
+ */
+
+import { GoogleGenAI } from "@google/genai";
+import type { AnalyzeRequest, ChartModelProvider, ModelPart, ModelResponse } from "../model-provider";
+
+/** Default Gemini models per call type */
+export const GEMINI_MODELS = {
+  analysis: "gemini-2.0-flash",
+  annotation: "gemini-3-pro-image-preview",
+  chat: "gemini-2.0-flash",
+};
+
+/**
+ * Create a Gemini-backed provider.
+ * The SDK client is created once per provider instance.
+ *
+ * @param apiKey - Google AI API key (server-only)
+ * @param models - Optional model overrides
+ */
+export function createGeminiProvider(
+  apiKey: string,
+  models: Partial<typeof GEMINI_MODELS> = {}
+): ChartModelProvider {
+  const ai = new GoogleGenAI({ apiKey });
+  const resolved = { ...GEMINI_MODELS, ...models };
+
+  return {
+    name: "gemini",
+    models: resolved,
+
+    async analyze(request) {
+      const response = await ai.models.generateContent(analysisParams(resolved.analysis, request));
+      return collectParts(response.candidates?.[0]?.content?.parts || []);
+    },
+
+    async *analyzeStream(request) {
+      const stream = await ai.models.generateContentStream(analysisParams(resolved.analysis, request));
+      for await (const chunk of stream) {
+        const { text } = collectParts(chunk.candidates?.[0]?.content?.parts || []);
+        if (text) yield text;
+      }
+    },
+
+    async annotate({ imageBase64, mimeType, prompt, signal }) {
+      const response = await ai.models.generateContent({
+        model: resolved.annotation,
+        contents: [
+          {
+            role: "user",
+            parts: [
+              { inlineData: { mimeType, data: imageBase64 } },
+              { text: prompt },
+            ],
+          },
+        ],
+        config: {
+          // IMPORTANT: Request both TEXT and IMAGE response modalities
+          responseModalities: ["TEXT", "IMAGE"],
+          abortSignal: signal,
+        },
+      });
+      return collectParts(response.candidates?.[0]?.content?.parts || []);
+    },
+
+    async chat({ contents, signal }) {
+      const response = await ai.models.generateContent({
+        model: resolved.chat,
+        contents,
+        config: { abortSignal: signal },
+      });
+      return collectParts(response.candidates?.[0]?.content?.parts || []);
+    },
+  };
+}
+
+/**
+ * Request parameters shared by analyze and analyzeStream.
+ */
+function analysisParams(model: string, { imageBase64, mimeType, prompt, responseSchema, signal }: AnalyzeRequest) {
+  return {
+    model,
+    contents: [
+      {
+        role: "user",
+        parts: [
+          // Image first, then the prompt
+          { inlineData: { mimeType, data: imageBase64 } },
+          { text: prompt },
+        ],
+      },
+    ],
+    config: {
+      abortSignal: signal,
+      // Structured output: the model must return JSON matching the schema
+      ...(responseSchema && { responseMimeType: "application/json", responseJsonSchema: responseSchema }),
+    },
+  };
+}
+
+/**
+ * Flatten Gemini response parts into a ModelResponse.
+ * Text parts are concatenated; the first inline image wins.
+ */
+function collectParts(parts: Array<Pick<ModelPart, "text"> & { inlineData?: { data?: string } }>): ModelResponse {
+  let text = "";
+  let image: string | undefined;
+  for (const part of parts) {
+    if (part.text) text += part.text;
+    if (!image && part.inlineData?.data) image = part.inlineData.data;
+  }
+  return { text, image };
+}
@@ -0,0 +1,144 @@
+/**
+ * Mock Provider Fixtures
+ * ======================
+ *
+ * Canned model output for the mock provider. The analysis fixture is the
+ * raw JSON the analysis prompt asks the model for (not a parsed
+ * ChartAnalysis), so it exercises the same parsing and validation path as
+ * a real response. Keys follow the response schema's order so streamed
+ * sections arrive the way they would from the model.
+ *
+ * @module providers/mock-fixtures
+ */
+
+/**
+ * A ranging BTC 4H chart with two clean zones either side of price,
+ * a confident range box, one fakeout, a confirmed line of lower highs,
+ * a two-point (candidate) line of rising lows and a forming double bottom.
+ */
+export const MOCK_ANALYSIS_RESPONSE = {
+  story: "BTC ran from $88,400 to $99,800 in early November, then rolled over and has spent two weeks chopping between $94,200 support and $98,500 resistance. A wick below $94,200 last week was bought back within the same candle.",
+  currentContext: "Currently at $96,150, mid-range, with no clear direction yet.",
+  regime: { type: "ranging", confidence: 0.82 },
+  currentPrice: 96150,
+  symbol: "BTC/USD",
+  timeframe: "4H",
+  typicalCandleRange: 1150,
+  priceAxis: {
+    scale: "linear",
+    labels: [
+      { price: 100000, y: 0.05 },
+      { price: 98000, y: 0.2 },
+      { price: 96000, y: 0.35 },
+      { price: 94000, y: 0.5 },
+      { price: 92000, y: 0.65 },
+      { price: 90000, y: 0.8 },
+      { price: 88000, y: 0.95 },
+    ],
+  },
+  keyZones: [
+    {
+      price: 98500,
+      label: "Range resistance",
+      significance: "Rejected 3x since the November high",
+      type: "resistance",
+      strength: "strong",
+      touches: [0.38, 0.55, 0.81],
+    },
+    {
+      price: 94200,
+      label: "Range support",
+      significance: "Held on every test, including last week's sweep",
+      type: "support",
+      strength: "strong",
+      touches: [0.46, 0.67, 0.88],
+    },
+    {
+      price: 99800,
+      label: "November high",
+      significance: "Top of the impulse leg",
+      type: "resistance",
+      strength: "weak",
+      touches: [0.3],
+    },
+    {
+      price: 88400,
+      label: "Impulse origin",
+      significance: "Base of the November rally",
+      type: "support",
+      strength: "moderate",
+      touches: [0.12, 0.2],
+    },
+  ],
+  scenarios: [
+    {
+      condition: "If price closes a 4H candle above $98,500...",
+      implication: "...buyers have reclaimed the range high and the November high at $99,800 comes back into play.",
+    },
+    {
+      condition: "If price loses $94,200 on a closing basis...",
+      implication: "...the range has resolved lower and the move that started at $88,400 is being retraced.",
+    },
+  ],
+  invalidation: "A daily close below $94,200 invalidates the range read.",
+  rangeBox: { high: 98500, low: 94200, confidence: 0.85 },
+  pivots: null,
+  fakeouts: [{ level: 94200, direction: "below", confidence: 0.78, x: 0.88 }],
+  trendlines: [
+    {
+      type: "resistance",
+      label: "Lower highs from the top",
+      anchors: [{ x: 0.3, price: 99800 }, { x: 0.55, price: 98900 }, { x: 0.81, price: 98100 }],
+      touches: 3,
+      confidence: 0.76,
+    },
+    {
+      type: "support",
+      label: "Rising lows",
+      anchors: [{ x: 0.67, price: 94250 }, { x: 0.88, price: 94400 }],
+      touches: 2,
+      confidence: 0.72,
+    },
+  ],
+  channels: null,
+  patterns: [
+    {
+      type: "double_bottom",
+      points: [
+        { x: 0.67, price: 94250, label: "Bottom 1" },
+        { x: 0.81, price: 98100, label: "Neckline" },
+        { x: 0.88, price: 94300, label: "Bottom 2" },
+      ],
+      breakoutLevel: 98100,
+      state: "forming",
+      confidence: 0.74,
+    },
+  ],
+  indicators: {
+    panes: ["rsi", "volume"],
+    rsi: { value: 46.8 },
+    macd: null,
+    volume: { trend: "falling", spike: false },
+    divergences: [
+      {
+        indicator: "rsi",
+        type: "bullish",
+        pricePoints: [{ x: 0.67, price: 94250 }, { x: 0.88, price: 94180 }],
+        confidence: 0.71,
+      },
+    ],
+  },
+  timeAxis: {
+    labels: [
+      { time: "2024-11-20T00:00:00Z", x: 0.15 },
+      { time: "2024-11-27T00:00:00Z", x: 0.4 },
+      { time: "2024-12-04T00:00:00Z", x: 0.65 },
+      { time: "2024-12-11T00:00:00Z", x: 0.9 },
+    ],
+    lastCandleX: 0.92,
+  },
+};
+
+/** Deterministic reply used by the mock chat call */
+export const MOCK_CHAT_REPLY =
+  "This is a mock reply. The range between **$94,200** and **$98,500** is still the key structure - watch for a close outside it.";
@@ -0,0 +1,93 @@
+/**
+ * Mock Provider
+ * =============
+ *
+ * Deterministic, offline ChartModelProvider. Returns fixture output for
+ * every call so the UI and pipeline can be developed without an API key
+ * or network access. Simulated latency honours each request's abort
+ * signal, so cancellation and timeouts can be exercised offline.
+ *
+ * Enable with `CHART_MODEL_PROVIDER=mock`, or construct directly:
+ * ```typescript
+ * const analysis = await analyzeChart(image, undefined, {
+ *   provider: createMockProvider({ analysis: myFixture }),
+ * });
+ * ```
+ *
+ * @module providers/mock-provider
+ */
+
+import type { ChartModelProvider } from "../model-provider";
+import { MOCK_ANALYSIS_RESPONSE, MOCK_CHAT_REPLY } from "./mock-fixtures";
+
+export interface MockProviderOptions {
+  /** Analysis response: an object is JSON-encoded, a string is returned as-is */
+  analysis?: object | string;
+  /** Base64 image returned by annotate (null = no image, forces canvas fallback) */
+  annotatedImage?: string | null;
+  /** Text returned by chat */
+  chatReply?: string;
+  /** Simulated latency per call in ms (spread across chunks when streaming) */
+  latencyMs?: number;
+  /** Chunks analyzeStream splits the analysis response into (default 8) */
+  streamChunks?: number;
+}
+
+/**
+ * Create a mock provider.
+ *
+ * @param options - Fixture overrides
+ */
+export function createMockProvider(options: MockProviderOptions = {}): ChartModelProvider {
+  const analysis = options.analysis ?? MOCK_ANALYSIS_RESPONSE;
+  const analysisText = typeof analysis === "string" ? analysis : JSON.stringify(analysis, null, 2);
+  const latencyMs = options.latencyMs ?? 0;
+
+  return {
+    name: "mock",
+    models: { analysis: "mock-analysis", annotation: "mock-annotation", chat: "mock-chat" },
+
+    async analyze({ signal }) {
+      await delay(latencyMs, signal);
+      return { text: analysisText };
+    },
+
+    async *analyzeStream({ signal }) {
+      const chunks = Math.max(1, options.streamChunks ?? 8);
+      const size = Math.ceil(analysisText.length / chunks);
+      for (let i = 0; i < analysisText.length; i += size) {
+        await delay(latencyMs / chunks, signal);
+        yield analysisText.slice(i, i + size);
+      }
+    },
+
+    async annotate({ signal }) {
+      await delay(latencyMs, signal);
+      return { text: "", image: options.annotatedImage || undefined };
+    },
+
+    async chat({ signal }) {
+      await delay(latencyMs, signal);
+      return { text: options.chatReply ?? MOCK_CHAT_REPLY };
+    },
+  };
+}
+
+/**
+ * Wait `ms`, rejecting with the signal's reason if it aborts first.
+ */
+function delay(ms: number, signal?: AbortSignal): Promise<void> {
+  signal?.throwIfAborted();
+  if (ms <= 0) return Promise.resolve();
+  return new Promise((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
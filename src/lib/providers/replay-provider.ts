@@ -0,0 +1,113 @@
+/**
+ * Replay Provider
+ * ===============
+ *
+ * Offline ChartModelProvider that answers analysis calls from recorded
+ * model responses, so an evaluation run can be repeated exactly without a
+ * key or network. Wrap a live provider with createRecordingProvider() to
+ * capture the recordings.
+ *
+ * Recordings are keyed by a hash of the image and the full prompt: after a
+ * prompt change every call misses (and throws) instead of replaying an
+ * answer to a different question.
+ *
+ * ```typescript
+ * const recordings: ResponseRecording[] = [];
+ * const live = createRecordingProvider(createGeminiProvider(apiKey), r => recordings.push(r));
+ * await analyzeChart(image, undefined, { provider: live });
+ *
+ * // Later, offline - same response, same analysis
+ * await analyzeChart(image, undefined, { provider: createReplayProvider(recordings) });
+ * ```
+ *
+ * Server/Node only (uses node's crypto).
+ *
+ * @module providers/replay-provider
+ */
+
+import { createHash } from "crypto";
+import type { AnalyzeRequest, ChartModelProvider } from "../model-provider";
+
+/**
+ * One recorded analysis response.
+ */
+export interface ResponseRecording {
+  /** recordingKey() of the request that produced it */
+  key: string;
+  /** Analysis model that answered */
+  model: string;
+  text: string;
+}
+
+/**
+ * Key a request by its image and full prompt.
+ */
+export function recordingKey(request: Pick<AnalyzeRequest, "imageBase64" | "prompt">): string {
+  return createHash("sha256")
+    .update(request.imageBase64)
+    .update("\0")
+    .update(request.prompt)
+    .digest("hex")
+    .slice(0, 32);
+}
+
+/**
+ * Create a provider that replays recorded analysis responses.
+ * Annotation returns no image (callers fall back to the canvas plan) and
+ * chat isn't supported.
+ *
+ * @param recordings - From createRecordingProvider()
+ */
+export function createReplayProvider(recordings: ResponseRecording[]): ChartModelProvider {
+  const byKey = new Map(recordings.map(recording => [recording.key, recording]));
+  const model = recordings[0]?.model ?? "replay";
+
+  return {
+    name: "replay",
+    models: { analysis: model, annotation: "none", chat: "none" },
+
+    async analyze(request) {
+      request.signal?.throwIfAborted();
+      const key = recordingKey(request);
+      const recording = byKey.get(key);
+      if (!recording) {
+        throw new Error(`No recorded response for this image and prompt (key ${key})`);
+      }
+      return { text: recording.text };
+    },
+
+    async annotate() {
+      return { text: "" };
+    },
+
+    async chat() {
+      throw new Error("The replay provider has no chat recordings");
+    },
+  };
+}
+
+/**
+ * Wrap a provider so every analysis response is reported to `onRecord`.
+ * Streaming is switched off so each response arrives whole.
+ *
+ * @param provider - The live provider
+ * @param onRecord - Receives each recording as its call completes
+ */
+export function createRecordingProvider(
+  provider: ChartModelProvider,
+  onRecord: (recording: ResponseRecording) => void
+): ChartModelProvider {
+  return {
+    name: provider.name,
+    models: provider.models,
+
+    async analyze(request) {
+      const response = await provider.analyze(request);
+      onRecord({ key: recordingKey(request), model: provider.models.analysis, text: response.text });
+      return response;
+    },
+
+    annotate: request => provider.annotate(request),
+    chat: request => provider.chat(request),
+  };
+}
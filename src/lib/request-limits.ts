@@ -0,0 +1,163 @@
+/**
+ * Request Limits Module
+ * =====================
+ *
+ * Shared guards for the `/api/*` route handlers. Every handler reads its
+ * JSON body through `readJsonBody()`, which enforces a byte cap before the
+ * payload is parsed, so an oversized screenshot (or a malicious client)
+ * can't make the server buffer an unbounded request.
+ *
+ * ## Usage
+ * ```typescript
+ * const body = await readJsonBody<AnalyzeRequestBody>(request, REQUEST_LIMITS.analyzeBodyBytes);
+ * if (!body.ok) return body.response;
+ * ```
+ *
+ * @module request-limits
+ */
+
+import "server-only";
+
+import { NextResponse } from "next/server";
+import { detectImageMime, MODEL_IMAGE_MIMES } from "./image-intake";
+
+// ============================================
+// LIMITS
+// ============================================
+
+/**
+ * Size caps for API requests.
+ *
+ * Base64 inflates binary data by ~33%, so an 8 MB image string is roughly a
+ * 6 MB screenshot - comfortably above a full-resolution retina capture.
+ */
+export const REQUEST_LIMITS = {
+  /** Maximum length of a single base64-encoded image */
+  imageBase64Bytes: 8 * 1024 * 1024,
+  /** Maximum body size for /api/analyze (one image + question) */
+  analyzeBodyBytes: 9 * 1024 * 1024,
+  /** Maximum body size for /api/analyze-timeframes (up to four images + question) */
+  timeframesBodyBytes: 33 * 1024 * 1024,
+  /** Maximum body size for /api/annotate (one image + analysis JSON) */
+  annotateBodyBytes: 9 * 1024 * 1024,
+  /** Maximum body size for /api/chat (history may carry several images) */
+  chatBodyBytes: 20 * 1024 * 1024,
+  /** Maximum length of a user question or chat message */
+  textChars: 4000,
+  /** Maximum length of the system context passed to chat */
+  systemContextChars: 16000,
+  /** Maximum number of messages in a chat history */
+  chatMessages: 40,
+  /** Maximum number of images across a chat history */
+  chatImages: 4,
+  /** Maximum parallel samples for a consensus analysis */
+  consensusSamples: 5,
+};
+
+// ============================================
+// RESPONSE HELPERS
+// ============================================
+
+/**
+ * Build a JSON error response.
+ *
+ * @param status - HTTP status code
+ * @param error - Human-readable error message
+ */
+export function errorResponse(status: number, error: string) {
+  return NextResponse.json({ success: false, error }, { status });
+}
+
+// ============================================
+// BODY READING
+// ============================================
+
+export type ReadBodyResult<T> =
+  | { ok: true; body: T }
+  | { ok: false; response: NextResponse };
+
+/**
+ * Read and parse a JSON request body, rejecting anything over `maxBytes`.
+ *
+ * The Content-Length header is checked first (cheap rejection), then the
+ * stream is read incrementally so a missing or lying header still can't
+ * push the server past the cap.
+ *
+ * @param request - Incoming route handler request
+ * @param maxBytes - Maximum accepted body size in bytes
+ * @returns Parsed body, or a ready-to-return error response
+ */
+export async function readJsonBody<T>(request: Request, maxBytes: number): Promise<ReadBodyResult<T>> {
+  const declared = Number(request.headers.get("content-length"));
+  if (Number.isFinite(declared) && declared > maxBytes) {
+    return { ok: false, response: errorResponse(413, `Request body too large (max ${formatBytes(maxBytes)})`) };
+  }
+
+  if (!request.body) {
+    return { ok: false, response: errorResponse(400, "Request body is required") };
+  }
+
+  const reader = request.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let received = 0;
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    received += value.byteLength;
+    if (received > maxBytes) {
+      await reader.cancel();
+      return { ok: false, response: errorResponse(413, `Request body too large (max ${formatBytes(maxBytes)})`) };
+    }
+    chunks.push(value);
+  }
+
+  const bytes = new Uint8Array(received);
+  let offset = 0;
+  for (const chunk of chunks) {
+    bytes.set(chunk, offset);
+    offset += chunk.byteLength;
+  }
+
+  try {
+    return { ok: true, body: JSON.parse(new TextDecoder().decode(bytes)) as T };
+  } catch {
+    return { ok: false, response: errorResponse(400, "Request body must be valid JSON") };
+  }
+}
+
+/**
+ * Check that a value is a non-empty base64 image string within the size cap,
+ * in a format the model accepts (detected from its bytes).
+ *
+ * @returns An error message, or null if the image is acceptable
+ */
+export function checkImage(value: unknown, field = "imageBase64"): string | null {
+  if (typeof value !== "string" || value.length === 0) {
+    return `${field} must be a non-empty base64 string`;
+  }
+  if (value.length > REQUEST_LIMITS.imageBase64Bytes) {
+    return `${field} too large (max ${formatBytes(REQUEST_LIMITS.imageBase64Bytes)})`;
+  }
+  const mimeType = detectImageMime(value);
+  if (!mimeType || !MODEL_IMAGE_MIMES.includes(mimeType)) {
+    return `${field} must be a PNG, JPEG or WebP image`;
+  }
+  return null;
+}
+
+/**
+ * Check that an optional text field is a string within `maxChars`.
+ *
+ * @returns An error message, or null if the text is acceptable
+ */
+export function checkText(value: unknown, field: string, maxChars = REQUEST_LIMITS.textChars): string | null {
+  if (value === undefined || value === null) return null;
+  if (typeof value !== "string") return `${field} must be a string`;
+  if (value.length > maxChars) return `${field} too long (max ${maxChars} characters)`;
+  return null;
+}
+
+function formatBytes(bytes: number): string {
+  return `${(bytes / (1024 * 1024)).toFixed(0)} MB`;
+}
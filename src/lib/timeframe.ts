@@ -0,0 +1,55 @@
+/**
+ * Timeframe Module
+ * ================
+ *
+ * Parses the timeframe labels charting platforms print ("4H", "1D", "M15")
+ * into minutes. Used to order screenshots in multi-timeframe analysis and to
+ * scale zone bands when no candle data is available.
+ *
+ * Kept free of other lib imports so both chart-analysis.ts and the modules
+ * it depends on can use it.
+ *
+ * @module timeframe
+ */
+
+const UNIT_MINUTES: Record<string, number> = {
+  m: 1,
+  min: 1,
+  h: 60,
+  hr: 60,
+  d: 1440,
+  w: 10080,
+  wk: 10080,
+  mo: 43200,
+  mn: 43200,
+};
+
+/**
+ * Length of a timeframe label in minutes, for ordering.
+ *
+ * Understands TradingView style ("15", "1H", "4h", "1D", "1W", "1M" =
+ * month) and MetaTrader style ("M15" = minutes, "H4", "D1", "MN").
+ *
+ * @param label - Timeframe as read from the chart
+ * @returns Minutes, or null if the label isn't recognized
+ */
+export function timeframeMinutes(label: string | undefined): number | null {
+  if (!label) return null;
+  const text = label.trim().replace(/\s+/g, "");
+
+  // MetaTrader: unit first, "M" means minutes
+  const unitFirst = text.match(/^([a-zA-Z]+)(\d*)$/);
+  if (unitFirst && unitFirst[2]) {
+    const unit = unitFirst[1].toLowerCase();
+    const minutes = unit === "m" ? 1 : UNIT_MINUTES[unit];
+    return minutes ? minutes * Number(unitFirst[2]) : null;
+  }
+
+  // TradingView: count first, bare number = minutes, "M" means month
+  const countFirst = text.match(/^(\d*)([a-zA-Z]*)$/);
+  if (!countFirst || (!countFirst[1] && !countFirst[2])) return null;
+  const count = countFirst[1] ? Number(countFirst[1]) : 1;
+  if (!countFirst[2]) return count;
+  const minutes = countFirst[2] === "M" ? UNIT_MINUTES.mo : UNIT_MINUTES[countFirst[2].toLowerCase()];
+  return minutes ? count * minutes : null;
+}
@@ -1,7 +1,8 @@
 "use client";
 
 import { useState, useEffect, useCallback } from "react";
-import { ChartAnalysis } from "./chart-analysis";
+import type { ChartAnalysis } from "./analysis-result";
+import type { PromptVersion } from "./prompt-registry";
 
 // Helper to get stored value
 function getStoredValue<T>(key: string, defaultValue: T): T {
@@ -84,6 +85,8 @@ export interface SavedAnalysis {
   analysis: ChartAnalysis;
   chartThumbnail: string;  // base64, small version
   prompt: string;
+  /** Prompt template the analysis was produced with (absent on older entries) */
+  promptVersion?: PromptVersion;
   savedAt: string;
 }
 
@@ -100,6 +103,7 @@ export function useAnalysisHistory() {
       analysis,
       chartThumbnail: chartImage.slice(0, 5000), // Truncate for storage
       prompt,
+      promptVersion: analysis.promptVersion,
       savedAt: new Date().toISOString(),
     };
     
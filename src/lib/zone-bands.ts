@@ -0,0 +1,168 @@
+/**
+ * Zone Bands Module
+ * =================
+ *
+ * Sizes each key zone's price band from how much the market actually moves,
+ * instead of a fixed share of price. A 1-minute chart gets a thin band, a
+ * weekly chart a wide one.
+ *
+ * Volatility is the typical candle range (ATR-like), taken from the best
+ * source available:
+ *
+ * | Source    | How                                                            |
+ * |-----------|----------------------------------------------------------------|
+ * | ohlcv     | Average true range of the last ATR_PERIOD attached candles     |
+ * | image     | The model's read of a typical recent candle's high-low range   |
+ * | timeframe | TIMEFRAME_BASE_RANGE_PCT scaled by √(timeframe / 1h)           |
+ *
+ * Each zone's band is ± BAND_RANGE_SHARE of that range, clamped to
+ * ZONE_BAND_LIMITS. Without any source zones keep no band and renderers
+ * fall back to the profile's zoneBandPct.
+ *
+ * ## Usage
+ * ```typescript
+ * const volatility = estimateVolatility(analysis.currentPrice, { candles, timeframe: "4H" });
+ * const keyZones = bandZones(analysis.keyZones, volatility);
+ * keyZones[0].priceLow; // 93880
+ * ```
+ *
+ * @module zone-bands
+ */
+
+import type { KeyZone } from "./analysis-result";
+import type { Candle } from "./ohlcv";
+import { timeframeMinutes } from "./timeframe";
+
+// ============================================
+// TYPES
+// ============================================
+
+/**
+ * Typical candle range the zone bands were sized from.
+ */
+export interface VolatilityEstimate {
+  /** Typical candle range as a fraction of price (0.012 = 1.2%) */
+  rangePct: number;
+  source: "ohlcv" | "image" | "timeframe";
+}
+
+// ============================================
+// TUNING
+// ============================================
+
+/** Candles averaged for the true range */
+const ATR_PERIOD = 14;
+
+/** Half-height of a band, as a share of the typical candle range */
+const BAND_RANGE_SHARE = 0.5;
+
+/** Typical 1H candle range when only the timeframe is known */
+const TIMEFRAME_BASE_RANGE_PCT = 0.008;
+
+/** Half-height bounds, as a fraction of the zone price */
+export const ZONE_BAND_LIMITS = { minPct: 0.001, maxPct: 0.05 };
+
+// ============================================
+// ESTIMATION
+// ============================================
+
+/**
+ * Average true range of the last `period` candles.
+ *
+ * @param candles - Candles sorted by time
+ * @returns ATR in price units, or null with fewer than two candles
+ */
+export function averageTrueRange(candles: Candle[], period = ATR_PERIOD): number | null {
+  if (candles.length < 2) return null;
+  const recent = candles.slice(-(period + 1));
+  const ranges = recent.slice(1).map((candle, i) => {
+    const previousClose = recent[i].close;
+    return Math.max(candle.high - candle.low, Math.abs(candle.high - previousClose), Math.abs(candle.low - previousClose));
+  });
+  return ranges.reduce((sum, r) => sum + r, 0) / ranges.length;
+}
+
+/**
+ * Estimate the typical candle range from the best available source.
+ *
+ * @param price - Reference price (usually the current price)
+ * @param sources - Attached candles, the model's candle-range read, the timeframe label
+ * @returns The estimate, or null if no source is usable
+ */
+export function estimateVolatility(
+  price: number,
+  sources: { candles?: Candle[]; candleRange?: number; timeframe?: string }
+): VolatilityEstimate | null {
+  const atr = sources.candles ? averageTrueRange(sources.candles) : null;
+  const lastClose = sources.candles?.[sources.candles.length - 1]?.close;
+  if (atr !== null && atr > 0 && lastClose && lastClose > 0) {
+    return { rangePct: atr / lastClose, source: "ohlcv" };
+  }
+
+  if (price > 0 && sources.candleRange && sources.candleRange > 0 && sources.candleRange < price) {
+    return { rangePct: sources.candleRange / price, source: "image" };
+  }
+
+  const minutes = timeframeMinutes(sources.timeframe);
+  if (minutes) {
+    return { rangePct: TIMEFRAME_BASE_RANGE_PCT * Math.sqrt(minutes / 60), source: "timeframe" };
+  }
+
+  return null;
+}
+
+// ============================================
+// BANDS
+// ============================================
+
+/**
+ * Half-height of a zone band as a fraction of price.
+ */
+export function bandHalfPct(volatility: VolatilityEstimate): number {
+  const { minPct, maxPct } = ZONE_BAND_LIMITS;
+  return Math.min(maxPct, Math.max(minPct, volatility.rangePct * BAND_RANGE_SHARE));
+}
+
+/**
+ * Give every zone a `priceLow`/`priceHigh` band sized from volatility.
+ *
+ * @param zones - Zones to band (existing bands are replaced)
+ * @param volatility - From estimateVolatility(); null leaves zones unchanged
+ */
+export function bandZones(zones: KeyZone[], volatility: VolatilityEstimate | null | undefined): KeyZone[] {
+  if (!volatility) return zones;
+  const halfPct = bandHalfPct(volatility);
+  return zones.map(zone => ({
+    ...zone,
+    priceLow: roundBand(zone.price * (1 - halfPct), zone.price),
+    priceHigh: roundBand(zone.price * (1 + halfPct), zone.price),
+  }));
+}
+
+/**
+ * Move a zone's band with its price, keeping the band's height
+ * (for zones whose price was re-centred, e.g. by clustering).
+ */
+export function shiftBand(zone: KeyZone, price: number): Pick<KeyZone, "priceLow" | "priceHigh"> {
+  if (zone.priceLow === undefined || zone.priceHigh === undefined) return {};
+  const delta = price - zone.price;
+  return {
+    priceLow: roundBand(zone.priceLow + delta, price),
+    priceHigh: roundBand(zone.priceHigh + delta, price),
+  };
+}
+
+/** Two more decimals than the level itself, so a band edge isn't 94117.60000001 */
+function roundBand(value: number, reference: number): number {
+  return Number(value.toFixed(decimalPlaces(reference) + 2));
+}
+
+/**
+ * Fewest decimals that reproduce a price (94200 → 0, 22.4 → 1, 1.2e-7 → 8).
+ * Read from the number rather than its string, which may be in exponent form.
+ */
+export function decimalPlaces(price: number): number {
+  let decimals = 0;
+  while (decimals < 20 && Number(price.toFixed(decimals)) !== price) decimals++;
+  return decimals;
+}
@@ -0,0 +1,154 @@
+/**
+ * Zone Verification Module
+ * ========================
+ *
+ * Checks the model's key zones against imported OHLCV candles, turning
+ * "the model says it bounced here 3 times" into counted facts:
+ *
+ * - **touches** - separate reactions at the level in the data
+ * - **lastTestedAt** - time of the most recent reaction
+ * - **band** - the exact price range the reaction wicks spanned
+ *
+ * Verified zones are marked `dataSource: "ohlcv"` and their strength is
+ * re-derived from the real touch count (weak 1, moderate 2, strong 3+).
+ * Zones with no data stay `"image_only"`.
+ *
+ * ## What Counts as a Touch
+ *
+ * A **support** touch is a candle whose low reaches within the tolerance of
+ * the level and that closes back above it (a sweep below that reclaims the
+ * level still counts). **Resistance** is the mirror image. Consecutive
+ * touching candles are one reaction, not several.
+ *
+ * ## Usage
+ * ```typescript
+ * const verified = applyOhlcvVerification(analysis, candles, "BTCUSD_240.csv");
+ * verified.keyZones[0].verification; // { touches: 3, lastTestedAt: "...", bandLow: 94120, bandHigh: 94310 }
+ * ```
+ *
+ * This module is pure and runs in the browser - the candles never leave the
+ * user's machine.
+ *
+ * @module zone-verification
+ */
+
+import type { ChartAnalysis, KeyZone } from "./analysis-result";
+import { Candle, summarizeOhlcv } from "./ohlcv";
+
+// ============================================
+// TYPES
+// ============================================
+
+/**
+ * What the data says about a zone.
+ */
+export interface ZoneVerification {
+  /** Separate reactions at the level */
+  touches: number;
+  /** ISO time of the most recent reaction */
+  lastTestedAt?: string;
+  /** Lowest reaction extreme (support: wick low, resistance: wick high) */
+  bandLow?: number;
+  /** Highest reaction extreme */
+  bandHigh?: number;
+}
+
+export interface VerificationOptions {
+  /** How close a wick must come to the level, as a fraction of price (default 0.005 = 0.5%) */
+  tolerancePct?: number;
+  /** Touching candles closer together than this many bars are one reaction (default 3) */
+  minBarsBetweenTouches?: number;
+}
+
+export const VERIFICATION_DEFAULTS = {
+  tolerancePct: 0.005,
+  minBarsBetweenTouches: 3,
+};
+
+// ============================================
+// VERIFICATION
+// ============================================
+
+/**
+ * Count reactions at one zone.
+ *
+ * @param zone - Zone to check (price and type are used)
+ * @param candles - Candles sorted by time
+ * @param options - Tolerance and touch spacing
+ */
+export function verifyZone(zone: KeyZone, candles: Candle[], options: VerificationOptions = {}): ZoneVerification {
+  const tolerance = zone.price * (options.tolerancePct ?? VERIFICATION_DEFAULTS.tolerancePct);
+  const minGap = options.minBarsBetweenTouches ?? VERIFICATION_DEFAULTS.minBarsBetweenTouches;
+  const isSupport = zone.type === "support";
+
+  // Each reaction keeps the index of its most extreme candle
+  const reactions: number[] = [];
+  let lastTouchIndex = -Infinity;
+
+  candles.forEach((candle, i) => {
+    const touched = isSupport
+      ? candle.low <= zone.price + tolerance && candle.close >= zone.price - tolerance
+      : candle.high >= zone.price - tolerance && candle.close <= zone.price + tolerance;
+    if (!touched) return;
+
+    if (i - lastTouchIndex < minGap && reactions.length > 0) {
+      const current = reactions[reactions.length - 1];
+      const moreExtreme = isSupport ? candle.low < candles[current].low : candle.high > candles[current].high;
+      if (moreExtreme) reactions[reactions.length - 1] = i;
+    } else {
+      reactions.push(i);
+    }
+    lastTouchIndex = i;
+  });
+
+  if (reactions.length === 0) return { touches: 0 };
+
+  const extremes = reactions.map(i => (isSupport ? candles[i].low : candles[i].high));
+  return {
+    touches: reactions.length,
+    lastTestedAt: new Date(candles[reactions[reactions.length - 1]].time).toISOString(),
+    bandLow: Math.min(...extremes),
+    bandHigh: Math.max(...extremes),
+  };
+}
+
+/**
+ * Verify every zone of an analysis against candle data.
+ *
+ * @param analysis - Analysis from analyzeChart()
+ * @param candles - Imported candles (sorted by time)
+ * @param fileName - Source file, recorded in `analysis.ohlcv`
+ * @param options - Tolerance and touch spacing
+ * @returns A copy of the analysis with verified zones and an `ohlcv` summary
+ */
+export function applyOhlcvVerification(
+  analysis: ChartAnalysis,
+  candles: Candle[],
+  fileName?: string,
+  options: VerificationOptions = {}
+): ChartAnalysis {
+  if (candles.length === 0) return analysis;
+
+  const keyZones = analysis.keyZones.map(zone => {
+    const verification = verifyZone(zone, candles, options);
+    return {
+      ...zone,
+      dataSource: "ohlcv" as const,
+      verification,
+      strength: strengthFromTouches(verification.touches) ?? zone.strength,
+      lastTestedAt: verification.lastTestedAt ?? zone.lastTestedAt,
+    };
+  });
+
+  return { ...analysis, keyZones, ohlcv: summarizeOhlcv(candles, fileName) };
+}
+
+/**
+ * KeyZone strength for a touch count (null when there are no touches).
+ */
+export function strengthFromTouches(touches: number): KeyZone["strength"] | null {
+  if (touches >= 3) return "strong";
+  if (touches === 2) return "moderate";
+  if (touches === 1) return "weak";
+  return null;
+}